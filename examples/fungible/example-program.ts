@@ -7,6 +7,7 @@ import {
   buildProgramUpdateField,
   buildTokenDistributionInstruction,
   buildTokenUpdateField,
+  buildTransferInstruction,
   buildUpdateInstruction,
 } from '@versatus/versatus-javascript/lib/programs/instruction-builders/builder-helpers'
 import {
@@ -17,6 +18,7 @@ import {
   Program,
   ProgramUpdate,
 } from '@versatus/versatus-javascript/lib/programs/Program'
+import { runProgram } from '@versatus/versatus-javascript/lib/programs/program-runner'
 import {
   Address,
   AddressOrNamespace,
@@ -44,236 +46,270 @@ import {
 class FungibleTokenProgram extends Program {
   constructor() {
     super()
-    Object.assign(this.methodStrategies, {
-      approve: this.approve.bind(this),
-      burn: this.burn.bind(this),
-      create: this.create.bind(this),
-      mint: this.mint.bind(this),
+    this.defineMethods({
+      approve: this.approve,
+      burn: this.burn,
+      create: {
+        handler: this.create,
+        inputs: {
+          symbol: 'string',
+          name: 'string',
+          totalSupply: 'amount',
+          initializedSupply: 'amount',
+          imgUrl: 'string',
+          paymentProgramAddress: 'address',
+          conversionRate: 'amount',
+          to: { type: 'address', optional: true },
+        },
+      },
+      mint: this.mint,
+      setAllowance: {
+        handler: this.setAllowance,
+        inputs: { spender: 'address', amount: 'amount' },
+      },
+      transferFrom: {
+        handler: this.transferFrom,
+        inputs: { from: 'address', to: 'address', amount: 'amount' },
+      },
     })
   }
 
   approve(computeInputs: ComputeInputs) {
-    try {
-      const { transaction } = computeInputs
-      const { transactionInputs, programId } = transaction
-      const tokenId = new AddressOrNamespace(new Address(programId))
-      const caller = new Address(transaction.from)
-
-      const update = buildTokenUpdateField({
-        field: 'approvals',
-        value: JSON.parse(transactionInputs),
-        action: 'extend',
-      })
-
-      const tokenUpdate = new TokenUpdate(
-        new AddressOrNamespace(caller),
-        new AddressOrNamespace(THIS),
-        [update]
-      )
-
-      const tokenOrProgramUpdate = new TokenOrProgramUpdate(
-        'tokenUpdate',
-        tokenUpdate
-      )
-      const updateInstruction = new TokenUpdateBuilder()
-        .addTokenAddress(tokenId)
-        .addUpdateField(tokenOrProgramUpdate)
-        .build()
-
-      return new Outputs(computeInputs, [updateInstruction]).toJson()
-    } catch (e) {
-      throw e
-    }
+    const { transaction } = computeInputs
+    const { transactionInputs, programId } = transaction
+    const tokenId = new AddressOrNamespace(new Address(programId))
+    const caller = new Address(transaction.from)
+
+    const approvals: Array<[string, string[]]> = JSON.parse(transactionInputs)
+    const update = buildTokenUpdateField({
+      field: 'approvals',
+      value: approvals.map(([spender, tokenIds]) => [
+        new Address(spender),
+        tokenIds,
+      ]),
+      action: 'extend',
+    })
+
+    const tokenUpdate = new TokenUpdate(
+      new AddressOrNamespace(caller),
+      new AddressOrNamespace(THIS),
+      [update]
+    )
+
+    const tokenOrProgramUpdate = new TokenOrProgramUpdate(
+      'tokenUpdate',
+      tokenUpdate
+    )
+    const updateInstruction = new TokenUpdateBuilder()
+      .addTokenAddress(tokenId)
+      .addUpdateField(tokenOrProgramUpdate)
+      .build()
+
+    return new Outputs(computeInputs, [updateInstruction]).toJson()
   }
 
   burn(computeInputs: ComputeInputs) {
-    try {
-      const { transaction } = computeInputs
-      const { from, programId, value } = transaction
-
-      checkIfValuesAreUndefined({ from, programId, value })
-
-      const burnInstruction = buildBurnInstruction({
-        from: from,
-        caller: from,
-        programId: THIS,
-        tokenAddress: programId,
-        amount: value,
-      })
-
-      return new Outputs(computeInputs, [burnInstruction]).toJson()
-    } catch (e) {
-      throw e
-    }
+    const { transaction } = computeInputs
+    const { from, programId, value } = transaction
+
+    checkIfValuesAreUndefined({ from, programId, value })
+
+    const burnInstruction = buildBurnInstruction({
+      from: from,
+      caller: from,
+      programId: THIS,
+      tokenAddress: programId,
+      amount: value,
+    })
+
+    return new Outputs(computeInputs, [burnInstruction]).toJson()
   }
 
   create(computeInputs: ComputeInputs) {
-    try {
-      const { transaction } = computeInputs
-      const { transactionInputs, from, to } = transaction
-      const txInputs = validate(
-        JSON.parse(transactionInputs),
-        'unable to parse transactionInputs'
-      )
-
-      // metadata
-      const totalSupply = txInputs?.totalSupply
-      const initializedSupply = txInputs?.initializedSupply
-      const symbol = txInputs?.symbol
-      const name = txInputs?.name
-      const recipientAddress = txInputs?.to ?? transaction.to
-      const metadataStr = validateAndCreateJsonString({
-        symbol,
-        name,
-        totalSupply: formatAmountToHex(totalSupply),
-      })
-
-      // data
-      const imgUrl = txInputs?.imgUrl
-      const paymentProgramAddress = txInputs?.paymentProgramAddress
-      const conversionRate = txInputs?.conversionRate
-      const methods = 'approve,create,burn,mint,update'
-      const dataStr = validateAndCreateJsonString({
-        type: 'fungible',
-        imgUrl,
-        paymentProgramAddress,
-        conversionRate,
-        methods,
-      })
-
-      const addTokenMetadata = buildTokenUpdateField({
-        field: 'metadata',
-        value: metadataStr,
-        action: 'extend',
-      })
-
-      const addTokenData = buildTokenUpdateField({
-        field: 'data',
-        value: dataStr,
-        action: 'extend',
-      })
-
-      const addProgramData = buildProgramUpdateField({
-        field: 'data',
-        value: dataStr,
-        action: 'extend',
-      })
-
-      const distributionInstruction = buildTokenDistributionInstruction({
-        programId: THIS,
-        initializedSupply: formatAmountToHex(initializedSupply),
-        to: recipientAddress ?? to,
-        tokenUpdates: [addTokenMetadata, addTokenData],
-      })
-
-      const createAndDistributeInstruction = buildCreateInstruction({
-        from,
-        initializedSupply: formatAmountToHex(initializedSupply),
-        totalSupply,
-        programId: THIS,
-        programOwner: from,
-        programNamespace: THIS,
-        distributionInstruction,
-      })
-
-      const addProgramMetadata = buildProgramUpdateField({
-        field: 'metadata',
-        value: metadataStr,
-        action: 'extend',
-      })
-
-      const programUpdateInstruction = buildUpdateInstruction({
-        update: new TokenOrProgramUpdate(
-          'programUpdate',
-          new ProgramUpdate(new AddressOrNamespace(THIS), [
-            addProgramMetadata,
-            addProgramData,
-          ])
-        ),
-      })
-
-      return new Outputs(computeInputs, [
-        createAndDistributeInstruction,
-        programUpdateInstruction,
-      ]).toJson()
-    } catch (e) {
-      throw e
-    }
+    const { transaction } = computeInputs
+    const { transactionInputs, from, to } = transaction
+    const txInputs = validate(
+      JSON.parse(transactionInputs),
+      'unable to parse transactionInputs'
+    )
+
+    // metadata
+    const totalSupply = txInputs?.totalSupply
+    const initializedSupply = txInputs?.initializedSupply
+    const symbol = txInputs?.symbol
+    const name = txInputs?.name
+    const recipientAddress = txInputs?.to ?? transaction.to
+    const metadataStr = validateAndCreateJsonString({
+      symbol,
+      name,
+      totalSupply: formatAmountToHex(totalSupply),
+    })
+
+    // data
+    const imgUrl = txInputs?.imgUrl
+    const paymentProgramAddress = txInputs?.paymentProgramAddress
+    const conversionRate = txInputs?.conversionRate
+    const methods = 'approve,create,burn,mint,update,setAllowance,transferFrom'
+    const dataStr = validateAndCreateJsonString({
+      type: 'fungible',
+      imgUrl,
+      paymentProgramAddress,
+      conversionRate,
+      methods,
+    })
+
+    const addTokenMetadata = buildTokenUpdateField({
+      field: 'metadata',
+      value: metadataStr,
+      action: 'extend',
+    })
+
+    const addTokenData = buildTokenUpdateField({
+      field: 'data',
+      value: dataStr,
+      action: 'extend',
+    })
+
+    const addProgramData = buildProgramUpdateField({
+      field: 'data',
+      value: dataStr,
+      action: 'extend',
+    })
+
+    const distributionInstruction = buildTokenDistributionInstruction({
+      programId: THIS,
+      initializedSupply: formatAmountToHex(initializedSupply),
+      to: recipientAddress ?? to,
+      tokenUpdates: [addTokenMetadata, addTokenData],
+    })
+
+    const createAndDistributeInstruction = buildCreateInstruction({
+      from,
+      initializedSupply: formatAmountToHex(initializedSupply),
+      totalSupply,
+      programId: THIS,
+      programOwner: from,
+      programNamespace: THIS,
+      distributionInstruction,
+    })
+
+    const addProgramMetadata = buildProgramUpdateField({
+      field: 'metadata',
+      value: metadataStr,
+      action: 'extend',
+    })
+
+    const programUpdateInstruction = buildUpdateInstruction({
+      update: new TokenOrProgramUpdate(
+        'programUpdate',
+        new ProgramUpdate(new AddressOrNamespace(THIS), [
+          addProgramMetadata,
+          addProgramData,
+        ])
+      ),
+    })
+
+    return new Outputs(computeInputs, [
+      createAndDistributeInstruction,
+      programUpdateInstruction,
+    ]).toJson()
   }
 
   mint(computeInputs: ComputeInputs) {
-    try {
-      const { transaction } = computeInputs
-      const currProgramInfo = validate(
-        computeInputs.accountInfo?.programs[transaction.to],
-        'token missing from self...'
-      )
-
-      const tokenData = validate(
-        currProgramInfo?.data,
-        'token missing required data to mint...'
-      )
-
-      const paymentProgramAddress = tokenData.paymentProgramAddress
-      const inputValue = BigInt(transaction.value)
-      const conversionRate = tokenData.conversionRate
-      const returnedValue: bigint =
-        BigInt(inputValue.toString()) * BigInt(conversionRate.toString())
-
-      checkIfValuesAreUndefined({
-        paymentProgramAddress,
-        inputValue,
-        conversionRate,
-        returnedValue,
-      })
-
-      const mintInstructions = buildMintInstructions({
-        from: transaction.from,
-        programId: transaction.programId,
-        paymentTokenAddress: paymentProgramAddress,
-        inputValue: inputValue,
-        returnedValue: returnedValue,
-      })
-
-      return new Outputs(computeInputs, mintInstructions).toJson()
-    } catch (e) {
-      throw e
-    }
-  }
-}
+    const { transaction } = computeInputs
+    const currProgramInfo = validate(
+      computeInputs.accountInfo?.programs[transaction.to],
+      'token missing from self...'
+    )
+
+    const tokenData = validate(
+      currProgramInfo?.data,
+      'token missing required data to mint...'
+    )
+
+    const paymentProgramAddress = tokenData.paymentProgramAddress
+    const inputValue = BigInt(transaction.value)
+    const conversionRate = tokenData.conversionRate
+    const returnedValue: bigint =
+      BigInt(inputValue.toString()) * BigInt(conversionRate.toString())
+
+    checkIfValuesAreUndefined({
+      paymentProgramAddress,
+      inputValue,
+      conversionRate,
+      returnedValue,
+    })
 
-const start = (input: ComputeInputs) => {
-  try {
-    const contract = new FungibleTokenProgram()
-    return contract.start(input)
-  } catch (e) {
-    throw e
+    const mintInstructions = buildMintInstructions({
+      from: transaction.from,
+      programId: transaction.programId,
+      paymentTokenAddress: paymentProgramAddress,
+      inputValue: inputValue,
+      returnedValue: returnedValue,
+    })
+
+    return new Outputs(computeInputs, mintInstructions).toJson()
   }
-}
 
-process.stdin.setEncoding('utf8')
+  setAllowance(computeInputs: ComputeInputs) {
+    const { transaction } = computeInputs
+    const { spender, amount } = JSON.parse(transaction.transactionInputs)
 
-let data = ''
+    const allowanceUpdate = buildTokenUpdateField({
+      field: 'allowance',
+      value: [[new Address(spender), formatAmountToHex(amount)]],
+      action: 'insert',
+    })
 
-process.stdin.on('readable', () => {
-  try {
-    let chunk
+    const updateInstruction = buildUpdateInstruction({
+      update: new TokenOrProgramUpdate(
+        'tokenUpdate',
+        new TokenUpdate(
+          new AddressOrNamespace(new Address(transaction.from)),
+          new AddressOrNamespace(THIS),
+          [allowanceUpdate]
+        )
+      ),
+    })
 
-    while ((chunk = process.stdin.read()) !== null) {
-      data += chunk
-    }
-  } catch (e) {
-    throw e
+    return new Outputs(computeInputs, [updateInstruction]).toJson()
   }
-})
-
-process.stdin.on('end', () => {
-  try {
-    const parsedData = JSON.parse(data)
-    const result = start(parsedData)
-    process.stdout.write(JSON.stringify(result))
-  } catch (err) {
-    // @ts-ignore
-    process.stdout.write(err.message)
+
+  transferFrom(computeInputs: ComputeInputs) {
+    const { transaction } = computeInputs
+    const { from, to, amount } = JSON.parse(transaction.transactionInputs)
+    const value = formatAmountToHex(amount)
+
+    // Spending lowers the caller's allowance, which fails if it is too small.
+    const spendAllowance = buildTokenUpdateField({
+      field: 'allowance',
+      value: [[new Address(transaction.from), value]],
+      action: 'remove',
+    })
+
+    const allowanceInstruction = buildUpdateInstruction({
+      update: new TokenOrProgramUpdate(
+        'tokenUpdate',
+        new TokenUpdate(
+          new AddressOrNamespace(new Address(from)),
+          new AddressOrNamespace(THIS),
+          [spendAllowance]
+        )
+      ),
+    })
+
+    const transferInstruction = buildTransferInstruction({
+      from,
+      to,
+      tokenAddress: transaction.programId,
+      amount: BigInt(value),
+    })
+
+    return new Outputs(computeInputs, [
+      allowanceInstruction,
+      transferInstruction,
+    ]).toJson()
   }
-})
+}
+
+runProgram(FungibleTokenProgram)
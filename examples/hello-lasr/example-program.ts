@@ -4,6 +4,7 @@ import {
   Program,
   ProgramUpdate,
 } from '@versatus/versatus-javascript/lib/programs/Program'
+import { runProgram } from '@versatus/versatus-javascript/lib/programs/program-runner'
 import {
   buildProgramUpdateField,
   buildUpdateInstruction,
@@ -15,8 +16,11 @@ import { Outputs } from '@versatus/versatus-javascript/lib/programs/Outputs'
 class HelloLasrProgram extends Program {
   constructor() {
     super()
-    Object.assign(this.methodStrategies, {
-      hello: this.hello.bind(this),
+    this.defineMethods({
+      hello: {
+        handler: this.hello,
+        inputs: { name: { type: 'string', optional: true } },
+      },
     })
   }
 
@@ -52,28 +56,4 @@ class HelloLasrProgram extends Program {
   }
 }
 
-const start = (input: ComputeInputs) => {
-  const contract = new HelloLasrProgram()
-  return contract.start(input)
-}
-
-process.stdin.setEncoding('utf8')
-
-let data = ''
-
-process.stdin.on('readable', () => {
-  let chunk
-  while ((chunk = process.stdin.read()) !== null) {
-    data += chunk
-  }
-})
-
-process.stdin.on('end', () => {
-  try {
-    const parsedData = JSON.parse(data)
-    const result = start(parsedData)
-    process.stdout.write(JSON.stringify(result))
-  } catch (err) {
-    console.error('Failed to parse JSON input:', err)
-  }
-})
+runProgram(HelloLasrProgram)
@@ -2,6 +2,7 @@ import {
   Program,
   ProgramUpdate,
 } from '@versatus/versatus-javascript/lib/programs/Program'
+import { runProgram } from '@versatus/versatus-javascript/lib/programs/program-runner'
 import { ComputeInputs } from '@versatus/versatus-javascript/lib/types'
 import { Outputs } from '@versatus/versatus-javascript/lib/programs/Outputs'
 
@@ -32,10 +33,10 @@ class SnakeProgram extends Program {
    */
   constructor() {
     super()
-    Object.assign(this.methodStrategies, {
-      burn: this.burn.bind(this),
-      create: this.create.bind(this),
-      mint: this.mint.bind(this),
+    this.defineMethods({
+      burn: this.burn,
+      create: this.create,
+      mint: this.mint,
     })
   }
 
@@ -144,28 +145,4 @@ class SnakeProgram extends Program {
   }
 }
 
-const start = (input: ComputeInputs) => {
-  const contract = new SnakeProgram()
-  return contract.start(input)
-}
-
-process.stdin.setEncoding('utf8')
-
-let data = ''
-
-process.stdin.on('readable', () => {
-  let chunk
-  while ((chunk = process.stdin.read()) !== null) {
-    data += chunk
-  }
-})
-
-process.stdin.on('end', () => {
-  try {
-    const parsedData = JSON.parse(data)
-    const result = start(parsedData)
-    process.stdout.write(JSON.stringify(result))
-  } catch (err) {
-    console.error('Failed to parse JSON input:', err)
-  }
-})
+runProgram(SnakeProgram)
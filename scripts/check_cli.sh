@@ -9,12 +9,13 @@ DIR="$( cd "$( dirname "${BASH_SOURCE[0]}" )" && pwd )"
 source "$DIR/colored_echo.sh"
 ROOT_DIR=$(pwd)
 
-LASR_CLI_PATH="$ROOT_DIR/build/lasr_cli"
+BUILD_DIR="${LASR_BUILD_DIR:-$ROOT_DIR/build}"
+LASR_CLI_PATH="${LASR_CLI_PATH:-$BUILD_DIR/lasr_cli}"
 LASR_CLI_URL="https://pub-7ab7c88a9a43431382c12cf40b7a6edf.r2.dev/lasr_cli" # OSX M2
 
 # Create the build directory if it doesn't exist
-if [ ! -d "$ROOT_DIR/build" ]; then
-    mkdir -p "$ROOT_DIR/build"
+if [ ! -d "$(dirname "$LASR_CLI_PATH")" ]; then
+    mkdir -p "$(dirname "$LASR_CLI_PATH")"
 fi
 
 # Check if the WASM file exists and download it if it does not
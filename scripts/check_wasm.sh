@@ -9,16 +9,17 @@ DIR="$( cd "$( dirname "${BASH_SOURCE[0]}" )" && pwd )"
 source "$DIR/colored_echo.sh"
 ROOT_DIR=$(pwd)
 
-WASM_PATH="$ROOT_DIR/build/versatus-wasm"
+BUILD_DIR="${LASR_BUILD_DIR:-$ROOT_DIR/build}"
+WASM_PATH="$BUILD_DIR/versatus-wasm"
 # WASM_URL="https://github.com/versatus/test-versatus-release-actions/releases/download/${VERSA_WASM_VERSION}/versa-wasm"
 WASM_URL="https://pub-7ab7c88a9a43431382c12cf40b7a6edf.r2.dev/versatus-wasm" # OSX M2
 
-LASR_CLI_PATH="$ROOT_DIR/build/cli"
+LASR_CLI_PATH="$BUILD_DIR/cli"
 LASR_CLI_URL="https://pub-7ab7c88a9a43431382c12cf40b7a6edf.r2.dev/cli" # OSX M2
 
 # Create the build directory if it doesn't exist
-if [ ! -d "$ROOT_DIR/build" ]; then
-    mkdir -p "$ROOT_DIR/build"
+if [ ! -d "$BUILD_DIR" ]; then
+    mkdir -p "$BUILD_DIR"
 fi
 
 # Check if the WASM file exists and download it if it does not
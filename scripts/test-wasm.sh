@@ -5,10 +5,11 @@ source "$DIR/colored_echo.sh"
 
 # Use the current working directory as the root directory
 ROOT_DIR=$(pwd)
-BUILD_WASM_PATH="$ROOT_DIR/build/build.wasm"
-WASM_PATH="$ROOT_DIR/build/versatus-wasm"
+BUILD_DIR="${LASR_BUILD_DIR:-$ROOT_DIR/build}"
+BUILD_WASM_PATH="$BUILD_DIR/build.wasm"
+WASM_PATH="$BUILD_DIR/versatus-wasm"
 
-LASR_CLI_PATH="$ROOT_DIR/build/lasr_cli"
+LASR_CLI_PATH="${LASR_CLI_PATH:-$BUILD_DIR/lasr_cli}"
 
 # Check if the JSON input file path is provided as an argument
 if [ -z "$1" ]; then
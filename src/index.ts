@@ -16,8 +16,24 @@ export {
   Status,
   Wallet,
   NETWORK,
+  NetworkProfile,
+  LasrRpcMethods,
+  LasrRpcMethod,
+  JsonRpcRequest,
+  JsonRpcResponse,
   Metadata,
   InstructionKinds,
+  InstructionValues,
+  LogField,
+  LogFieldType,
+  ProgramFieldActions,
+  ProgramFieldKinds,
+  ProgramUpdateFieldParams,
+  TokenFieldActions,
+  TokenFieldKinds,
+  TokenUpdateFieldParams,
+  TokenOrProgramUpdateKinds,
+  TokenOrProgramUpdateValues,
 } from './lib/types'
 
 export {
@@ -32,10 +48,14 @@ export {
   buildProgramMetadataUpdateInstruction,
   buildProgramDataUpdateInstruction,
   buildTokenMetadataUpdateInstruction,
+  buildLogInstruction,
 } from './lib/programs/instruction-builders/builder-helpers'
 
 export {
   Program,
+  ProgramMethod,
+  ProgramMethodDefinition,
+  ProgramMethodOptions,
   ProgramUpdate,
   TokenOrProgramUpdate,
   AddressOrNamespace,
@@ -44,9 +64,36 @@ export {
   TokenUpdateField,
   TokenField,
   TokenFieldValue,
+  TokenMetadataRemove,
+  TokenIdRemove,
   ApprovalsValue,
   ApprovalsExtend,
+  AllowanceValue,
+  AllowanceInsert,
+  AllowanceExtend,
+  AllowanceRemove,
+  AllowanceRevoke,
   Address,
+  Instruction,
+  CreateInstruction,
+  UpdateInstruction,
+  TransferInstruction,
+  BurnInstruction,
+  LogInstruction,
+  TokenDistribution,
+  ProgramUpdateField,
+  ProgramFieldValue,
+  runProgram,
+  toProgramErrorOutput,
+  ProgramConstructor,
+  ProgramErrorOutput,
+  InputFieldType,
+  InputFieldSchema,
+  InputSchema,
+  InputFieldError,
+  InputValidationError,
+  getInputErrors,
+  validateInputs,
 } from './lib/programs/index'
 
 export {
@@ -60,7 +107,10 @@ export {
   VERSE_PROGRAM_ADDRESS,
 } from './lib/consts'
 
-export { TokenUpdateBuilder } from './lib/programs/instruction-builders/builders'
+export {
+  TokenUpdateBuilder,
+  LogInstructionBuilder,
+} from './lib/programs/instruction-builders/builders'
 
 export {
   parseAmountToBigInt,
@@ -73,4 +123,92 @@ export {
   formatHexToAmount,
 } from './lib/utils'
 
-export { broadcast, getAccount } from './lib/versatus'
+export { LasrClient } from './lib/client'
+
+export {
+  BuildError,
+  CliProcessError,
+  ExpectationError,
+  ExpectationMismatch,
+  LasrError,
+  ProgramExecutionError,
+  RpcError,
+  SigningError,
+  StateError,
+  ValidationError,
+  ValidationFieldError,
+} from './lib/errors'
+
+export {
+  LogLevel,
+  Logger,
+  createConsoleLogger,
+  getLogger,
+  setLogger,
+  silentLogger,
+} from './lib/logger'
+
+export {
+  BUILT_IN_NETWORKS,
+  getNetworkNames,
+  getNetworkProfile,
+  registerNetworks,
+  resetNetworks,
+} from './lib/networks'
+
+export {
+  Keystore,
+  KeystoreAccount,
+  KeystoreFile,
+  KeystoreOptions,
+  KeystoreV3,
+  decryptKeystore,
+  encryptPrivateKey,
+} from './lib/keystore'
+
+export { NonceManager, getNonceManager, isNonceError } from './lib/nonce'
+
+export {
+  DEFAULT_RETRY_POLICY,
+  RetryOptions,
+  RetryPolicy,
+  getRetryDelay,
+  isRetryableError,
+  isUnprocessedError,
+  sendJsonRpc,
+  withRetry,
+} from './lib/transport'
+
+export {
+  broadcast,
+  buildTransaction,
+  getAccount,
+  getNewNonce,
+  getSignerAddress,
+  hashTransaction,
+  recoverSender,
+  signTransaction,
+  submitTransaction,
+  verifyTransaction,
+} from './lib/versatus'
+
+export {
+  LasrEmulator,
+  BalanceDeltas,
+  EmulatorContext,
+  EmulatorLog,
+  EmulatorResult,
+  EmulatorTransaction,
+  getBalanceDeltas,
+} from './lib/emulator'
+
+export {
+  ExpectedLog,
+  TestExpectations,
+  TestInput,
+  checkExpectations,
+  formatMismatches,
+  parseTestInput,
+} from './lib/expectations'
+
+export { ComputeInputsOptions, createComputeInputs } from './lib/fixtures'
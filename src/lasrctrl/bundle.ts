@@ -0,0 +1,368 @@
+import path from 'path'
+import { spawn } from 'child_process'
+import { pathToFileURL } from 'url'
+import webpack, { Configuration, Stats } from 'webpack'
+import {
+  installedPackagePath,
+  isInstalledPackage,
+} from '@/lasrctrl/cli-helpers'
+import { getProjectPaths } from '@/lasrctrl/config'
+import { BuildError, CliProcessError } from '@/lib/errors'
+
+/**
+ * How a program is bundled. Source maps are written next to the bundle unless turned off.
+ */
+export interface BundleOptions {
+  outputDir?: string
+  sourceMaps?: boolean
+  mode?: 'production' | 'development'
+}
+
+/**
+ * The outcome of a successful build. Sizes are in bytes.
+ */
+export interface BundleResult {
+  entry: string
+  outputPath: string
+  size: number
+  sourceMapPath?: string
+  sourceMapSize?: number
+  durationMs: number
+  warnings: string[]
+}
+
+/**
+ * Loads the webpack config shipped with the SDK, which every program is bundled with.
+ *
+ * @returns {Promise<Configuration>} The base webpack config, without an entry or output.
+ */
+export async function loadWebpackConfig(): Promise<Configuration> {
+  const configPath = isInstalledPackage
+    ? path.join(installedPackagePath, 'webpack.config.js')
+    : path.resolve(process.cwd(), 'webpack.config.js')
+  const config = await import(pathToFileURL(configPath).href)
+  return config.default ?? config
+}
+
+/**
+ * Bundles a program into a single file that LASR can run, using webpack's API in-process.
+ *
+ * @param {string} entry - The program's entry file.
+ * @param {BundleOptions} options - Where to write the bundle and whether to write source maps.
+ * @returns {Promise<BundleResult>} The bundle's path, size and any warnings.
+ * @throws {BuildError} Throws if the program cannot be bundled, e.g. because it does not compile.
+ *
+ * @example
+ * const { outputPath, size } = await bundleProgram('src/example-program.ts')
+ */
+export async function bundleProgram(
+  entry: string,
+  {
+    outputDir = getProjectPaths().libDir,
+    sourceMaps = true,
+    mode = 'production',
+  }: BundleOptions = {}
+): Promise<BundleResult> {
+  const entryPath = path.resolve(entry)
+  const startedAt = Date.now()
+
+  const stats = await runWebpack(
+    entryPath,
+    await programConfig(entryPath, outputDir, sourceMaps, mode)
+  )
+  return toBundleResult(stats, entryPath, outputDir, Date.now() - startedAt)
+}
+
+/**
+ * A running `watchProgram`. Closing it stops watching the program's files. While it is suspended,
+ * changes are collected but no build starts; `suspend` resolves once a build that was already
+ * running has finished, and `resume` builds the changes collected meanwhile.
+ */
+export interface BundleWatcher {
+  suspend(): Promise<void>
+  resume(): void
+  close(): Promise<void>
+}
+
+/**
+ * Bundles a program, then rebuilds it whenever one of the files it imports changes. Webpack
+ * keeps its module cache between builds, so only the changed files are compiled again.
+ *
+ * @param {string} entry - The program's entry file.
+ * @param {BundleOptions} options - Where to write the bundle and whether to write source maps.
+ * @param {Function} onBuild - Called after every build, with a `BuildError` if it failed.
+ * @returns {Promise<BundleWatcher>} The watcher, to close once done.
+ * @throws {BuildError} Throws if the webpack config is invalid.
+ *
+ * @example
+ * const watcher = await watchProgram('src/example-program.ts', {}, (error, result) => {
+ *   console.log(error ?? `Rebuilt ${result.outputPath}`)
+ * })
+ */
+export async function watchProgram(
+  entry: string,
+  {
+    outputDir = getProjectPaths().libDir,
+    sourceMaps = true,
+    mode = 'development',
+  }: BundleOptions = {},
+  onBuild: (error: BuildError | undefined, result?: BundleResult) => void
+): Promise<BundleWatcher> {
+  const entryPath = path.resolve(entry)
+  const compiler = createCompiler(
+    entryPath,
+    await programConfig(entryPath, outputDir, sourceMaps, mode)
+  )
+
+  const report = (error?: Error | null, stats?: Stats) => {
+    if (error || !stats) {
+      onBuild(
+        new BuildError(`Failed to build ${entry}: ${error?.message}`, {
+          entry: entryPath,
+          errors: error ? [error.message] : [],
+          cause: error,
+        })
+      )
+      return
+    }
+    try {
+      onBuild(
+        undefined,
+        toBundleResult(
+          stats,
+          entryPath,
+          outputDir,
+          (stats.endTime ?? 0) - (stats.startTime ?? 0)
+        )
+      )
+    } catch (buildError) {
+      onBuild(buildError as BuildError)
+    }
+  }
+
+  // Resolves the `suspend` calls made while a build was running, once it has finished.
+  let whenIdle: Array<() => void> = []
+  const watching = compiler.watch({ aggregateTimeout: 200 }, (error, stats) => {
+    report(error, stats)
+    whenIdle.forEach((resolve) => resolve())
+    whenIdle = []
+  })
+
+  return {
+    suspend: () => {
+      watching.suspend()
+      return watching.running
+        ? new Promise((resolve) => whenIdle.push(resolve))
+        : Promise.resolve()
+    },
+    resume: () => watching.resume(),
+    close: () =>
+      new Promise((resolve) =>
+        watching.close(() => compiler.close(() => resolve()))
+      ),
+  }
+}
+
+/**
+ * The exit code and output of a bundled program run.
+ */
+export interface BundleRun {
+  exitCode: number | null
+  stdout: string
+  stderr: string
+}
+
+/**
+ * Runs a bundled program the way LASR does, with its inputs on stdin.
+ *
+ * @param {string} bundlePath - The path of the bundled program.
+ * @param {string} input - What to write to the program's stdin, usually `ComputeInputs` JSON.
+ * @param {number} timeoutMs - How long the program may take to exit.
+ * @returns {Promise<BundleRun>} The program's exit code and output.
+ * @throws {CliProcessError} Throws if the program cannot be started or does not exit in time.
+ */
+export function runBundle(
+  bundlePath: string,
+  input: string,
+  timeoutMs: number = 10000
+): Promise<BundleRun> {
+  return new Promise((resolve, reject) => {
+    const command = `node ${bundlePath}`
+    const child = spawn(process.execPath, [bundlePath], {
+      stdio: ['pipe', 'pipe', 'pipe'],
+    })
+    let stdout = ''
+    let stderr = ''
+    child.stdout.on('data', (data) => (stdout += data.toString()))
+    child.stderr.on('data', (data) => (stderr += data.toString()))
+
+    const timer = setTimeout(() => {
+      child.kill()
+      reject(
+        new CliProcessError(
+          `${bundlePath} did not exit within ${timeoutMs}ms. Programs must read their inputs from stdin and exit.`,
+          { command, stdout, stderr }
+        )
+      )
+    }, timeoutMs)
+
+    child.on('error', (error) => {
+      clearTimeout(timer)
+      reject(
+        new CliProcessError(`Could not start ${bundlePath}: ${error.message}`, {
+          command,
+          cause: error,
+        })
+      )
+    })
+    child.on('close', (exitCode) => {
+      clearTimeout(timer)
+      resolve({ exitCode, stdout, stderr })
+    })
+
+    child.stdin.end(input)
+  })
+}
+
+/**
+ * Checks that a bundle starts and answers like a program entrypoint: it must read its inputs
+ * from stdin and write JSON to stdout, which `runProgram` does even for empty inputs.
+ *
+ * @param {string} bundlePath - The path of the bundled program.
+ * @param {number} timeoutMs - How long the program may take to answer.
+ * @throws {BuildError} Throws if the bundle crashes on start, hangs or writes no JSON.
+ */
+export async function probeBundle(
+  bundlePath: string,
+  timeoutMs: number = 10000
+): Promise<void> {
+  let run: BundleRun
+  try {
+    run = await runBundle(bundlePath, '', timeoutMs)
+  } catch (error) {
+    throw new BuildError((error as Error).message, {
+      entry: bundlePath,
+      cause: error,
+    })
+  }
+
+  try {
+    const output = JSON.parse(run.stdout)
+    if (output && typeof output === 'object') {
+      return
+    }
+  } catch (error) {
+    // Handled below: anything but a JSON object means there is no entrypoint.
+  }
+  throw new BuildError(
+    `${bundlePath} does not expose a program entrypoint. Call runProgram(YourProgram) in the entry file.${
+      run.stderr ? `\n${run.stderr.trim()}` : ''
+    }`,
+    { entry: bundlePath }
+  )
+}
+
+/**
+ * Formats a size in bytes for build reports.
+ *
+ * @param {number} bytes - The size in bytes.
+ * @returns {string} The size in bytes or KiB.
+ */
+export function formatSize(bytes: number): string {
+  return bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KiB`
+}
+
+async function programConfig(
+  entryPath: string,
+  outputDir: string,
+  sourceMaps: boolean,
+  mode: BundleOptions['mode']
+): Promise<Configuration> {
+  return {
+    ...(await loadWebpackConfig()),
+    mode,
+    entry: entryPath,
+    devtool: sourceMaps ? 'source-map' : false,
+    output: { path: outputDir, filename: `${path.parse(entryPath).name}.js` },
+  }
+}
+
+function toBundleResult(
+  stats: Stats,
+  entryPath: string,
+  outputDir: string,
+  durationMs: number
+): BundleResult {
+  const filename = `${path.parse(entryPath).name}.js`
+  const info = stats.toJson({
+    all: false,
+    assets: true,
+    relatedAssets: true,
+    errors: true,
+    warnings: true,
+  })
+  if (stats.hasErrors()) {
+    throw new BuildError(
+      `Failed to build ${path.relative(process.cwd(), entryPath)}`,
+      {
+        entry: entryPath,
+        errors: (info.errors ?? []).map((error) => error.message),
+      }
+    )
+  }
+
+  // Source maps are listed among the `related` assets of the bundle they belong to.
+  const assets = (info.assets ?? []).flatMap((asset) =>
+    Array.isArray(asset.related) ? [asset, ...asset.related] : [asset]
+  )
+  const sizeOf = (name: string) =>
+    assets.find((asset) => asset.name === name)?.size
+  const sourceMapSize = sizeOf(`${filename}.map`)
+  return {
+    entry: entryPath,
+    outputPath: path.join(outputDir, filename),
+    size: sizeOf(filename) ?? 0,
+    sourceMapPath:
+      sourceMapSize === undefined
+        ? undefined
+        : path.join(outputDir, `${filename}.map`),
+    sourceMapSize,
+    durationMs,
+    warnings: (info.warnings ?? []).map((warning) => warning.message),
+  }
+}
+
+function createCompiler(entry: string, config: Configuration) {
+  try {
+    return webpack(config)
+  } catch (error) {
+    throw new BuildError(
+      `Invalid webpack config: ${(error as Error).message}`,
+      {
+        entry,
+        cause: error,
+      }
+    )
+  }
+}
+
+function runWebpack(entry: string, config: Configuration): Promise<Stats> {
+  const compiler = createCompiler(entry, config)
+  return new Promise((resolve, reject) => {
+    compiler.run((error, stats) => {
+      compiler.close(() => {
+        if (error || !stats) {
+          reject(
+            new BuildError(`Failed to build ${entry}: ${error?.message}`, {
+              entry,
+              errors: error ? [error.message] : [],
+              cause: error,
+            })
+          )
+        } else {
+          resolve(stats)
+        }
+      })
+    })
+  })
+}
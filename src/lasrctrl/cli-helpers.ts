@@ -1,17 +1,28 @@
 import fs, { promises as fsp } from 'fs'
 import path from 'path'
-import { exec, spawn } from 'child_process'
-import { KeyPairArray, NETWORK } from '@/lib/types'
+import { spawn } from 'child_process'
+import readline from 'readline'
+import { NETWORK } from '@/lib/types'
 import { runCommand } from '@/lasrctrl/shell'
-import {
-  FAUCET_URL,
-  LASR_RPC_URL_STABLE,
-  LASR_RPC_URL_UNSTABLE,
-  VIPFS_URL,
-  VIPFS_URL_UNSTABLE,
-} from '@/lib/consts'
 import axios from 'axios'
-import { getIPFSForNetwork, getRPCForNetwork } from '@/lib/utils'
+import {
+  formatAmountToHex,
+  getIPFSForNetwork,
+  getRPCForNetwork,
+} from '@/lib/utils'
+import { broadcast, getAccount } from '@/lib/versatus'
+import { getNetworkProfile } from '@/lib/networks'
+import { Wallet } from 'ethers'
+import { InputSchema, validateInputs } from '@/lib/programs/schema'
+import {
+  CliProcessError,
+  ExpectationError,
+  ValidationError,
+} from '@/lib/errors'
+import { getProjectConfig, getProjectPaths } from '@/lasrctrl/config'
+import { Keystore } from '@/lib/keystore'
+import { formatMismatches } from '@/lib/expectations'
+import { runInputTest } from '@/lasrctrl/test-runner'
 
 export const isInstalledPackage = fs.existsSync(
   path.resolve(
@@ -48,119 +59,111 @@ export function copyDirectory(src: string, dest: string) {
   }
 }
 
-export async function runBuildProcess(programFilePath: string) {
-  await buildNode(programFilePath)
-}
-
-export async function buildNode(buildPath: string) {
-  const parsedPath = path.parse(buildPath)
-  const newFilename = `${parsedPath.name}.js`
-
-  const configPath = isInstalledPackage
-    ? `${installedPackagePath}/webpack.config.js`
-    : './webpack.config.js'
-  const webpackCommand = `npx webpack --config ${configPath} --entry ${buildPath} --output-path ./build/lib --output-filename ${newFilename} --mode production`
-  exec(webpackCommand, (tscError, tscStdout, tscStderr) => {
-    if (tscError) {
-      console.error(`Error during TypeScript transpilation: ${tscError}`)
-      return
-    }
-
-    console.log('\x1b[0;37mBuild complete...\x1b[0m')
-    console.log()
-    console.log(`\x1b[0;35mReady to run:\x1b[0m`)
-    console.log(`\x1b[0;33mlasrctl test -b ${parsedPath.name} -i inputs\x1b[0m`)
-    console.log()
-  })
-}
-
-export async function getSecretKeyFromKeyPairFile(
-  keypairFilePath: string
+// The password is read from LASR_WALLET_PASSWORD, or asked for on the terminal. New
+// passwords are asked for twice.
+export async function getKeystorePassword(
+  question = 'Keystore password: ',
+  confirm = false
 ): Promise<string> {
-  try {
-    let keyPairs: KeyPairArray = []
-    try {
-      console.log('Getting secret key from keypair file')
-      const absolutePath = path.resolve(keypairFilePath) // Ensure the path is absolute
-      const fileContent = await fsp.readFile(absolutePath, 'utf8')
-      keyPairs = JSON.parse(fileContent) as KeyPairArray
-    } catch (error) {
-      await initializeWallet()
-      const absolutePath = path.resolve(keypairFilePath) // Ensure the path is absolute
-      const fileContent = await fsp.readFile(absolutePath, 'utf8')
-      keyPairs = JSON.parse(fileContent) as KeyPairArray
-    }
+  if (process.env.LASR_WALLET_PASSWORD !== undefined) {
+    return process.env.LASR_WALLET_PASSWORD
+  }
 
-    if (keyPairs.length > 0) {
-      return keyPairs[0].secret_key
-    } else {
-      new Error('No keypairs found in the specified file.')
-      return ''
-    }
-  } catch (error) {
-    console.error(`Failed to retrieve the secret key: ${error}`)
-    throw error
+  const password = await promptHidden(question, 'LASR_WALLET_PASSWORD')
+  if (confirm && (await promptHidden('Repeat password: ')) !== password) {
+    throw new ValidationError('Passwords do not match.', [
+      { field: 'password', message: 'must match' },
+    ])
   }
+  return password
 }
 
-export async function getAddressFromKeyPairFile(
-  keypairFilePath: string
+export function promptHidden(
+  question: string,
+  environmentVariable?: string
 ): Promise<string> {
-  try {
-    console.log('Getting address from keypair file')
-    const absolutePath = path.resolve(keypairFilePath) // Ensure the path is absolute
-    const fileContent = await fsp.readFile(absolutePath, 'utf8')
-    const keyPairs: KeyPairArray = JSON.parse(fileContent)
-
-    if (keyPairs.length > 0) {
-      return keyPairs[0].address
-    } else {
-      new Error('No keypairs found in the specified file.')
-      return ''
-    }
-  } catch (error) {
-    console.error(`Failed to retrieve the secret key: ${error}`)
-    throw error
+  if (!process.stdin.isTTY) {
+    return Promise.reject(
+      new ValidationError(
+        environmentVariable
+          ? `Set ${environmentVariable} to run without a terminal.`
+          : `Cannot ask "${question.trim()}" without a terminal.`,
+        [
+          {
+            field: environmentVariable ?? question.trim(),
+            message: 'is required',
+          },
+        ]
+      )
+    )
   }
+
+  // Prompts go to stderr, so they never end up in output piped from stdout.
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stderr,
+    terminal: true,
+  }) as readline.Interface & { _writeToOutput: (text: string) => void }
+  return new Promise((resolve) => {
+    rl.question(question, (answer) => {
+      rl.close()
+      process.stderr.write('\n')
+      resolve(answer)
+    })
+    // Keep the answer off the screen, but still show the question.
+    rl._writeToOutput = (text: string) => {
+      if (text.includes(question)) process.stderr.write(question)
+    }
+  })
 }
 
 export async function registerProgram(
   cid: string,
   secretKey: string,
-  network: 'stable' | 'test'
+  network: NETWORK
 ) {
-  try {
-    process.env.LASR_RPC_URL = getRPCForNetwork(network)
-    process.env.VIPFS_ADDRESS = getIPFSForNetwork(network)
+  process.env.LASR_RPC_URL = getRPCForNetwork(network)
+  process.env.VIPFS_ADDRESS = getIPFSForNetwork(network)
 
-    const command = `./build/lasr_cli wallet register-program --from-secret-key --secret-key "${secretKey}" --cid "${cid}"`
+  const command = `${
+    getProjectPaths().lasrCli
+  } wallet register-program --from-secret-key --secret-key "${secretKey}" --cid "${cid}"`
 
-    return await runCommand(command)
-  } catch (e) {
-    throw new Error(`Failed to register program: ${e}`)
-  }
+  return await runCommand(command)
 }
 
 export const getSecretKey = async (
-  secretKeyPath?: string,
-  secretKey?: string
+  keystorePath?: string,
+  secretKey?: string,
+  account?: string
 ) => {
   if (secretKey) return secretKey
 
-  if (!fs.existsSync('.lasr/wallet/keypair.json')) {
-    console.log('\x1b[0;33mInitializing wallet...\x1b[0m')
-    await initializeWallet()
-  } else {
-    console.log('\x1b[0;33mUsing existing keypair...\x1b[0m')
+  const keystore = new Keystore(keystorePath ?? getProjectPaths().wallet)
+  if (!(await keystore.exists())) {
+    throw new ValidationError(
+      `No keystore found at ${keystore.path}. Create an account with \`lasrctl wallet new <name>\` or pass --secretKey.`,
+      [{ field: 'keystore', message: 'must point to a keystore file' }]
+    )
   }
 
-  let retrievedSecretKey: string
-
-  const keypairPath = '.lasr/wallet/keypair.json'
-  retrievedSecretKey = await getSecretKeyFromKeyPairFile(String(keypairPath))
-  return retrievedSecretKey
+  const { name, address } = await keystore.getAccount(
+    account ?? getProjectConfig().account
+  )
+  console.error(`\x1b[0;33mUsing account ${name} (${address})...\x1b[0m`)
+  const privateKey = await keystore.getPrivateKey(
+    name,
+    await getKeystorePassword()
+  )
+  // lasr_cli takes secret keys without the 0x prefix.
+  return privateKey.slice(2)
 }
 
+const missingFields = (values: Record<string, string | undefined>) =>
+  Object.keys(values)
+    .filter((field) => !values[field])
+    .map((field) => ({ field, message: 'is required' }))
+
 export async function callCreate(
   programAddress: string,
   symbol: string,
@@ -181,8 +184,17 @@ export async function callCreate(
     !totalSupply ||
     !secretKey
   ) {
-    throw new Error(
-      `programAddress (${programAddress}), symbol (${symbol}), name (${name}), initializedSupply (${initializedSupply}), totalSupply(${totalSupply}), and secretKey are required to call create.`
+    throw new ValidationError(
+      `programAddress (${programAddress}), symbol (${symbol}), name (${name}), initializedSupply (${initializedSupply}), totalSupply(${totalSupply}), and secretKey are required to call create.`,
+      missingFields({
+        programAddress,
+        symbol,
+        name,
+        initializedSupply,
+        recipientAddress,
+        totalSupply,
+        secretKey,
+      })
     )
   }
 
@@ -201,7 +213,9 @@ export async function callCreate(
   process.env.LASR_RPC_URL = getRPCForNetwork(network)
   process.env.VIPFS_ADDRESS = getIPFSForNetwork(network)
 
-  const command = `./build/lasr_cli wallet call --from-secret-key --secret-key "${secretKey}" --op "create" --inputs '${inputsStr}' --to "${programAddress}" --content-namespace "${programAddress}"`
+  const command = `${
+    getProjectPaths().lasrCli
+  } wallet call --from-secret-key --secret-key "${secretKey}" --op "create" --inputs '${inputsStr}' --to "${programAddress}" --content-namespace "${programAddress}"`
   return await runCommand(command)
 }
 
@@ -210,19 +224,27 @@ export async function sendTokens(
   recipientAddress: string,
   amount: string,
   secretKey: string,
-  network: 'stable' | 'test'
+  network: NETWORK
 ) {
   if (!programAddress || !recipientAddress || !amount || !secretKey) {
-    throw new Error(
-      `programAddress (${programAddress}), recipientAddress (${recipientAddress}), amount (${amount}), and secretKey are required to call create.`
+    throw new ValidationError(
+      `programAddress (${programAddress}), recipientAddress (${recipientAddress}), amount (${amount}), and secretKey are required to call create.`,
+      missingFields({ programAddress, recipientAddress, amount, secretKey })
     )
   }
 
-  process.env.LASR_RPC_URL = getRPCForNetwork(network)
-  process.env.VIPFS_ADDRESS = getIPFSForNetwork(network)
-
-  const command = `./build/lasr_cli wallet send --to ${recipientAddress} -c ${programAddress} --value ${amount} -u verse --from-secret-key --secret-key "${secretKey}"`
-  return await runCommand(command)
+  return await broadcast(
+    {
+      op: 'send',
+      from: getWalletAddress(secretKey),
+      to: recipientAddress,
+      programId: programAddress,
+      transactionInputs: '{}',
+      value: formatAmountToHex(amount),
+    },
+    toPrivateKey(secretKey),
+    network
+  )
 }
 
 export async function callProgram(
@@ -233,60 +255,149 @@ export async function callProgram(
   secretKey: string
 ) {
   if (!programAddress || !op || !inputs || !secretKey) {
-    throw new Error(
-      `programAddress (${programAddress}), op (${op}), inputs (${inputs}), and secretKey are required to call create.`
+    throw new ValidationError(
+      `programAddress (${programAddress}), op (${op}), inputs (${inputs}), and secretKey are required to call create.`,
+      missingFields({ programAddress, op, inputs, secretKey })
     )
   }
 
-  process.env.LASR_RPC_URL = getRPCForNetwork(network)
-  process.env.VIPFS_ADDRESS = getIPFSForNetwork(network)
+  return await broadcast(
+    {
+      op,
+      from: getWalletAddress(secretKey),
+      to: programAddress,
+      programId: programAddress,
+      transactionInputs: inputs,
+      value: formatAmountToHex('0'),
+    },
+    toPrivateKey(secretKey),
+    network
+  )
+}
 
-  const command = `./build/lasr_cli wallet call --from-secret-key --secret-key "${secretKey}" --op ${op} --inputs '${inputs}' --to ${programAddress} --content-namespace ${programAddress}`
-  return await runCommand(command)
+// Secret keys may be given with or without the 0x prefix.
+const toPrivateKey = (secretKey: string) =>
+  secretKey.startsWith('0x') ? secretKey : `0x${secretKey}`
+
+export const getWalletAddress = (secretKey: string) =>
+  new Wallet(toPrivateKey(secretKey)).address
+
+export async function validateCallInputs(
+  schemaPath: string,
+  op: string,
+  inputs: string
+) {
+  const schemas: { [op: string]: InputSchema } = JSON.parse(
+    await fsp.readFile(path.resolve(process.cwd(), schemaPath), 'utf8')
+  )
+  const schema = schemas[op]
+  if (!schema) {
+    throw new ValidationError(
+      `No input schema for operation "${op}" in ${schemaPath}`,
+      [{ field: 'op', message: 'has no input schema' }]
+    )
+  }
+
+  return validateInputs(schema, inputs)
 }
 
-export function runTestProcess(
+// Node programs are run in-process and judged by the expectations of their input file. With
+// captureOutput, nothing is printed: failures are reported through the rejection only.
+export async function runTestProcess(
   programName: string,
   inputJsonPath: string,
   target = 'node',
-  showOutput = true
+  showOutput = true,
+  captureOutput = false
+) {
+  if (target !== 'node') {
+    return runTestScript(programName, inputJsonPath, target, captureOutput)
+  }
+
+  const { libDir, lasrCli } = getProjectPaths()
+  const result = await runInputTest(
+    path.join(libDir, `${programName}.js`),
+    inputJsonPath,
+    lasrCli
+  )
+  const filename = path.basename(inputJsonPath)
+
+  if (showOutput && !captureOutput) {
+    console.log(`\x1b[0;37m
+Output:
+*******************************\x1b[0m
+\x1b[0;35m${JSON.stringify(result.output)}\x1b[0m
+\x1b[0;37m*******************************\x1b[0m`)
+  }
+  if (!result.passed) {
+    throw new ExpectationError(
+      `${filename} did not meet its expectations:\n${formatMismatches(
+        result.mismatches
+      )}`,
+      { input: inputJsonPath, mismatches: result.mismatches }
+    )
+  }
+  if (!captureOutput) {
+    console.log(
+      `\x1b[0;32mOutput is valid ✅\x1b[0m Tested input: \x1b[0;33m${filename}\x1b[0m`
+    )
+  }
+  return `Test for ${inputJsonPath} passed`
+}
+
+function runTestScript(
+  programName: string,
+  inputJsonPath: string,
+  target: string,
+  captureOutput: boolean
 ) {
   return new Promise((resolve, reject) => {
     let scriptDir = isInstalledPackage ? installedPackagePath : process.cwd()
     const testScriptPath = path.resolve(
       scriptDir,
       'scripts',
-      target === 'node' ? 'test-node.sh' : 'test-wasm.sh'
+      `test-${target}.sh`
     )
 
-    const isFailureTest = inputJsonPath.includes('fail')
     const testProcess = spawn(
       'bash',
-      [
-        testScriptPath,
-        programName,
-        inputJsonPath,
-        String(showOutput),
-        String(isFailureTest),
-      ],
+      [testScriptPath, programName, inputJsonPath],
       {
-        stdio: ['inherit', 'inherit', 'pipe'],
+        stdio: ['inherit', captureOutput ? 'pipe' : 'inherit', 'pipe'],
       }
     )
 
+    let output = ''
     let errorOutput = ''
 
-    testProcess.stderr.on('data', (data) => {
+    testProcess.stdout?.on('data', (data) => {
+      output += data.toString()
+    })
+    testProcess.stderr?.on('data', (data) => {
       errorOutput += data.toString()
     })
 
+    const command = `bash ${testScriptPath} ${programName} ${inputJsonPath}`
+
     testProcess.on('error', (error) => {
-      reject(`Spawn error: ${error}`)
+      reject(
+        new CliProcessError(`Spawn error: ${error.message}`, {
+          command,
+          cause: error,
+        })
+      )
     })
 
     testProcess.on('exit', (code) => {
       if (code !== 0) {
-        reject(`Exited with code ${code}: ${errorOutput}`)
+        reject(
+          new CliProcessError(`Exited with code ${code}: ${errorOutput}`, {
+            command,
+            exitCode: code ?? undefined,
+            stdout: output,
+            stderr: errorOutput,
+          })
+        )
       } else {
         resolve(`Test for ${inputJsonPath} passed`)
       }
@@ -294,21 +405,22 @@ export function runTestProcess(
   })
 }
 
-export async function initializeWallet() {
-  await runCommand(`./build/lasr_cli wallet new --save`)
-  console.log(
-    'Wallet initialized and keypair.json created at ./.lasr/wallet/keypair.json'
-  )
-}
-
-export async function checkWallet(address: string) {
+export async function checkWallet(
+  address: string,
+  network: NETWORK = 'stable'
+) {
   try {
+    const { faucetUrl } = getNetworkProfile(network)
     try {
       console.log('Checking wallet...')
-      const command = `./build/lasr_cli wallet get-account --address ${address}`
-
-      await runCommand(command)
+      await getAccount(address, network)
     } catch (e) {
+      if (!faucetUrl) {
+        throw new ValidationError(
+          `Wallet not initialized and network "${network}" has no faucet.`,
+          [{ field: 'faucetUrl', message: 'is required to fund a wallet' }]
+        )
+      }
       console.log(
         'Wallet not initialized. Fauceting funds to initialize wallet...'
       )
@@ -317,7 +429,7 @@ export async function checkWallet(address: string) {
       }
 
       await axios
-        .post(`${FAUCET_URL}/api/faucet/verse`, data)
+        .post(`${faucetUrl}/api/faucet/verse`, data)
         .then((response) => {
           console.log(`Fauceted funds to \x1b[0;32m${address}\x1b[0m`)
         })
@@ -330,7 +442,7 @@ export async function checkWallet(address: string) {
     console.log('Wallet check successful')
   } catch (error) {
     // Handle specific error messages or take actions based on the error
-    console.error('Failed to validate keypair file:', error)
+    console.error('Failed to check wallet:', error)
     process.exit(1)
   }
 }
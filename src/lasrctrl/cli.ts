@@ -5,15 +5,66 @@ import { fileURLToPath } from 'url'
 import init, { initCommandFlags } from '@/lasrctrl/commands/init'
 import build, { buildCommandFlags } from '@/lasrctrl/commands/build'
 import test, { testCommandFlags } from '@/lasrctrl/commands/test'
+import dev, { devCommandFlags } from '@/lasrctrl/commands/dev'
+import fixture, { fixtureCommandFlags } from '@/lasrctrl/commands/fixture'
 import deploy, { deployCommandFlags } from '@/lasrctrl/commands/deploy'
 import call, { callCommandFlags } from '@/lasrctrl/commands/call'
 import send, { sendCommandFlags } from '@/lasrctrl/commands/send'
+import wallet, { walletCommandFlags } from '@/lasrctrl/commands/wallet'
+import { createConsoleLogger, setLogger } from '@/lib/logger'
+import {
+  applyProjectConfig,
+  getProjectPaths,
+  loadProjectConfig,
+} from '@/lasrctrl/config'
 //@ts-ignore
 import { version } from '../../../package.json'
 
 export const __dirname = path.dirname(fileURLToPath(import.meta.url))
 
+// The commands that read lasr.config.json. The others, and --help and --version, still run when
+// the config is malformed.
+const CONFIG_COMMANDS = [
+  'build',
+  'test',
+  'dev',
+  'fixture',
+  'deploy',
+  'send',
+  'call',
+  'wallet',
+]
+
 yargs(process.argv.slice(2))
+  .option('verbose', {
+    describe: 'Log the RPC and IPFS endpoints and every request made',
+    type: 'boolean',
+    default: false,
+  })
+  .middleware((argv) => {
+    if (argv.verbose) {
+      setLogger(createConsoleLogger('debug'))
+    }
+  })
+  .middleware(async (argv) => {
+    const command = String(argv._[0])
+    if (!CONFIG_COMMANDS.includes(command)) {
+      return
+    }
+    try {
+      await loadProjectConfig()
+    } catch (error) {
+      console.error(`\x1b[0;31mInvalid project config: ${error}\x1b[0m`)
+      process.exit(1)
+    }
+
+    // The build and test scripts locate lasr_cli and the built programs through these.
+    const { buildDir, lasrCli } = getProjectPaths()
+    process.env.LASR_BUILD_DIR = buildDir
+    process.env.LASR_CLI_PATH = lasrCli
+
+    applyProjectConfig(command, argv)
+  }, true)
   .command(
     '$0',
     'The lasrctrl tool',
@@ -51,6 +102,20 @@ programs on \x1b[0;35mLASR\x1b[0m.
     testCommandFlags,
     test
   )
+  .command(
+    'dev [file]',
+    'Rebuild the program and re-run its inputs whenever they change',
+    //@ts-ignore
+    devCommandFlags,
+    dev
+  )
+  .command(
+    'fixture',
+    'Generate signed test input files',
+    //@ts-ignore
+    fixtureCommandFlags,
+    fixture
+  )
   //@ts-ignore
   .command(
     'deploy [flags]',
@@ -73,4 +138,11 @@ programs on \x1b[0;35mLASR\x1b[0m.
     callCommandFlags,
     call
   )
+  .command(
+    'wallet',
+    'Create, import and inspect the accounts of the keystore',
+    //@ts-ignore
+    walletCommandFlags,
+    wallet
+  )
   .help().argv
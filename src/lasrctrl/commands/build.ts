@@ -1,16 +1,12 @@
 import { Arguments, Argv, CommandBuilder } from 'yargs'
-import {
-  installedPackagePath,
-  isInstalledPackage,
-  runBuildProcess,
-} from '@/lasrctrl/cli-helpers'
 import path from 'path'
-import { exec } from 'child_process'
-import { __dirname } from '@/lasrctrl/cli'
+import { bundleProgram, formatSize, probeBundle } from '@/lasrctrl/bundle'
+import { BuildError } from '@/lib/errors'
 
 export interface BuildCommandArgs {
   file: string
   target: string
+  sourceMaps: boolean
 }
 
 export const buildCommandFlags: CommandBuilder<{}, BuildCommandArgs> = (
@@ -28,85 +24,55 @@ export const buildCommandFlags: CommandBuilder<{}, BuildCommandArgs> = (
       choices: ['node', 'wasm'],
       default: 'node',
     })
+    .option('sourceMaps', {
+      describe: 'Write a source map next to the bundle',
+      type: 'boolean',
+      default: true,
+    })
 }
 
-const build = (argv: Arguments<BuildCommandArgs>) => {
-  let scriptDir: string, sysCheckScriptPath
-
-  if (isInstalledPackage) {
-    sysCheckScriptPath = path.resolve(
-      installedPackagePath,
-      'scripts',
-      'sys_check.sh'
-    )
-  } else {
-    // In the development environment
-    scriptDir = path.resolve(__dirname, '../')
-    sysCheckScriptPath = path.resolve(
-      scriptDir,
-      '../',
-      'scripts',
-      'sys_check.sh'
-    )
+const build = async (argv: Arguments<BuildCommandArgs>) => {
+  if (!argv.file) {
+    console.error('You must specify a contract file to build.')
+    process.exit(1)
   }
 
-  console.log(
-    `\x1b[0;37mRunning system check script: ${sysCheckScriptPath}\x1b[0m`
-  )
+  try {
+    console.log('\x1b[0;37mStarting build...\x1b[0m')
+    const result = await bundleProgram(argv.file, {
+      sourceMaps: argv.sourceMaps,
+    })
+    result.warnings.forEach((warning) =>
+      console.warn(`\x1b[0;33m${warning}\x1b[0m`)
+    )
 
-  exec(
-    `bash "${sysCheckScriptPath}"`,
-    (sysCheckError, sysCheckStdout, sysCheckStderr) => {
-      if (sysCheckError) {
-        console.error(`Error during system check: ${sysCheckError}`)
-        return
-      }
+    console.log('\x1b[0;37mChecking the program entrypoint...\x1b[0m')
+    await probeBundle(result.outputPath)
 
-      if (sysCheckError) {
-        console.error(`Error during system check: ${sysCheckError}`)
-        return
-      }
+    const name = path.parse(result.outputPath).name
+    console.log(`\x1b[0;37mBuild complete in ${result.durationMs}ms...\x1b[0m
+==> ${path.relative(process.cwd(), result.outputPath)}: \x1b[0;32m${formatSize(
+      result.size
+    )}\x1b[0m`)
+    if (result.sourceMapPath && result.sourceMapSize !== undefined) {
       console.log(
-        '\x1b[0;37mSystem check passed. Proceeding with build...\x1b[0m'
+        `==> ${path.relative(
+          process.cwd(),
+          result.sourceMapPath
+        )}: ${formatSize(result.sourceMapSize)}`
       )
-
-      // Proceed with build process if system check is successful
-      if (argv.file) {
-        console.log('\x1b[0;37mStarting build...\x1b[0m')
-        const filePath = path.resolve(process.cwd(), argv.file)
-
-        if (filePath.endsWith('.ts')) {
-          console.log(
-            '\x1b[0;37mTypeScript file detected. Transpiling...\x1b[0m'
-          )
-
-          const outDir = path.resolve(process.cwd(), 'build')
-
-          const command = isInstalledPackage
-            ? `tsc --outDir ${outDir} ${filePath}`
-            : 'tsc && tsc-alias && chmod +x dist/lasrctrl/cli.js && node ./dist/lib/scripts/add-extensions.js'
-          exec(command, (tscError, tscStdout, tscStderr) => {
-            if (tscError) {
-              console.error(
-                `Error during TypeScript transpilation: ${tscError}`
-              )
-              return
-            }
-            runBuildProcess(argv.file).catch((error: any) => {
-              console.error('Error during the build process:', error)
-            })
-          })
-        } else {
-          runBuildProcess(argv.file).catch((error: any) => {
-            console.error('Error during the build process:', error)
-          })
-        }
-      } else {
-        console.error('You must specify a contract file to build.')
-        process.exit(1)
-      }
     }
-  )
+    console.log()
+    console.log(`\x1b[0;35mReady to run:\x1b[0m`)
+    console.log(`\x1b[0;33mlasrctl test -b ${name} -i inputs\x1b[0m`)
+    console.log()
+  } catch (error) {
+    console.error(`\x1b[0;31m${error}\x1b[0m`)
+    if (error instanceof BuildError) {
+      error.errors.forEach((message) => console.error(message))
+    }
+    process.exit(1)
+  }
 }
 
 export default build
@@ -1,14 +1,21 @@
 import { Arguments, Argv, CommandBuilder } from 'yargs'
-import { callProgram, getSecretKey } from '@/lasrctrl/cli-helpers'
+import {
+  callProgram,
+  getSecretKey,
+  validateCallInputs,
+} from '@/lasrctrl/cli-helpers'
 import { NETWORK } from '@/lib/types'
+import { ValidationError } from '@/lib/errors'
 
 export interface CallCommandArgs {
   programAddress: string
   op: string
   inputs: string
-  network: string
-  keypairPath?: string
+  network?: string
+  keystore?: string
+  account?: string
   secretKey?: string
+  schema?: string
 }
 
 export const callCommandFlags: CommandBuilder<{}, CallCommandArgs> = (
@@ -31,24 +38,55 @@ export const callCommandFlags: CommandBuilder<{}, CallCommandArgs> = (
       demandOption: true,
     })
     .option('network', {
-      describe: 'desired network',
+      describe:
+        'desired network: stable, test, local or a network from lasr.config.json (default: its network, or stable)',
       type: 'string',
-      options: ['stable', 'test'],
-      default: 'stable',
     })
-    .option('keypairPath', {
-      describe: 'Path to the keypair file',
+    .option('keystore', {
+      describe: 'Path to the keystore file',
+      type: 'string',
+      alias: 'keypairPath',
+    })
+    .option('account', {
+      describe: 'Name of the keystore account to use',
       type: 'string',
     })
     .option('secretKey', {
       describe: 'Secret key for the wallet',
       type: 'string',
     })
+    .option('schema', {
+      describe:
+        'Path to a JSON file of input schemas keyed by operation, used to check the inputs before broadcasting',
+      type: 'string',
+    })
 }
 
 const call = async (argv: Arguments<CallCommandArgs>) => {
   try {
-    const secretKey = await getSecretKey(argv.keypairPath, argv.secretKey)
+    if (argv.schema) {
+      try {
+        await validateCallInputs(
+          String(argv.schema),
+          String(argv.op),
+          String(argv.inputs)
+        )
+      } catch (error) {
+        console.error(`\x1b[0;31m${error}\x1b[0m`)
+        if (error instanceof ValidationError) {
+          error.fields.forEach(({ field, message }) =>
+            console.error(`  ${field}: ${message}`)
+          )
+        }
+        process.exit(1)
+      }
+    }
+
+    const secretKey = await getSecretKey(
+      argv.keystore,
+      argv.secretKey,
+      argv.account
+    )
     const sendResponse = await callProgram(
       String(argv.programAddress),
       String(argv.op),
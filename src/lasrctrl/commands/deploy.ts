@@ -2,12 +2,11 @@ import { Arguments, Argv, CommandBuilder } from 'yargs'
 import {
   callCreate,
   checkWallet,
-  getAddressFromKeyPairFile,
   getSecretKey,
+  getWalletAddress,
   registerProgram,
   runTestProcess,
 } from '@/lasrctrl/cli-helpers'
-import { VIPFS_URL } from '@/lib/consts'
 import { runCommand } from '@/lasrctrl/shell'
 import { NETWORK } from '@/lib/types'
 import fs from 'fs/promises'
@@ -15,6 +14,15 @@ import path from 'path'
 import os from 'os'
 
 import { getIPFSForNetwork, getRPCForNetwork } from '@/lib/utils'
+import { withRetry } from '@/lib/transport'
+import { CliProcessError } from '@/lib/errors'
+import { probeBundle } from '@/lasrctrl/bundle'
+import { getNetworkProfile } from '@/lib/networks'
+import {
+  getProjectConfig,
+  getProjectPaths,
+  selectProgram,
+} from '@/lasrctrl/config'
 
 export interface DeployCommandArgs {
   build: string
@@ -24,12 +32,14 @@ export interface DeployCommandArgs {
   programName: string
   initializedSupply: string
   totalSupply: string
-  network: string
+  network?: string
   recipientAddress?: string
   inputs?: string
-  keypairPath?: string
+  keystore?: string
+  account?: string
   secretKey?: string
   target?: string
+  retries: number
 }
 
 export const deployCommandFlags: CommandBuilder<{}, DeployCommandArgs> = (
@@ -89,10 +99,14 @@ export const deployCommandFlags: CommandBuilder<{}, DeployCommandArgs> = (
       type: 'string',
       alias: 'i',
     })
-    .option('keypairPath', {
-      describe: 'Path to the keypair file',
+    .option('keystore', {
+      describe: 'Path to the keystore file',
+      type: 'string',
+      alias: 'keypairPath',
+    })
+    .option('account', {
+      describe: 'Name of the keystore account to use',
       type: 'string',
-      default: './.lasr/wallet/keypair.json',
     })
     .option('secretKey', {
       describe: 'Secret key for the wallet',
@@ -100,27 +114,41 @@ export const deployCommandFlags: CommandBuilder<{}, DeployCommandArgs> = (
       alias: 'k',
     })
     .option('network', {
-      describe: 'Network',
+      describe:
+        'Network: stable, test, local or a network from lasr.config.json (default: its network, or stable)',
       type: 'string',
-      choices: ['stable', 'unstable'],
-      default: 'stable',
       alias: 'x',
     })
+    .option('retries', {
+      describe:
+        'How many times to retry registering the program while the node cannot be reached, with exponential backoff',
+      type: 'number',
+      default: 4,
+    })
 }
 
 const deploy = async (argv: Arguments<DeployCommandArgs>) => {
   try {
-    const secretKey = await getSecretKey(argv.keypairPath, argv.secretKey)
-    const addressFromKeypair = await getAddressFromKeyPairFile(
-      String(argv.keypairPath)
+    const config = getProjectConfig()
+    const isWasm = argv.target === 'wasm'
+    const { buildDir, libDir, lasrCli } = getProjectPaths(config)
+    const secretKey = await getSecretKey(
+      argv.keystore,
+      argv.secretKey,
+      argv.account
     )
+    const addressFromKeypair = getWalletAddress(secretKey)
 
     const network = argv.network as NETWORK
+    const { explorerUrl } = getNetworkProfile(network)
 
     console.log(
       '\x1b[0;33mCreating temporary test file against cli arguments...\x1b[0m'
     )
-    const inputsDirPath = path.join(process.cwd(), 'inputs')
+    const inputsDirPath = path.resolve(
+      config.rootDir,
+      selectProgram(config, argv.build)?.program.inputs ?? 'inputs'
+    )
     const files = await fs.readdir(inputsDirPath)
     const createJsonFiles = files.filter((file) => file.endsWith('create.json'))
     if (createJsonFiles.length === 0) {
@@ -169,28 +197,32 @@ const deploy = async (argv: Arguments<DeployCommandArgs>) => {
       throw new Error('Build not found in arguments.')
     }
 
+    if (!isWasm) {
+      console.log('\x1b[0;33mChecking the program entrypoint...\x1b[0m')
+      await probeBundle(path.join(libDir, `${argv.build}.js`))
+    }
+
     await fs.writeFile(tempFilePath, JSON.stringify(testJson, null, 2), 'utf8')
     await runTestProcess(argv.build, tempFilePath, 'node', false)
     console.log('\x1b[0;33mCreate method testing complete...\x1b[0m')
 
     console.log('\x1b[0;33mPublishing program...\x1b[0m')
-    const isWasm = argv.target === 'wasm'
 
     process.env.LASR_RPC_URL = getRPCForNetwork(network)
     process.env.VIPFS_ADDRESS = getIPFSForNetwork(network)
     let command
     if (isWasm) {
       command = `
-          build/versatus-wasm publish \n
+          ${buildDir}/versatus-wasm publish \n
             -a ${argv.author} \n
              -n ${argv.name} \n
              -v 0 \n
-             -w build/build.wasm \n 
+             -w ${buildDir}/build.wasm \n 
              -r \n
              --is-srv true`
     } else {
       command = `
-          build/lasr_cli publish --author ${argv.author} --name ${argv.name} --package-path build/lib --entrypoint build/lib/${argv.build}.js -r --remote ${VIPFS_URL} --runtime node --content-type program --from-secret-key --secret-key "${secretKey}"`
+          ${lasrCli} publish --author ${argv.author} --name ${argv.name} --package-path ${libDir} --entrypoint ${libDir}/${argv.build}.js -r --remote ${process.env.VIPFS_ADDRESS} --runtime node --content-type program --from-secret-key --secret-key "${secretKey}"`
     }
 
     const output = await runCommand(command)
@@ -209,33 +241,23 @@ const deploy = async (argv: Arguments<DeployCommandArgs>) => {
     // await checkWallet(String(argv.recipientAddress ?? addressFromKeypair))
 
     console.log('\x1b[0;33mRegistering program...\x1b[0m')
-    let registerResponse
-    let attempts = 0
-    const maxAttempts = 5
-
-    while (!registerResponse && attempts < maxAttempts) {
-      try {
-        registerResponse = await registerProgram(cid, secretKey, network)
-        if (registerResponse) {
-          console.log('Registration successful')
-        }
-      } catch (error) {
-        console.error(error)
-        console.log('\x1b[0;33mRegistration failed. Retrying...\x1b[0m')
-        attempts++
-        if (attempts >= maxAttempts) {
+    const registerResponse = await withRetry(
+      () => registerProgram(cid, secretKey, network),
+      {
+        policy: { retries: argv.retries },
+        isRetryable: isUnreachableNodeError,
+        onRetry: (error, attempt, delayMs) => {
+          console.error(error)
           console.log(
-            '\x1b[0;31mMax registration attempts reached. Aborting.\x1b[0m'
+            `\x1b[0;33mRegistration failed. Retrying in ${delayMs}ms (${attempt}/${argv.retries})...\x1b[0m`
           )
-          throw new Error('Failed to register the program.')
-        } else {
-          // Optional: implement a delay between retries if desired
-          await new Promise((resolve) => setTimeout(resolve, 1000)) // waits 1 second
-        }
+        },
       }
-    }
-
-    if (!registerResponse) throw new Error('Failed to register the program.')
+    ).catch((error) => {
+      console.error(`\x1b[0;31mRegistration failed: ${error.message}\x1b[0m`)
+      throw error
+    })
+    console.log('Registration successful')
 
     const programAddressMatch = registerResponse.match(
       /"program_address":\s*"(0x[a-fA-F0-9]{40})"/
@@ -270,19 +292,30 @@ const deploy = async (argv: Arguments<DeployCommandArgs>) => {
 ==> totalSupply: \x1b[0;32m${argv.totalSupply}\x1b[0m
 ==> recipientAddress: \x1b[0;32m${
         argv.recipientAddress ?? addressFromKeypair
-      }\x1b[0m
-======
+      }\x1b[0m`)
+
+      if (explorerUrl) {
+        console.log(`======
 ======
 ======
 ======
 >>>>>>>>>>> View Program on LASR Playground:
-https://faucet.versatus.io/programs/${programAddress}
+${explorerUrl}/programs/${programAddress}
           
           `)
+      }
     }
   } catch (error) {
     console.error(`Deployment error: ${error}`)
   }
 }
 
+// lasr_cli only reports failures on stderr. Registering is only retried when lasr_cli could not reach
+// the node at all: after any other failure the node may already have registered the program.
+const isUnreachableNodeError = (error: unknown) =>
+  error instanceof CliProcessError &&
+  /connection refused|error trying to connect|tcp connect error|dns error|failed to lookup address/i.test(
+    `${error.message}\n${error.stderr}`
+  )
+
 export default deploy
@@ -0,0 +1,213 @@
+import { Arguments, Argv, CommandBuilder } from 'yargs'
+import path from 'path'
+import fs, { promises as fsp } from 'fs'
+import {
+  installedPackagePath,
+  isInstalledPackage,
+} from '@/lasrctrl/cli-helpers'
+import { getProjectPaths } from '@/lasrctrl/config'
+import { runSpawn } from '@/lasrctrl/shell'
+import {
+  BundleResult,
+  BundleWatcher,
+  formatSize,
+  probeBundle,
+  watchProgram,
+} from '@/lasrctrl/bundle'
+import { BuildError } from '@/lib/errors'
+import { runInputTests } from '@/lasrctrl/test-runner'
+import { formatReport } from '@/lasrctrl/reporters'
+
+export interface DevCommandArgs {
+  file: string
+  inputJson?: string
+  sourceMaps: boolean
+}
+
+export const devCommandFlags: CommandBuilder<{}, DevCommandArgs> = (
+  yargs: Argv
+) => {
+  return yargs
+    .positional('file', {
+      describe: 'Contract file to build and watch',
+      type: 'string',
+      demandOption: true,
+    })
+    .option('inputJson', {
+      describe:
+        'JSON input file or directory of JSON files to test with. Defaults to "inputs"',
+      type: 'string',
+      alias: 'i',
+    })
+    .option('sourceMaps', {
+      describe: 'Write a source map next to the bundle',
+      type: 'boolean',
+      default: true,
+    })
+}
+
+const dev = async (argv: Arguments<DevCommandArgs>) => {
+  if (!argv.file) {
+    console.error('You must specify a contract file to watch.')
+    process.exit(1)
+  }
+
+  const inputPath = path.resolve(process.cwd(), argv.inputJson ?? 'inputs')
+  if (!fs.existsSync(inputPath)) {
+    console.error(`\x1b[0;31mInput path ${inputPath} does not exist.\x1b[0m`)
+    process.exit(1)
+  }
+
+  let scriptDir = isInstalledPackage ? installedPackagePath : process.cwd()
+  const checkForCli = path.resolve(scriptDir, 'scripts', 'check_cli.sh')
+  await runSpawn('bash', [checkForCli], { stdio: 'inherit' })
+
+  let watcher: BundleWatcher | undefined
+
+  // Probes and test runs are queued one after another. Rebuilds are suspended while one runs, and
+  // a build that already started is waited for, so the bundle is never rewritten under a test.
+  // Changes made meanwhile are built once the run finished.
+  let queue = Promise.resolve()
+  const enqueue = (task: () => Promise<void>) => {
+    queue = queue
+      .then(async () => {
+        await watcher?.suspend()
+        try {
+          await task()
+        } finally {
+          watcher?.resume()
+        }
+      })
+      .catch((error) => console.error(`\x1b[0;31m${error}\x1b[0m`))
+  }
+
+  // The build name of the last bundle that built and started, if any.
+  let programName: string | undefined
+
+  const onBuild = (error: BuildError | undefined, result?: BundleResult) =>
+    enqueue(async () => {
+      if (error || !result) {
+        programName = undefined
+        printBuildError(error)
+        return
+      }
+
+      try {
+        await probeBundle(result.outputPath)
+      } catch (probeError) {
+        programName = undefined
+        printBuildError(probeError)
+        return
+      }
+
+      programName = path.parse(result.outputPath).name
+      console.log(
+        `\x1b[0;37m[${timestamp()}] Built ${programName} in ${
+          result.durationMs
+        }ms\x1b[0m (${formatSize(result.size)})`
+      )
+      await runInputs(programName, await listInputFiles(inputPath))
+    })
+
+  console.log(`\x1b[0;37mWatching ${argv.file} and ${path.relative(
+    process.cwd(),
+    inputPath
+  )}...\x1b[0m
+\x1b[0;34mPress Ctrl+C to stop.\x1b[0m`)
+
+  try {
+    watcher = await watchProgram(
+      argv.file,
+      { sourceMaps: argv.sourceMaps },
+      onBuild
+    )
+  } catch (error) {
+    printBuildError(error)
+    process.exit(1)
+  }
+
+  const inputWatcher = watchInputs(inputPath, (file) =>
+    enqueue(async () => {
+      if (programName) {
+        await runInputs(programName, [file])
+      }
+    })
+  )
+
+  process.once('SIGINT', async () => {
+    inputWatcher.close()
+    await watcher?.close()
+    process.exit(0)
+  })
+}
+
+const timestamp = () => new Date().toLocaleTimeString()
+
+const printBuildError = (error: unknown) => {
+  console.error(`\x1b[0;31m[${timestamp()}] ${error}\x1b[0m`)
+  if (error instanceof BuildError) {
+    error.errors.forEach((message) => console.error(message))
+  }
+  console.log('\x1b[0;33mWaiting for changes...\x1b[0m')
+}
+
+const listInputFiles = async (inputPath: string) => {
+  if (!(await fsp.stat(inputPath)).isDirectory()) {
+    return [inputPath]
+  }
+  const files = await fsp.readdir(inputPath)
+  return files
+    .filter((file) => path.extname(file) === '.json')
+    .sort()
+    .map((file) => path.join(inputPath, file))
+}
+
+// Calls onChange with the path of each input file that is written to. Editors often write a
+// file more than once per save, so changes are collected for a moment first.
+const watchInputs = (inputPath: string, onChange: (file: string) => void) => {
+  const isDirectory = fs.statSync(inputPath).isDirectory()
+  const dir = isDirectory ? inputPath : path.dirname(inputPath)
+  const timers = new Map<string, NodeJS.Timeout>()
+
+  const watcher = fs.watch(dir, (event, filename) => {
+    if (!filename || path.extname(filename) !== '.json') return
+    const file = path.join(dir, filename)
+    if (!isDirectory && file !== inputPath) return
+
+    clearTimeout(timers.get(file))
+    timers.set(
+      file,
+      setTimeout(() => {
+        timers.delete(file)
+        if (fs.existsSync(file)) onChange(file)
+      }, 100)
+    )
+  })
+
+  return {
+    close: () => {
+      timers.forEach((timer) => clearTimeout(timer))
+      watcher.close()
+    },
+  }
+}
+
+const runInputs = async (programName: string, files: string[]) => {
+  const { libDir, lasrCli } = getProjectPaths()
+  const startedAt = Date.now()
+  const results = await runInputTests(
+    path.join(libDir, `${programName}.js`),
+    files,
+    lasrCli
+  )
+  process.stdout.write(
+    formatReport('pretty', {
+      program: programName,
+      results,
+      durationMs: Date.now() - startedAt,
+    })
+  )
+  console.log('\x1b[0;33mWaiting for changes...\x1b[0m')
+}
+
+export default dev
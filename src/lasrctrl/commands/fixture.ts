@@ -0,0 +1,256 @@
+import { Arguments, Argv, CommandBuilder } from 'yargs'
+import fs from 'fs/promises'
+import path from 'path'
+import { getKeystorePassword } from '@/lasrctrl/cli-helpers'
+import { getProjectConfig, getProjectPaths } from '@/lasrctrl/config'
+import { Keystore } from '@/lib/keystore'
+import { createComputeInputs } from '@/lib/fixtures'
+import { ValidationError } from '@/lib/errors'
+import { Account } from '@/lib/types'
+
+export interface FixtureCommandArgs {
+  op?: string
+  programAddress?: string
+  programId?: string
+  from?: string
+  value?: string
+  inputs?: string
+  nonce?: string
+  template?: string
+  state?: string
+  output?: string
+  force?: boolean
+  keystore?: string
+  account?: string
+  secretKey?: string
+}
+
+export const fixtureCommandFlags: CommandBuilder<{}, FixtureCommandArgs> = (
+  yargs: Argv
+) => {
+  return yargs
+    .command(
+      'new',
+      'Generate a signed ComputeInputs file to test a program with',
+      (yargs: Argv) =>
+        yargs
+          .option('op', {
+            describe: 'Operation to call',
+            type: 'string',
+            demandOption: true,
+          })
+          .option('programAddress', {
+            describe:
+              'Address of the program. Defaults to the program called in --template',
+            type: 'string',
+            alias: 'to',
+          })
+          .option('programId', {
+            describe: 'Program id of the transaction. Defaults to the address',
+            type: 'string',
+          })
+          .option('from', {
+            describe:
+              'Address of the keystore account to sign with. Defaults to the default account',
+            type: 'string',
+          })
+          .option('value', {
+            describe:
+              'Amount of tokens sent with the call, e.g. 1.5, or a hex amount',
+            type: 'string',
+          })
+          .option('inputs', {
+            describe: 'Transaction inputs of the operation, as JSON',
+            type: 'string',
+          })
+          .option('nonce', {
+            describe:
+              'Nonce of the transaction. Defaults to the next nonce of the sender in --state, or 1',
+            type: 'string',
+          })
+          .option('template', {
+            describe:
+              'Input file or account JSON to take the program account from',
+            type: 'string',
+          })
+          .option('state', {
+            describe:
+              'JSON list of accounts, e.g. saved from emulator.getAccounts(), to take the program account and nonce from',
+            type: 'string',
+          })
+          .option('output', {
+            describe: 'File to write the fixture to. Printed when left out',
+            type: 'string',
+            alias: 'o',
+          })
+          .option('force', {
+            describe: 'Overwrite the output file if it exists',
+            type: 'boolean',
+            default: false,
+          })
+          .option('keystore', {
+            describe: 'Path to the keystore file',
+            type: 'string',
+            alias: 'keypairPath',
+          })
+          .option('account', {
+            describe: 'Name of the keystore account to sign with',
+            type: 'string',
+          })
+          .option('secretKey', {
+            describe: 'Secret key to sign with instead of a keystore account',
+            type: 'string',
+          }),
+      runFixtureCommand(newFixture)
+    )
+    .demandCommand(1, 'Choose a fixture command')
+}
+
+// Every subcommand reports its errors the same way and exits with a non-zero code.
+const runFixtureCommand =
+  (handler: (argv: Arguments<FixtureCommandArgs>) => Promise<void>) =>
+  async (argv: Arguments) => {
+    try {
+      await handler(argv as Arguments<FixtureCommandArgs>)
+    } catch (error) {
+      console.error(`\x1b[0;31mFixture error: ${error}\x1b[0m`)
+      process.exit(1)
+    }
+  }
+
+const newFixture = async (argv: Arguments<FixtureCommandArgs>) => {
+  const template = argv.template
+    ? await readJson(argv.template, 'template')
+    : undefined
+  if (template !== undefined && !isTemplate(template)) {
+    throw new ValidationError(
+      `${argv.template} is neither an input file nor an account`,
+      [
+        {
+          field: 'template',
+          message: 'must have an accountInfo or an ownerAddress',
+        },
+      ]
+    )
+  }
+  const state = argv.state ? await readJson(argv.state, 'state') : undefined
+  if (state !== undefined && !Array.isArray(state)) {
+    throw new ValidationError(`${argv.state} is not a list of accounts`, [
+      { field: 'state', message: 'must be a JSON array' },
+    ])
+  }
+
+  const programAddress = argv.programAddress ?? template?.transaction?.to
+  if (!programAddress) {
+    throw new ValidationError(
+      'Pass --programAddress, or a --template input file to take it from',
+      [{ field: 'programAddress', message: 'is required' }]
+    )
+  }
+
+  const transactionInputs = argv.inputs
+  if (transactionInputs !== undefined) {
+    try {
+      JSON.parse(transactionInputs)
+    } catch (error) {
+      throw new ValidationError('--inputs is not valid JSON', [
+        { field: 'inputs', message: 'must be valid JSON' },
+      ])
+    }
+  }
+
+  const computeInputs = await createComputeInputs({
+    op: String(argv.op),
+    programAddress,
+    programId: argv.programId,
+    privateKey: await getSigningKey(argv),
+    from: argv.from,
+    transactionInputs,
+    value: argv.value,
+    nonce: argv.nonce,
+    accountInfo: template?.accountInfo ?? (template as Account | undefined),
+    state: state as Account[] | undefined,
+  })
+  const fixture = JSON.stringify(computeInputs, null, 2) + '\n'
+
+  if (!argv.output) {
+    process.stdout.write(fixture)
+    return
+  }
+  const output = path.resolve(process.cwd(), argv.output)
+  await fs.mkdir(path.dirname(output), { recursive: true })
+  try {
+    await fs.writeFile(output, fixture, { flag: argv.force ? 'w' : 'wx' })
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+      throw new ValidationError(
+        `${argv.output} already exists. Pass --force to overwrite it.`,
+        [{ field: 'output', message: 'must not exist' }]
+      )
+    }
+    throw error
+  }
+  console.log(`\x1b[0;32mWrote ${argv.op} fixture to ${argv.output}\x1b[0m`)
+}
+
+type Template = Partial<Account> & {
+  accountInfo?: Account
+  transaction?: { to?: string }
+}
+
+// Input files carry the program account as accountInfo, while account JSON is the account itself.
+const isTemplate = (json: unknown): json is Template =>
+  json !== null &&
+  typeof json === 'object' &&
+  !Array.isArray(json) &&
+  ('accountInfo' in json || 'ownerAddress' in json)
+
+const readJson = async (file: string, field: string): Promise<unknown> => {
+  let content: string
+  try {
+    content = await fs.readFile(file, 'utf8')
+  } catch (error) {
+    throw new ValidationError(`${file} does not exist`, [
+      { field, message: 'must point to a JSON file' },
+    ])
+  }
+  try {
+    return JSON.parse(content)
+  } catch (error) {
+    throw new ValidationError(`${file} is not valid JSON`, [
+      { field, message: 'must be valid JSON' },
+    ])
+  }
+}
+
+// Signs with --secretKey, the keystore account named with --account, the one with the --from
+// address, or the default account, in that order.
+const getSigningKey = async (argv: Arguments<FixtureCommandArgs>) => {
+  if (argv.secretKey) return argv.secretKey
+
+  const keystore = new Keystore(argv.keystore ?? getProjectPaths().wallet)
+  let name = argv.account ?? getProjectConfig().account
+  if (!argv.account && argv.from) {
+    const from = argv.from.toLowerCase()
+    const account = (await keystore.listAccounts()).find(
+      ({ address }) => address.toLowerCase() === from
+    )
+    if (!account) {
+      throw new ValidationError(
+        `No account of ${keystore.path} has the address ${argv.from}`,
+        [
+          {
+            field: 'from',
+            message: 'must be the address of a keystore account',
+          },
+        ]
+      )
+    }
+    name = account.name
+  }
+  return keystore.getPrivateKey(name, await getKeystorePassword())
+}
+
+const fixture = () => {}
+
+export default fixture
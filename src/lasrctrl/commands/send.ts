@@ -8,8 +8,9 @@ export interface SendCommandArgs {
   programAddress: string
   recipientAddress: string
   amount: string
-  network: string
-  keypairPath?: string
+  network?: string
+  keystore?: string
+  account?: string
   secretKey?: string
 }
 
@@ -33,13 +34,17 @@ export const sendCommandFlags: CommandBuilder<{}, SendCommandArgs> = (
       demandOption: true,
     })
     .option('network', {
-      describe: 'network to send on',
+      describe:
+        'network to send on: stable, test, local or a network from lasr.config.json (default: its network, or stable)',
       type: 'string',
-      default: 'stable',
-      options: ['stable', 'test'],
     })
-    .option('keypairPath', {
-      describe: 'Path to the keypair file',
+    .option('keystore', {
+      describe: 'Path to the keystore file',
+      type: 'string',
+      alias: 'keypairPath',
+    })
+    .option('account', {
+      describe: 'Name of the keystore account to use',
       type: 'string',
     })
     .option('secretKey', {
@@ -50,7 +55,11 @@ export const sendCommandFlags: CommandBuilder<{}, SendCommandArgs> = (
 
 const send = async (argv: Arguments<SendCommandArgs>) => {
   try {
-    const secretKey = await getSecretKey(argv.keypairPath, argv.secretKey)
+    const secretKey = await getSecretKey(
+      argv.keystore,
+      argv.secretKey,
+      argv.account
+    )
 
     const network = argv.network as NETWORK
 
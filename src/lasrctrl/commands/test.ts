@@ -2,16 +2,20 @@ import { Arguments, Argv, CommandBuilder } from 'yargs'
 import {
   installedPackagePath,
   isInstalledPackage,
-  runTestProcess,
 } from '@/lasrctrl/cli-helpers'
 import path from 'path'
 import { promises as fsp } from 'fs'
 import fs from 'fs'
 import { runSpawn } from '@/lasrctrl/shell'
+import { getProjectPaths } from '@/lasrctrl/config'
+import { runInputTests } from '@/lasrctrl/test-runner'
+import { formatReport, ReporterName, REPORTERS } from '@/lasrctrl/reporters'
 
 export interface TestCommandArgs {
   build: string
   inputJson: string
+  reporter: ReporterName
+  outputFile?: string
 }
 export const testCommandFlags: CommandBuilder<{}, TestCommandArgs> = (
   yargs: Argv
@@ -31,67 +35,95 @@ export const testCommandFlags: CommandBuilder<{}, TestCommandArgs> = (
       alias: 'i',
       demandOption: true,
     })
+    .option('reporter', {
+      describe: 'How to report the results',
+      choices: REPORTERS,
+      default: 'pretty' as ReporterName,
+      alias: 'r',
+    })
+    .option('outputFile', {
+      describe:
+        'Write the report to this file instead of stdout, and print a pretty summary',
+      type: 'string',
+      alias: 'o',
+    })
 }
 
 const test = async (argv: Arguments<TestCommandArgs>) => {
   if (argv.inputJson) {
     const pathToJsonToTest = path.resolve(process.cwd(), argv.inputJson)
     const programName = argv.build
+    // Machine-readable reports own stdout unless they are written to a file.
+    const log =
+      argv.reporter === 'pretty' || argv.outputFile
+        ? console.log
+        : console.error
     try {
       const stats = await fsp.stat(pathToJsonToTest)
       let scriptDir = isInstalledPackage ? installedPackagePath : process.cwd()
-      const files = fs.readdirSync('./build/lib')
+      const { libDir, lasrCli } = getProjectPaths()
+      const files = fs.readdirSync(libDir)
 
       const hasJsFiles = files.some((file) => path.extname(file) === '.js')
-      let target: string
 
       const checkForCli = path.resolve(scriptDir, 'scripts', 'check_cli.sh')
-      await runSpawn('bash', [checkForCli], { stdio: 'inherit' })
+      await runSpawn('bash', [checkForCli], {
+        stdio: ['inherit', log === console.log ? 'inherit' : 2, 'inherit'],
+      })
 
-      if (hasJsFiles) {
-        target = 'node'
-      } else {
+      if (!hasJsFiles) {
         throw new Error('No build artifacts found.')
       }
 
-      console.log('\x1b[0;37mStarting test...\x1b[0m')
-
+      let inputFiles: string[]
       if (stats.isDirectory()) {
         const files = await fsp.readdir(pathToJsonToTest)
-        const jsonFiles = files.filter((file) => path.extname(file) === '.json')
-        const testPromises = jsonFiles.map((file) => {
-          const jsonFileToTest = path.join(pathToJsonToTest, file)
-          return runTestProcess(programName, jsonFileToTest, target, false)
-        })
-
-        const results = await Promise.allSettled(testPromises)
-
-        // Print a summary of all test outcomes
-        console.log('\x1b[0;37mAll tests completed. Summary of results:\x1b[0m')
-        results.forEach((result, index) => {
-          if (result.status === 'fulfilled') {
-            console.log(
-              `\x1b[0;37mTest ${index + 1}\x1b[0m (${
-                jsonFiles[index]
-              }):\x1b[0;32m Passed\x1b[0m`
-            )
-          } else {
-            console.error(
-              `\x1b[0;37mTest ${index + 1}\x1b[0m (${
-                jsonFiles[index]
-              }):\x1b[0;31m Failed\x1b[0m`
-            )
-          }
-        })
+        inputFiles = files
+          .filter((file) => path.extname(file) === '.json')
+          .sort()
+          .map((file) => path.join(pathToJsonToTest, file))
       } else if (stats.isFile()) {
-        await runTestProcess(programName, pathToJsonToTest, target, true)
+        inputFiles = [pathToJsonToTest]
       } else {
         console.error('The input path is neither a file nor a directory.')
         process.exit(1)
       }
+
+      log('\x1b[0;37mStarting test...\x1b[0m')
+      const startedAt = Date.now()
+      const results = await runInputTests(
+        path.join(libDir, `${programName}.js`),
+        inputFiles,
+        lasrCli
+      )
+      const report = {
+        program: programName,
+        results,
+        durationMs: Date.now() - startedAt,
+      }
+
+      if (argv.outputFile) {
+        const outputFile = path.resolve(process.cwd(), argv.outputFile)
+        await fsp.mkdir(path.dirname(outputFile), { recursive: true })
+        await fsp.writeFile(outputFile, formatReport(argv.reporter, report))
+        if (argv.reporter !== 'pretty') {
+          process.stdout.write(formatReport('pretty', report))
+        }
+        log(`\x1b[0;37mWrote ${argv.reporter} report to ${outputFile}\x1b[0m`)
+      } else {
+        process.stdout.write(
+          formatReport(argv.reporter, report, {
+            showOutput: stats.isFile(),
+          })
+        )
+      }
+
+      if (results.some((result) => !result.passed)) {
+        process.exit(1)
+      }
     } catch (err) {
       // @ts-ignore
-      console.log(`\x1b[0;31m${err}\x1b[0m`)
+      log(`\x1b[0;31m${err}\x1b[0m`)
       process.exit(1)
     }
   } else {
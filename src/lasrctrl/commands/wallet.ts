@@ -0,0 +1,220 @@
+import { Arguments, Argv, CommandBuilder } from 'yargs'
+import fs from 'fs/promises'
+import { getKeystorePassword, promptHidden } from '@/lasrctrl/cli-helpers'
+import { getProjectConfig, getProjectPaths } from '@/lasrctrl/config'
+import { Keystore } from '@/lib/keystore'
+import { getAccount } from '@/lib/versatus'
+import { formatVerse } from '@/lib/utils'
+import { ValidationError } from '@/lib/errors'
+import { Account, KeyPairArray, NETWORK } from '@/lib/types'
+
+export interface WalletCommandArgs {
+  name?: string
+  keystore?: string
+  secretKey?: string
+  keypairFile?: string
+  address?: string
+  network?: string
+}
+
+export const walletCommandFlags: CommandBuilder<{}, WalletCommandArgs> = (
+  yargs: Argv
+) => {
+  return yargs
+    .option('keystore', {
+      describe: 'Path to the keystore file',
+      type: 'string',
+      alias: 'keypairPath',
+    })
+    .command(
+      'new <name>',
+      'Create an account with a new private key',
+      {},
+      runWalletCommand(newAccount)
+    )
+    .command(
+      'import <name>',
+      'Import a private key, or the first key of a lasr_cli keypair file',
+      (yargs: Argv) =>
+        yargs
+          .option('secretKey', {
+            describe:
+              'Private key to import. Asked for when neither this nor --keypairFile is given',
+            type: 'string',
+            alias: 'k',
+          })
+          .option('keypairFile', {
+            describe: 'Path to a keypair.json written by lasr_cli',
+            type: 'string',
+          }),
+      runWalletCommand(importAccount)
+    )
+    .command(
+      'list',
+      'List the accounts of the keystore',
+      {},
+      runWalletCommand(listAccounts)
+    )
+    .command(
+      'show [name]',
+      'Show the address of an account',
+      {},
+      runWalletCommand(showAccount)
+    )
+    .command(
+      'export [name]',
+      'Print the private key of an account',
+      {},
+      runWalletCommand(exportAccount)
+    )
+    .command(
+      'balance [name]',
+      'Show the token balances of an account',
+      (yargs: Argv) =>
+        yargs
+          .option('address', {
+            describe: 'Address to look up instead of a keystore account',
+            type: 'string',
+          })
+          .option('network', {
+            describe:
+              'Network: stable, test, local or a network from lasr.config.json (default: its network, or stable)',
+            type: 'string',
+          }),
+      runWalletCommand(showBalance)
+    )
+    .command(
+      'use <name>',
+      'Make an account the default account',
+      {},
+      runWalletCommand(useAccount)
+    )
+    .demandCommand(1, 'Choose a wallet command')
+}
+
+// Every subcommand reports its errors the same way and exits with a non-zero code.
+const runWalletCommand =
+  (handler: (argv: Arguments<WalletCommandArgs>) => Promise<void>) =>
+  async (argv: Arguments) => {
+    try {
+      await handler(argv as Arguments<WalletCommandArgs>)
+    } catch (error) {
+      console.error(`\x1b[0;31mWallet error: ${error}\x1b[0m`)
+      process.exit(1)
+    }
+  }
+
+const openKeystore = (argv: Arguments<WalletCommandArgs>) =>
+  new Keystore(argv.keystore ?? getProjectPaths().wallet)
+
+const accountName = (argv: Arguments<WalletCommandArgs>) =>
+  argv.name ?? getProjectConfig().account
+
+const newAccount = async (argv: Arguments<WalletCommandArgs>) => {
+  const keystore = openKeystore(argv)
+  const password = await getKeystorePassword('New password: ', true)
+  const account = await keystore.createAccount(String(argv.name), password)
+  console.log(`\x1b[0;32mAccount ${account.name} created.\x1b[0m
+==> address: \x1b[0;32m${account.address}\x1b[0m
+==> keystore: ${keystore.path}`)
+}
+
+const importAccount = async (argv: Arguments<WalletCommandArgs>) => {
+  let secretKey = argv.secretKey
+  if (argv.keypairFile) {
+    const keyPairs: KeyPairArray = JSON.parse(
+      await fs.readFile(argv.keypairFile, 'utf8')
+    )
+    if (!keyPairs[0]) {
+      throw new ValidationError(`No keypairs found in ${argv.keypairFile}.`, [
+        { field: 'keypairFile', message: 'must not be empty' },
+      ])
+    }
+    secretKey = keyPairs[0].secret_key
+  }
+  secretKey = secretKey ?? (await promptHidden('Private key: '))
+
+  const keystore = openKeystore(argv)
+  const password = await getKeystorePassword('New password: ', true)
+  const account = await keystore.importAccount(
+    String(argv.name),
+    secretKey,
+    password
+  )
+  console.log(`\x1b[0;32mAccount ${account.name} imported.\x1b[0m
+==> address: \x1b[0;32m${account.address}\x1b[0m`)
+  if (argv.keypairFile) {
+    console.log(
+      `\x1b[0;33m${argv.keypairFile} still holds the key in plaintext. Delete it once you have checked the import.\x1b[0m`
+    )
+  }
+}
+
+const listAccounts = async (argv: Arguments<WalletCommandArgs>) => {
+  const accounts = await openKeystore(argv).listAccounts()
+  accounts.forEach(({ name, address, isDefault }) => {
+    console.log(`${isDefault ? '*' : ' '} ${name}\t${address}`)
+  })
+}
+
+const showAccount = async (argv: Arguments<WalletCommandArgs>) => {
+  const { name, address, isDefault } = await openKeystore(argv).getAccount(
+    accountName(argv)
+  )
+  console.log(`==> name: \x1b[0;32m${name}\x1b[0m${
+    isDefault ? ' (default)' : ''
+  }
+==> address: \x1b[0;32m${address}\x1b[0m`)
+}
+
+const exportAccount = async (argv: Arguments<WalletCommandArgs>) => {
+  const keystore = openKeystore(argv)
+  const { name } = await keystore.getAccount(accountName(argv))
+  const privateKey = await keystore.getPrivateKey(
+    name,
+    await getKeystorePassword()
+  )
+  // Only the key goes to stdout, so it can be piped without the warning.
+  console.error(
+    `\x1b[0;33mAnyone with this key controls ${name}. Do not share it.\x1b[0m`
+  )
+  console.log(privateKey)
+}
+
+const showBalance = async (argv: Arguments<WalletCommandArgs>) => {
+  const address =
+    argv.address ??
+    (await openKeystore(argv).getAccount(accountName(argv))).address
+  const account = await getAccount(address, argv.network as NETWORK)
+
+  console.log(`==> address: \x1b[0;32m${address}\x1b[0m
+==> network: \x1b[0;32m${argv.network}\x1b[0m`)
+  const balances = formatBalances(account)
+  if (balances.length === 0) {
+    console.log('No tokens held.')
+  }
+  balances.forEach(({ programId, balance, tokenIds }) => {
+    console.log(
+      `${programId}\t${balance}${
+        tokenIds.length > 0 ? `\t(${tokenIds.length} token ids)` : ''
+      }`
+    )
+  })
+}
+
+const useAccount = async (argv: Arguments<WalletCommandArgs>) => {
+  await openKeystore(argv).setDefaultAccount(String(argv.name))
+  console.log(`\x1b[0;32m${argv.name} is now the default account.\x1b[0m`)
+}
+
+export function formatBalances(account: Account) {
+  return Object.entries(account.programs ?? {}).map(([programId, token]) => ({
+    programId,
+    balance: formatVerse(token.balance || '0'),
+    tokenIds: token.tokenIds ?? [],
+  }))
+}
+
+const wallet = () => {}
+
+export default wallet
@@ -0,0 +1,270 @@
+import fs from 'fs'
+import path from 'path'
+import { pathToFileURL } from 'url'
+import { NETWORK, NetworkProfile } from '@/lib/types'
+import { ValidationError } from '@/lib/errors'
+import { registerNetworks } from '@/lib/networks'
+
+/**
+ * The names a project config file is looked up by, in order of preference.
+ */
+export const CONFIG_FILE_NAMES = [
+  'lasr.config.json',
+  'lasr.config.js',
+  'lasr.config.mjs',
+]
+
+export const DEFAULT_BUILD_DIR = 'build'
+export const DEFAULT_WALLET_PATH = '.lasr/wallet/keystore.json'
+
+/**
+ * The parameters `lasrctl deploy` is called with for a program. Any of them can still be passed
+ * as flags, which take precedence.
+ */
+export interface ProgramDeployConfig {
+  author?: string
+  name?: string
+  symbol?: string
+  programName?: string
+  initializedSupply?: string
+  totalSupply?: string
+  recipientAddress?: string
+  inputs?: string | Record<string, unknown>
+}
+
+/**
+ * A program of the project. Its build name, the `--build` flag of `lasrctl test` and
+ * `lasrctl deploy`, is the file name of `entry` without its extension.
+ */
+export interface ProgramConfig {
+  entry: string
+  inputs?: string
+  target?: 'node' | 'wasm'
+  deploy?: ProgramDeployConfig
+}
+
+/**
+ * The contents of `lasr.config.json`, or the default export of `lasr.config.js`. Paths are
+ * relative to the directory of the config file.
+ */
+export interface LasrConfig {
+  network?: NETWORK
+  wallet?: string
+  account?: string
+  author?: string
+  buildDir?: string
+  lasrCli?: string
+  programs?: { [program: string]: ProgramConfig }
+  networks?: { [network: string]: Partial<NetworkProfile> }
+}
+
+/**
+ * A loaded project config, along with where it was found. `rootDir` is the working directory
+ * when the project has no config file.
+ */
+export interface ProjectConfig extends LasrConfig {
+  rootDir: string
+  configPath?: string
+}
+
+let projectConfig: ProjectConfig = { rootDir: process.cwd() }
+
+/**
+ * Looks for a project config file in `startDir` and each of its parent directories.
+ *
+ * @param {string} startDir - The directory to start looking in.
+ * @returns {string | undefined} The path of the closest config file, if there is one.
+ */
+export function findConfigFile(
+  startDir: string = process.cwd()
+): string | undefined {
+  let dir = path.resolve(startDir)
+  while (true) {
+    const configPath = CONFIG_FILE_NAMES.map((name) =>
+      path.join(dir, name)
+    ).find((candidate) => fs.existsSync(candidate))
+    if (configPath) {
+      return configPath
+    }
+    const parent = path.dirname(dir)
+    if (parent === dir) {
+      return undefined
+    }
+    dir = parent
+  }
+}
+
+/**
+ * Finds and loads the project config, registers its network profiles and makes it the config
+ * returned by `getProjectConfig`.
+ *
+ * @param {string} startDir - The directory to start looking for a config file in.
+ * @returns {Promise<ProjectConfig>} The loaded config, or an empty one rooted at `startDir`.
+ * @throws {ValidationError} Throws if the config file cannot be parsed or is malformed.
+ */
+export async function loadProjectConfig(
+  startDir: string = process.cwd()
+): Promise<ProjectConfig> {
+  const configPath = findConfigFile(startDir)
+  if (!configPath) {
+    projectConfig = { rootDir: path.resolve(startDir) }
+    return projectConfig
+  }
+
+  const config = await readConfigFile(configPath)
+  validateConfig(config, configPath)
+  registerNetworks(config.networks ?? {})
+
+  projectConfig = { ...config, rootDir: path.dirname(configPath), configPath }
+  return projectConfig
+}
+
+/**
+ * Returns the project config loaded by `loadProjectConfig`.
+ *
+ * @returns {ProjectConfig} The current project config.
+ */
+export function getProjectConfig(): ProjectConfig {
+  return projectConfig
+}
+
+/**
+ * Resolves the paths `lasrctl` reads and writes against the project root.
+ *
+ * @param {ProjectConfig} config - The project config.
+ * @returns The build directory, the directory built programs are written to, the `lasr_cli`
+ *          binary and the wallet keystore file.
+ */
+export function getProjectPaths(config: ProjectConfig = projectConfig) {
+  const buildDir = path.resolve(
+    config.rootDir,
+    config.buildDir ?? DEFAULT_BUILD_DIR
+  )
+  return {
+    buildDir,
+    libDir: path.join(buildDir, 'lib'),
+    lasrCli: config.lasrCli
+      ? path.resolve(config.rootDir, config.lasrCli)
+      : path.join(buildDir, 'lasr_cli'),
+    wallet: path.resolve(config.rootDir, config.wallet ?? DEFAULT_WALLET_PATH),
+  }
+}
+
+/**
+ * Picks the program a command runs against: the one named by `name`, which may be the program's
+ * key, its build name or its entry file, or the first program when no name is given.
+ *
+ * @param {ProjectConfig} config - The project config.
+ * @param {string} name - The program, build name or entry file passed on the command line.
+ * @returns The program's key, build name and config, if the project declares a matching program.
+ */
+export function selectProgram(config: ProjectConfig, name?: string) {
+  const programs = Object.entries(config.programs ?? {}).map(
+    ([key, program]) => ({
+      key,
+      buildName: path.parse(program.entry).name,
+      program,
+    })
+  )
+  if (!name) {
+    return programs[0]
+  }
+  return programs.find(
+    ({ key, buildName, program }) =>
+      key === name ||
+      buildName === name ||
+      path.resolve(config.rootDir, program.entry) === path.resolve(name)
+  )
+}
+
+/**
+ * Fills the arguments of a command that were not passed as flags from the project config: the
+ * entry file for `build`, the build name and inputs for `test`, the entry file and inputs for
+ * `dev`, the deploy parameters for `deploy`, and the network for `deploy`, `call`, `send` and
+ * `wallet`, which falls back to `stable`. Flags always take precedence over the config.
+ *
+ * @param {string} command - The name of the command being run.
+ * @param {Record<string, unknown>} argv - The parsed command line arguments.
+ * @param {ProjectConfig} config - The project config.
+ * @returns {Record<string, unknown>} The arguments, with the missing ones taken from the config.
+ */
+export function applyProjectConfig(
+  command: string,
+  argv: Record<string, unknown>,
+  config: ProjectConfig = projectConfig
+) {
+  const selected = selectProgram(
+    config,
+    (argv.build ?? argv.file) as string | undefined
+  )
+  const defaults: Record<string, unknown> = {}
+
+  if (command === 'build' && selected) {
+    defaults.file = path.resolve(config.rootDir, selected.program.entry)
+  } else if (command === 'test' && selected) {
+    defaults.build = selected.buildName
+    defaults.inputJson =
+      selected.program.inputs &&
+      path.resolve(config.rootDir, selected.program.inputs)
+  } else if (command === 'dev' && selected) {
+    defaults.file = path.resolve(config.rootDir, selected.program.entry)
+    defaults.inputJson =
+      selected.program.inputs &&
+      path.resolve(config.rootDir, selected.program.inputs)
+  } else if (command === 'deploy') {
+    const { inputs, ...deploy } = selected?.program.deploy ?? {}
+    Object.assign(defaults, {
+      build: selected?.buildName,
+      target: selected?.program.target,
+      author: config.author,
+      ...deploy,
+      inputs: typeof inputs === 'object' ? JSON.stringify(inputs) : inputs,
+    })
+  }
+  if (['deploy', 'call', 'send', 'wallet'].includes(command)) {
+    defaults.network = config.network ?? 'stable'
+  }
+
+  Object.entries(defaults).forEach(([key, value]) => {
+    if (argv[key] === undefined && value !== undefined) {
+      argv[key] = value
+    }
+  })
+  return argv
+}
+
+async function readConfigFile(configPath: string): Promise<LasrConfig> {
+  if (configPath.endsWith('.json')) {
+    try {
+      return JSON.parse(fs.readFileSync(configPath, 'utf8'))
+    } catch (error) {
+      throw new ValidationError(`${configPath} is not valid JSON`, [
+        { field: '', message: 'must be valid JSON' },
+      ])
+    }
+  }
+
+  const module = await import(pathToFileURL(configPath).href)
+  return module.default ?? module
+}
+
+function validateConfig(config: LasrConfig, configPath: string) {
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    throw new ValidationError(`${configPath} must export an object`, [
+      { field: '', message: 'must be an object' },
+    ])
+  }
+
+  const fields = Object.entries(config.programs ?? {})
+    .filter(([, program]) => typeof program?.entry !== 'string')
+    .map(([key]) => ({
+      field: `programs.${key}.entry`,
+      message: 'must be a string',
+    }))
+  if (fields.length > 0) {
+    throw new ValidationError(
+      `${configPath} has programs without an entry file`,
+      fields
+    )
+  }
+}
@@ -0,0 +1,230 @@
+import path from 'path'
+import { formatMismatches } from '@/lib/expectations'
+import { InputTestResult } from '@/lasrctrl/test-runner'
+
+export const REPORTERS = ['pretty', 'json', 'junit', 'tap'] as const
+
+export type ReporterName = (typeof REPORTERS)[number]
+
+/**
+ * The results of testing a program against a set of input files.
+ */
+export interface TestReport {
+  program: string
+  results: InputTestResult[]
+  durationMs: number
+}
+
+/**
+ * Explains why an input failed: the error that kept it from being tested, or the expectations
+ * it did not meet.
+ *
+ * @param {InputTestResult} result - The result of the input.
+ * @returns {string | undefined} The failure reason, or undefined if the input passed.
+ */
+export function getFailureReason(result: InputTestResult): string | undefined {
+  if (result.passed) {
+    return undefined
+  }
+  return result.error ?? formatMismatches(result.mismatches)
+}
+
+/**
+ * Formats test results for people or for CI systems.
+ *
+ * - `pretty`: colored text with one line per input, and the reason and stderr of each failure.
+ * - `json`: the counts and every result, including the program's stdout and stderr.
+ * - `junit`: JUnit XML, with one test case per input. Inputs that could not be tested are
+ *   reported as errors rather than failures.
+ * - `tap`: TAP version 13, with the details of failures in YAML blocks.
+ *
+ * @param {ReporterName} reporter - The format to use.
+ * @param {TestReport} report - The results to format.
+ * @param {object} options - `showOutput` makes the pretty reporter print every program output.
+ * @returns {string} The formatted report, ending with a newline.
+ */
+export function formatReport(
+  reporter: ReporterName,
+  report: TestReport,
+  options: { showOutput?: boolean } = {}
+): string {
+  switch (reporter) {
+    case 'pretty':
+      return formatPretty(report, options.showOutput ?? false)
+    case 'json':
+      return formatJson(report)
+    case 'junit':
+      return formatJUnit(report)
+    case 'tap':
+      return formatTap(report)
+  }
+}
+
+const displayName = (input: string) =>
+  path.isAbsolute(input) ? path.relative(process.cwd(), input) : input
+
+const countFailures = (results: InputTestResult[]) =>
+  results.filter((result) => !result.passed).length
+
+const indent = (text: string, prefix: string) =>
+  text
+    .split('\n')
+    .map((line) => `${prefix}${line}`)
+    .join('\n')
+
+function formatPretty(report: TestReport, showOutput: boolean) {
+  const lines: string[] = []
+  report.results.forEach((result) => {
+    const name = path.basename(result.input)
+    if (showOutput) {
+      lines.push(`\x1b[0;37m
+Output:
+*******************************\x1b[0m
+\x1b[0;35m${result.stdout.trim()}\x1b[0m
+\x1b[0;37m*******************************\x1b[0m`)
+    }
+    if (result.passed) {
+      lines.push(`  \x1b[0;32mPASS\x1b[0m ${name} (${result.durationMs}ms)`)
+      return
+    }
+    lines.push(`  \x1b[0;31mFAIL\x1b[0m ${name} (${result.durationMs}ms)`)
+    lines.push(indent(getFailureReason(result) ?? '', '       '))
+    if (result.stderr.trim()) {
+      lines.push('       \x1b[0;37mstderr:\x1b[0m')
+      lines.push(indent(result.stderr.trim(), '         '))
+    }
+  })
+
+  const failed = countFailures(report.results)
+  lines.push(
+    `\x1b[0;37m${report.results.length - failed} passed, ${failed} failed in ${
+      report.durationMs
+    }ms\x1b[0m${failed > 0 ? ' ❌' : ' ✅'}`
+  )
+  return lines.join('\n') + '\n'
+}
+
+function formatJson(report: TestReport) {
+  const failed = countFailures(report.results)
+  return (
+    JSON.stringify(
+      {
+        program: report.program,
+        passed: report.results.length - failed,
+        failed,
+        durationMs: report.durationMs,
+        results: report.results.map((result) => ({
+          input: displayName(result.input),
+          passed: result.passed,
+          durationMs: result.durationMs,
+          failure: getFailureReason(result),
+          mismatches: result.mismatches,
+          stdout: result.stdout,
+          stderr: result.stderr,
+        })),
+      },
+      null,
+      2
+    ) + '\n'
+  )
+}
+
+// Neither XML 1.0 nor YAML allow control characters. ANSI color codes are removed whole, and
+// other control characters except tabs and line breaks are dropped.
+const stripControlCharacters = (text: string) =>
+  text
+    .replace(/\x1b\[[0-9;]*m/g, '')
+    .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, '')
+
+const escapeXml = (text: string) =>
+  stripControlCharacters(text)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+
+const seconds = (durationMs: number) => (durationMs / 1000).toFixed(3)
+
+function formatJUnit(report: TestReport) {
+  const program = escapeXml(report.program)
+  const errors = report.results.filter((result) => result.error).length
+  const failures = countFailures(report.results) - errors
+  const counts = `tests="${
+    report.results.length
+  }" failures="${failures}" errors="${errors}" time="${seconds(
+    report.durationMs
+  )}"`
+
+  const testCases = report.results.map((result) => {
+    const lines = [
+      `    <testcase name="${escapeXml(
+        displayName(result.input)
+      )}" classname="${program}" time="${seconds(result.durationMs)}">`,
+    ]
+    const reason = getFailureReason(result)
+    if (reason !== undefined) {
+      const element = result.error ? 'error' : 'failure'
+      lines.push(
+        `      <${element} message="${escapeXml(
+          reason.split('\n')[0]
+        )}">${escapeXml(reason)}</${element}>`
+      )
+    }
+    if (result.stdout) {
+      lines.push(`      <system-out>${escapeXml(result.stdout)}</system-out>`)
+    }
+    if (result.stderr) {
+      lines.push(`      <system-err>${escapeXml(result.stderr)}</system-err>`)
+    }
+    lines.push('    </testcase>')
+    return lines.join('\n')
+  })
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="lasrctl test" ${counts}>`,
+    `  <testsuite name="${program}" ${counts}>`,
+    ...testCases,
+    '  </testsuite>',
+    '</testsuites>',
+    '',
+  ].join('\n')
+}
+
+// Multi-line values become YAML block scalars, so they need no escaping.
+const yamlBlock = (key: string, value: string) =>
+  `  ${key}: |-\n${indent(
+    stripControlCharacters(value).replace(/\s+$/, ''),
+    '    '
+  )}`
+
+function formatTap(report: TestReport) {
+  const lines = ['TAP version 13', `1..${report.results.length}`]
+  report.results.forEach((result, index) => {
+    const status = result.passed ? 'ok' : 'not ok'
+    lines.push(
+      `${status} ${index + 1} - ${displayName(result.input)} # time=${
+        result.durationMs
+      }ms`
+    )
+    const reason = getFailureReason(result)
+    if (reason === undefined) {
+      return
+    }
+    lines.push('  ---')
+    lines.push(`  durationMs: ${result.durationMs}`)
+    lines.push(yamlBlock('message', reason))
+    if (result.stdout.trim()) {
+      lines.push(yamlBlock('stdout', result.stdout))
+    }
+    if (result.stderr.trim()) {
+      lines.push(yamlBlock('stderr', result.stderr))
+    }
+    lines.push('  ...')
+  })
+  const failed = countFailures(report.results)
+  lines.push(`# pass ${report.results.length - failed}`)
+  lines.push(`# fail ${failed}`)
+  return lines.join('\n') + '\n'
+}
@@ -1,9 +1,10 @@
-import { exec, spawn } from 'child_process'
+import { exec, spawn, StdioOptions } from 'child_process'
+import { CliProcessError } from '@/lib/errors'
 
 export function runSpawn(
   command: string,
   args: readonly string[] | undefined,
-  options: { stdio: string }
+  options: { stdio: StdioOptions }
 ) {
   return new Promise((resolve, reject) => {
     // @ts-ignore
@@ -14,13 +15,25 @@ export function runSpawn(
       if (code === 0) {
         resolve(code) // Resolve the promise successfully if the process exits with code 0
       } else {
-        reject(new Error(`Process exited with code ${code}`)) // Reject the promise if the process exits with a non-zero code
+        // Reject the promise if the process exits with a non-zero code
+        reject(
+          new CliProcessError(`Process exited with code ${code}`, {
+            command: [command, ...(args ?? [])].join(' '),
+            exitCode: code,
+          })
+        )
       }
     })
 
     // @ts-ignore
     child.on('error', (error) => {
-      reject(error) // Reject the promise if an error occurs
+      // Reject the promise if the process cannot be started
+      reject(
+        new CliProcessError(error.message, {
+          command: [command, ...(args ?? [])].join(' '),
+          cause: error,
+        })
+      )
     })
   })
 }
@@ -29,7 +42,14 @@ export async function runCommand(command: string): Promise<string> {
   return new Promise((resolve, reject) => {
     exec(command, (error, stdout, stderr) => {
       if (error) {
-        reject(`error: ${error.message}`)
+        reject(
+          new CliProcessError(error.message, {
+            command,
+            exitCode: error.code,
+            stdout,
+            stderr,
+          })
+        )
         return
       }
 
@@ -42,9 +62,16 @@ export async function runCommand(command: string): Promise<string> {
           resolve(stdout)
         }
         if (stderr.includes('No such file or directory')) {
-          reject('KeyPair file not found. Please ensure the path is correct.')
+          reject(
+            new CliProcessError(
+              'KeyPair file not found. Please ensure the path is correct.',
+              { command, stdout, stderr }
+            )
+          )
         } else {
-          reject(`stderr: ${stderr}`)
+          reject(
+            new CliProcessError(stderr.trim(), { command, stdout, stderr })
+          )
         }
         return
       }
@@ -0,0 +1,173 @@
+import { promises as fsp } from 'fs'
+import { execFile } from 'child_process'
+import { runBundle } from '@/lasrctrl/bundle'
+import { checkExpectations, parseTestInput } from '@/lib/expectations'
+import {
+  CliProcessError,
+  ExpectationMismatch,
+  ValidationError,
+} from '@/lib/errors'
+
+/**
+ * The outcome of running a program against one input file. `output` is the program's parsed
+ * stdout, or its raw stdout if it did not write JSON. `error` is set instead of `mismatches` when
+ * the input could not be tested at all, e.g. because it is malformed or the program timed out.
+ */
+export interface InputTestResult {
+  input: string
+  passed: boolean
+  durationMs: number
+  output?: unknown
+  stdout: string
+  stderr: string
+  mismatches: ExpectationMismatch[]
+  error?: string
+}
+
+/**
+ * Runs a bundled program against an input file and checks its output against the expectations
+ * declared in the file. Successful outputs must also be accepted by `lasr_cli parse-outputs`,
+ * when a `lasr_cli` binary is given.
+ *
+ * @param {string} bundlePath - The path of the bundled program.
+ * @param {string} inputPath - The path of the input file.
+ * @param {string} lasrCli - The `lasr_cli` binary to validate outputs with.
+ * @returns {Promise<InputTestResult>} Whether the run met its expectations, and how it did not.
+ * @throws {ValidationError} Throws if the input file cannot be read or is malformed.
+ * @throws {CliProcessError} Throws if the program or `lasr_cli` cannot be started, or the program
+ *                           does not exit in time.
+ */
+export async function runInputTest(
+  bundlePath: string,
+  inputPath: string,
+  lasrCli?: string
+): Promise<InputTestResult> {
+  const startedAt = Date.now()
+  const { computeInputs, expect } = parseTestInput(await readInput(inputPath))
+  const run = await runBundle(bundlePath, JSON.stringify(computeInputs))
+
+  let output: unknown
+  try {
+    output = JSON.parse(run.stdout)
+  } catch (error) {
+    return {
+      input: inputPath,
+      passed: false,
+      durationMs: Date.now() - startedAt,
+      output: run.stdout,
+      stdout: run.stdout,
+      stderr: run.stderr,
+      mismatches: [
+        {
+          path: 'output',
+          message: `the program did not write JSON${
+            run.stderr ? `: ${run.stderr.trim()}` : ''
+          }`,
+          actual: run.stdout,
+        },
+      ],
+    }
+  }
+
+  const mismatches = checkExpectations(expect ?? {}, output, computeInputs)
+  const failed = Boolean((output as { error?: unknown } | null)?.error)
+  if (lasrCli && !failed && mismatches.length === 0) {
+    const rejection = await parseOutputs(lasrCli, run.stdout)
+    if (rejection !== undefined) {
+      mismatches.push({
+        path: 'output',
+        message: `lasr_cli rejected the output${
+          rejection ? `: ${rejection}` : ''
+        }`,
+      })
+    }
+  }
+
+  return {
+    input: inputPath,
+    passed: mismatches.length === 0,
+    durationMs: Date.now() - startedAt,
+    output,
+    stdout: run.stdout,
+    stderr: run.stderr,
+    mismatches,
+  }
+}
+
+/**
+ * Runs a bundled program against several input files at once. Unlike `runInputTest`, it never
+ * throws: an input that cannot be tested is reported as a failed result with an `error`.
+ *
+ * @param {string} bundlePath - The path of the bundled program.
+ * @param {string[]} inputPaths - The paths of the input files.
+ * @param {string} lasrCli - The `lasr_cli` binary to validate outputs with.
+ * @returns {Promise<InputTestResult[]>} The result of each input, in the order given.
+ */
+export function runInputTests(
+  bundlePath: string,
+  inputPaths: string[],
+  lasrCli?: string
+): Promise<InputTestResult[]> {
+  return Promise.all(
+    inputPaths.map(async (inputPath) => {
+      const startedAt = Date.now()
+      try {
+        return await runInputTest(bundlePath, inputPath, lasrCli)
+      } catch (error) {
+        return {
+          input: inputPath,
+          passed: false,
+          durationMs: Date.now() - startedAt,
+          stdout: error instanceof CliProcessError ? error.stdout : '',
+          stderr: error instanceof CliProcessError ? error.stderr : '',
+          mismatches: [],
+          error: error instanceof Error ? error.message : String(error),
+        }
+      }
+    })
+  )
+}
+
+async function readInput(inputPath: string): Promise<unknown> {
+  let content: string
+  try {
+    content = await fsp.readFile(inputPath, 'utf8')
+  } catch (error) {
+    throw new ValidationError(`JSON input file ${inputPath} does not exist`, [
+      { field: 'inputJson', message: 'must point to a JSON file' },
+    ])
+  }
+
+  try {
+    return JSON.parse(content)
+  } catch (error) {
+    throw new ValidationError(`${inputPath} is not valid JSON`, [
+      { field: 'inputJson', message: 'must be valid JSON' },
+    ])
+  }
+}
+
+// Resolves with lasr_cli's complaint if it rejects the output, and with undefined if it accepts it.
+function parseOutputs(
+  lasrCli: string,
+  output: string
+): Promise<string | undefined> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      lasrCli,
+      ['parse-outputs', '--json', output],
+      (error, stdout, stderr) => {
+        if ((error as NodeJS.ErrnoException | null)?.code === 'ENOENT') {
+          reject(
+            new CliProcessError(`lasr_cli not found at ${lasrCli}`, {
+              command: `${lasrCli} parse-outputs`,
+              cause: error,
+            })
+          )
+          return
+        }
+        resolve(error ? (stderr || stdout || error.message).trim() : undefined)
+      }
+    )
+  })
+}
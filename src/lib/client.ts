@@ -0,0 +1,120 @@
+import {
+  Account,
+  LasrRpcMethod,
+  LasrRpcMethods,
+  Transaction,
+} from '@/lib/types'
+import {
+  RetryPolicy,
+  isRetryableError,
+  isUnprocessedError,
+  sendJsonRpc,
+} from '@/lib/transport'
+import { getLogger } from '@/lib/logger'
+
+// Reads can be resent after any transient failure. Every other method changes state, and is only
+// resent when the node certainly did not process it.
+const IDEMPOTENT_METHODS: LasrRpcMethod[] = ['lasr_getAccount']
+
+/**
+ * A JSON-RPC client for a LASR node. Every node method has a typed wrapper, and each request
+ * is sent with the next id of the client, starting at 1. Requests time out and are retried
+ * according to the client's `RetryPolicy`. Only `getAccount` is retried after timeouts and server
+ * errors; `send`, `call` and `registerProgram` are only retried when the connection failed.
+ *
+ * @example
+ * const client = new LasrClient(getRPCForNetwork('test'))
+ * const account = await client.getAccount('0x...')
+ * await client.call(signedTransaction)
+ */
+export class LasrClient {
+  private endpoint: string
+  private retryPolicy: Partial<RetryPolicy>
+  private nextId = 1
+
+  /**
+   * Constructs a client for the node served at the given endpoint.
+   *
+   * @param {string} endpoint - The URL of the node's JSON-RPC endpoint.
+   * @param {Partial<RetryPolicy>} retryPolicy - Overrides of `DEFAULT_RETRY_POLICY` for every request.
+   */
+  constructor(endpoint: string, retryPolicy: Partial<RetryPolicy> = {}) {
+    this.endpoint = endpoint
+    this.retryPolicy = retryPolicy
+  }
+
+  /**
+   * Returns the URL requests are sent to.
+   *
+   * @returns {string} The JSON-RPC endpoint.
+   */
+  getEndpoint(): string {
+    return this.endpoint
+  }
+
+  /**
+   * Sends a JSON-RPC request and returns its result.
+   *
+   * @param {LasrRpcMethod} method - The node method to call.
+   * @param {LasrRpcMethods[M]['params']} params - The params of the method.
+   * @returns {Promise<LasrRpcMethods[M]['result']>} The `result` of the response.
+   * @throws {RpcError} Throws if the request fails for good or the node returns an error.
+   */
+  async request<M extends LasrRpcMethod>(
+    method: M,
+    params: LasrRpcMethods[M]['params']
+  ): Promise<LasrRpcMethods[M]['result']> {
+    const id = this.nextId++
+    getLogger().debug(`${method} #${id} -> ${this.endpoint}`)
+
+    return sendJsonRpc(
+      this.endpoint,
+      { jsonrpc: '2.0', method, params, id },
+      this.retryPolicy,
+      IDEMPOTENT_METHODS.includes(method)
+        ? isRetryableError
+        : isUnprocessedError
+    )
+  }
+
+  /**
+   * Looks up an account with `lasr_getAccount`.
+   *
+   * @param {string} address - The address of the account.
+   * @returns {Promise<Account>} The account, parsed from the JSON the node returns.
+   * @throws {RpcError} Throws if the node returns an error, e.g. because the account does not exist yet.
+   */
+  async getAccount(address: string): Promise<Account> {
+    return JSON.parse(await this.request('lasr_getAccount', [address]))
+  }
+
+  /**
+   * Sends tokens with `lasr_send`.
+   *
+   * @param {Transaction} transaction - The signed `send` transaction.
+   * @returns {Promise<string>} The node's response.
+   */
+  async send(transaction: Transaction): Promise<string> {
+    return this.request('lasr_send', [transaction])
+  }
+
+  /**
+   * Calls a program with `lasr_call`.
+   *
+   * @param {Transaction} transaction - The signed transaction calling the program.
+   * @returns {Promise<string>} The node's response.
+   */
+  async call(transaction: Transaction): Promise<string> {
+    return this.request('lasr_call', [transaction])
+  }
+
+  /**
+   * Registers a published program with `lasr_registerProgram`.
+   *
+   * @param {Transaction} transaction - The signed `registerProgram` transaction, carrying the program's content id in its inputs.
+   * @returns {Promise<string>} The node's response.
+   */
+  async registerProgram(transaction: Transaction): Promise<string> {
+    return this.request('lasr_registerProgram', [transaction])
+  }
+}
@@ -0,0 +1,965 @@
+import {
+  Account,
+  ComputeInputs,
+  LogField,
+  Status,
+  Token,
+  Transaction,
+} from '@/lib/types'
+import { Program } from '@/lib/programs/Program'
+import { THIS, ZERO_VALUE } from '@/lib/consts'
+import { formatBigIntToHex } from '@/lib/utils'
+import {
+  ProgramExecutionError,
+  StateError,
+  ValidationError,
+} from '@/lib/errors'
+import {
+  expectArray,
+  expectNumber,
+  expectObject,
+  expectOneOf,
+  expectPair,
+  expectString,
+  expectStringArray,
+  expectStringMap,
+  malformed,
+  normalizeAddress,
+  nullable,
+  singleEntry,
+} from '@/lib/programs/json-helpers'
+
+/**
+ * Describes a transaction to be executed against the emulator. Only the fields a program
+ * needs are required; everything else (nonce, transaction type, signature) is filled in
+ * by the emulator when the `ComputeInputs` are generated.
+ */
+export interface EmulatorTransaction {
+  op: string
+  from: string
+  to: string
+  programId?: string
+  transactionInputs?: string | Record<string, unknown>
+  value?: string
+}
+
+/**
+ * An event emitted by a `log` instruction, along with the program that emitted it.
+ */
+export interface EmulatorLog {
+  programAddress: string
+  event: string
+  fields: LogField[]
+}
+
+/**
+ * The result of executing a transaction against the emulator: the generated inputs handed
+ * to the program, the outputs it returned, as they would appear on the program's stdout,
+ * and the events it emitted.
+ */
+export interface EmulatorResult {
+  inputs: ComputeInputs
+  outputs: {
+    computeInputs: ComputeInputs
+    instructions: unknown[]
+  }
+  logs: EmulatorLog[]
+}
+
+/**
+ * Context used to resolve `this` and the caller while applying instructions.
+ */
+export interface EmulatorContext {
+  caller: string
+  programAddress: string
+}
+
+/**
+ * An in-memory stand-in for LASR state. The emulator holds a map of accounts, executes
+ * `Program` instances against generated `ComputeInputs` and applies the returned
+ * `create`, `update`, `transfer` and `burn` instructions to balances, token ids,
+ * approvals, allowances, metadata, data and status, while `log` instructions are recorded as emitted events.
+ * Instructions from a single execution are applied atomically: if any of them fails,
+ * the state is left untouched and no events are recorded.
+ */
+export class LasrEmulator {
+  private accounts: Map<string, Account>
+  private logs: EmulatorLog[] = []
+
+  /**
+   * Constructs a new emulator, optionally seeded with existing accounts.
+   *
+   * @param {Account[]} accounts - Accounts to seed the emulator state with.
+   */
+  constructor(accounts: Account[] = []) {
+    this.accounts = new Map()
+    accounts.forEach((account) => this.setAccount(account))
+  }
+
+  /**
+   * Adds or replaces an account in the emulator state. Program accounts are stored at the
+   * program address found in their account type, user accounts at their owner address.
+   *
+   * @param {Account} account - The account to store.
+   * @returns {LasrEmulator} The instance of the emulator for chaining.
+   */
+  setAccount(account: Account): LasrEmulator {
+    this.accounts.set(getAccountAddress(account), clone(account))
+    return this
+  }
+
+  /**
+   * Retrieves a copy of the account stored at the given address.
+   *
+   * @param {string} address - The address of the account.
+   * @returns {Account | undefined} The account, or undefined if it does not exist.
+   */
+  getAccount(address: string): Account | undefined {
+    const account = this.accounts.get(normalizeAddress(address))
+    return account ? clone(account) : undefined
+  }
+
+  /**
+   * Retrieves a copy of the token an account holds for the given program.
+   *
+   * @param {string} address - The address of the account holding the token.
+   * @param {string} tokenAddress - The address of the program that issued the token.
+   * @returns {Token | undefined} The token, or undefined if the account does not hold it.
+   */
+  getToken(address: string, tokenAddress: string): Token | undefined {
+    const account = this.accounts.get(normalizeAddress(address))
+    const token = account?.programs[normalizeAddress(tokenAddress)]
+    return token ? clone(token) : undefined
+  }
+
+  /**
+   * Seeds or overrides a token held by an account, creating both if necessary. This is
+   * typically used to fund callers with payment tokens before executing a program.
+   *
+   * @param {string} address - The address of the account holding the token.
+   * @param {string} tokenAddress - The address of the program that issued the token.
+   * @param {Partial<Token>} token - The token fields to set.
+   * @returns {LasrEmulator} The instance of the emulator for chaining.
+   */
+  setToken(
+    address: string,
+    tokenAddress: string,
+    token: Partial<Token>
+  ): LasrEmulator {
+    const existing = ensureToken(this.accounts, address, tokenAddress)
+    Object.assign(existing, clone(token))
+    return this
+  }
+
+  /**
+   * Returns a copy of every account currently held by the emulator.
+   *
+   * @returns {Account[]} The accounts in the emulator state.
+   */
+  getAccounts(): Account[] {
+    return Array.from(this.accounts.values()).map((account) => clone(account))
+  }
+
+  /**
+   * Returns the events emitted so far, in emission order, optionally filtered by event name.
+   *
+   * @param {string} [event] - Only return events with this name.
+   * @returns {EmulatorLog[]} The emitted events.
+   */
+  getLogs(event?: string): EmulatorLog[] {
+    return this.logs
+      .filter((log) => event === undefined || log.event === event)
+      .map((log) => clone(log))
+  }
+
+  /**
+   * Generates the `ComputeInputs` a program would receive for the given transaction. The
+   * transaction uses the sender's next nonce and the program account is used as `accountInfo`.
+   * The state is left untouched: the sender's nonce is only incremented by `execute`.
+   *
+   * @param {EmulatorTransaction} tx - The transaction to generate inputs for.
+   * @returns {ComputeInputs} The generated compute inputs.
+   */
+  createComputeInputs(tx: EmulatorTransaction): ComputeInputs {
+    const sender = this.accounts.get(normalizeAddress(tx.from))
+    const nonce = formatBigIntToHex(
+      BigInt(sender?.nonce ?? ZERO_VALUE) + BigInt(1)
+    )
+    const programAccount =
+      this.accounts.get(normalizeAddress(tx.to)) ?? createAccount(tx.to, true)
+    const transactionInputs =
+      typeof tx.transactionInputs === 'string'
+        ? tx.transactionInputs
+        : JSON.stringify(tx.transactionInputs ?? {})
+
+    const transaction: Transaction = {
+      transactionType: { call: nonce },
+      from: normalizeAddress(tx.from),
+      to: normalizeAddress(tx.to),
+      programId: normalizeAddress(tx.programId ?? tx.to),
+      op: tx.op,
+      transactionInputs,
+      value: tx.value ?? ZERO_VALUE,
+      nonce,
+      r: ZERO_VALUE,
+      s: ZERO_VALUE,
+      v: 0,
+    }
+
+    return {
+      accountInfo: clone(programAccount),
+      contractInputs: '',
+      op: tx.op,
+      transaction,
+      version: 1,
+    }
+  }
+
+  /**
+   * Executes a program against the emulator state. The program is started with generated
+   * `ComputeInputs`, its result is serialized exactly as it would be written to stdout,
+   * and the returned instructions are applied to the state. The sender's nonce is only
+   * incremented once every instruction was applied.
+   *
+   * @param {Program} program - The program instance to execute.
+   * @param {EmulatorTransaction} tx - The transaction calling the program.
+   * @returns {EmulatorResult} The inputs handed to the program, the outputs it returned and the events it emitted.
+   * @throws {ProgramExecutionError} Throws if the operation is unknown or the program does not return any instructions.
+   * @throws {ValidationError} Throws if an instruction is malformed or unknown.
+   * @throws {StateError} Throws if a balance or allowance is too low, or a token id is not held.
+   * @throws {Error} Rethrows anything the program throws.
+   */
+  execute(program: Program, tx: EmulatorTransaction): EmulatorResult {
+    const inputs = this.createComputeInputs(tx)
+    const outputs = JSON.parse(JSON.stringify(program.start(inputs)))
+
+    if (!outputs || !Array.isArray(outputs.instructions)) {
+      throw new ProgramExecutionError(
+        'Program did not return any instructions',
+        { op: tx.op }
+      )
+    }
+
+    const logs = this.applyInstructions(outputs.instructions, {
+      caller: inputs.transaction.from,
+      programAddress: inputs.transaction.to,
+    })
+    const sender = ensureAccount(this.accounts, inputs.transaction.from)
+    sender.nonce = inputs.transaction.nonce ?? sender.nonce
+
+    return { inputs, outputs, logs }
+  }
+
+  /**
+   * Applies serialized instructions to the emulator state. All instructions are applied to
+   * a working copy that only replaces the current state once every instruction succeeded.
+   *
+   * @param {unknown[]} instructions - The serialized instructions, as found in `Outputs`.
+   * @param {EmulatorContext} context - The caller and the address `this` resolves to.
+   * @returns {EmulatorLog[]} The events emitted by `log` instructions.
+   * @throws {ValidationError} Throws if an instruction is malformed or unknown.
+   * @throws {StateError} Throws if a balance or allowance is too low, or a token id is not held.
+   */
+  applyInstructions(
+    instructions: unknown[],
+    context: EmulatorContext
+  ): EmulatorLog[] {
+    const state = new Map(
+      Array.from(this.accounts.entries()).map(([address, account]) => [
+        address,
+        clone(account),
+      ])
+    )
+    const logs: EmulatorLog[] = []
+
+    instructions.forEach((instruction) => {
+      const [kind, value]: [string, unknown] = singleEntry(
+        instruction,
+        'instruction'
+      )
+      switch (kind) {
+        case 'create':
+          applyCreate(state, value, context)
+          break
+        case 'update':
+          applyUpdate(state, value, context)
+          break
+        case 'transfer':
+          applyTransfer(state, value, context)
+          break
+        case 'burn':
+          applyBurn(state, value, context)
+          break
+        case 'log':
+          logs.push(toEmulatorLog(value, context))
+          break
+        default:
+          throw malformed(
+            'instruction',
+            'one of create, update, transfer, burn, log',
+            kind
+          )
+      }
+    })
+
+    this.accounts = state
+    this.logs.push(...logs)
+    return clone(logs)
+  }
+}
+
+/**
+ * The net change to token balances implied by a list of instructions, keyed by account and
+ * then by token program. Amounts are signed decimal strings.
+ */
+export interface BalanceDeltas {
+  [account: string]: { [token: string]: string }
+}
+
+/**
+ * Computes how serialized instructions would change token balances, without applying them to
+ * any state: `create` distributions credit their recipients, `transfer` moves an amount from one
+ * account to another and `burn` debits the burning account. Addresses are lowercased, `this`
+ * resolves to the program address and balances that do not change are left out.
+ *
+ * @param {unknown[]} instructions - The serialized instructions, as found in `Outputs`.
+ * @param {EmulatorContext} context - The caller and the address `this` resolves to.
+ * @returns {BalanceDeltas} The balance changes.
+ * @throws {ValidationError} Throws if an instruction is malformed or names an invalid address.
+ *
+ * @example
+ * getBalanceDeltas(outputs.instructions, { caller, programAddress })
+ * // { '0xcaller...': { '0xpayment...': '-1000' }, ... }
+ */
+export function getBalanceDeltas(
+  instructions: unknown[],
+  context: EmulatorContext
+): BalanceDeltas {
+  const resolve = (value: unknown) =>
+    normalizeAddress(resolveAddress(value, context))
+  const totals = new Map<string, Map<string, bigint>>()
+  const add = (account: string, token: string, amount: bigint) => {
+    const tokens = totals.get(account) ?? new Map<string, bigint>()
+    tokens.set(token, (tokens.get(token) ?? BigInt(0)) + amount)
+    totals.set(account, tokens)
+  }
+
+  instructions.forEach((instruction) => {
+    const [kind, value]: [string, unknown] = singleEntry(
+      instruction,
+      'instruction'
+    )
+    if (kind === 'create') {
+      parseDistributions(value).forEach((dist) => {
+        if (dist.amount) {
+          add(resolve(dist.to), resolve(dist.programId), BigInt(dist.amount))
+        }
+      })
+    } else if (kind === 'transfer') {
+      const transfer = parseTransfer(value)
+      if (transfer.amount) {
+        const token = resolve(transfer.token)
+        const amount = BigInt(transfer.amount)
+        add(resolve(transfer.from), token, -amount)
+        add(resolve(transfer.to), token, amount)
+      }
+    } else if (kind === 'burn') {
+      const burn = parseBurn(value)
+      if (burn.amount) {
+        add(resolve(burn.from), resolve(burn.token), -BigInt(burn.amount))
+      }
+    }
+  })
+
+  const deltas: BalanceDeltas = {}
+  totals.forEach((tokens, account) => {
+    tokens.forEach((amount, token) => {
+      if (amount !== BigInt(0)) {
+        deltas[account] = { ...deltas[account], [token]: amount.toString() }
+      }
+    })
+  })
+  return deltas
+}
+
+/**
+ * Returns the address an account is stored at. The owner address of a program account is the
+ * account that deployed it, so program accounts are found by the address in their account type.
+ *
+ * @param {Account} account - The account.
+ * @returns {string} The lowercased program address, or owner address of a user account.
+ * @throws {ValidationError} Throws if the address is missing or malformed.
+ */
+export function getAccountAddress(account: Account): string {
+  const accountType = account.accountType as unknown
+  if (accountType && typeof accountType === 'object') {
+    const { Program, program } = accountType as Record<string, unknown>
+    return normalizeAddress(Program ?? program, 'accountType.Program')
+  }
+  return normalizeAddress(account.ownerAddress, 'ownerAddress')
+}
+
+/**
+ * A token distribution of a `create` instruction. Addresses are left as serialized, so they can
+ * be resolved against the execution context.
+ */
+interface ParsedDistribution {
+  programId: unknown
+  to: unknown
+  amount: string | null
+  tokenIds: string[]
+  updateFields: unknown[]
+}
+
+interface ParsedTransfer {
+  token: unknown
+  from: unknown
+  to: unknown
+  amount: string | null
+  ids: string[]
+}
+
+interface ParsedBurn {
+  token: unknown
+  from: unknown
+  amount: string | null
+  tokenIds: string[]
+}
+
+const STATUSES: readonly Status[] = ['locked', 'free']
+
+const amountOf = (json: unknown, context: string) =>
+  nullable(json, (value) => expectString(value, context))
+
+function parseDistributions(json: unknown): ParsedDistribution[] {
+  const { distribution } = expectObject(json, 'create')
+  return expectArray(distribution ?? [], 'create.distribution').map((item) => {
+    const { programId, to, amount, tokenIds, updateFields } = expectObject(
+      item,
+      'create.distribution'
+    )
+    return {
+      programId: programId ?? THIS,
+      to,
+      amount: amountOf(amount, 'create.distribution.amount'),
+      tokenIds: expectStringArray(
+        tokenIds ?? [],
+        'create.distribution.tokenIds'
+      ),
+      updateFields: expectArray(
+        updateFields ?? [],
+        'create.distribution.updateFields'
+      ),
+    }
+  })
+}
+
+function parseTransfer(json: unknown): ParsedTransfer {
+  const { token, from, to, amount, ids } = expectObject(json, 'transfer')
+  return {
+    token,
+    from,
+    to,
+    amount: amountOf(amount, 'transfer.amount'),
+    ids: expectStringArray(ids ?? [], 'transfer.ids'),
+  }
+}
+
+function parseBurn(json: unknown): ParsedBurn {
+  const { token, from, amount, tokenIds } = expectObject(json, 'burn')
+  return {
+    token,
+    from,
+    amount: amountOf(amount, 'burn.amount'),
+    tokenIds: expectStringArray(tokenIds ?? [], 'burn.tokenIds'),
+  }
+}
+
+function applyCreate(
+  state: Map<string, Account>,
+  json: unknown,
+  context: EmulatorContext
+) {
+  const { programId, programOwner } = expectObject(json, 'create')
+  const programAccount = ensureAccount(
+    state,
+    resolveAddress(programId ?? THIS, context),
+    true
+  )
+  if (programOwner) {
+    programAccount.ownerAddress = expectString(
+      programOwner,
+      'create.programOwner'
+    ) as unknown as Account['ownerAddress']
+  }
+
+  parseDistributions(json).forEach((dist) => {
+    const tokenAddress = resolveAddress(dist.programId, context)
+    const recipient = resolveAddress(dist.to, context)
+    const token = ensureToken(state, recipient, tokenAddress)
+
+    if (dist.amount) {
+      token.balance = formatBigIntToHex(
+        BigInt(token.balance) + BigInt(dist.amount)
+      )
+    }
+    token.tokenIds.push(...dist.tokenIds)
+    dist.updateFields.forEach((update) => applyTokenField(token, update))
+  })
+}
+
+function toEmulatorLog(json: unknown, context: EmulatorContext): EmulatorLog {
+  const { event, fields } = expectObject(json, 'log')
+  return {
+    programAddress: normalizeAddress(context.programAddress),
+    event: expectString(event, 'log.event'),
+    fields: expectArray(fields, 'log.fields') as LogField[],
+  }
+}
+
+function applyUpdate(
+  state: Map<string, Account>,
+  json: unknown,
+  context: EmulatorContext
+) {
+  const { updates } = expectObject(json, 'update')
+  expectArray(updates ?? [], 'update.updates').forEach(
+    (tokenOrProgramUpdate) => {
+      const [kind, value]: [string, unknown] = singleEntry(
+        tokenOrProgramUpdate,
+        'update'
+      )
+      if (kind === 'tokenUpdate') {
+        const {
+          account,
+          token,
+          updates: fields,
+        } = expectObject(value, 'tokenUpdate')
+        const target = ensureToken(
+          state,
+          resolveAddress(account, context),
+          resolveAddress(token, context)
+        )
+        expectArray(fields, 'tokenUpdate.updates').forEach((field) =>
+          applyTokenField(target, field)
+        )
+      } else if (kind === 'programUpdate') {
+        const { account, updates: fields } = expectObject(
+          value,
+          'programUpdate'
+        )
+        const target = ensureAccount(
+          state,
+          resolveAddress(account, context),
+          true
+        )
+        expectArray(fields, 'programUpdate.updates').forEach((field) =>
+          applyProgramField(target, field)
+        )
+      } else {
+        throw malformed('update', 'one of tokenUpdate, programUpdate', kind)
+      }
+    }
+  )
+}
+
+function applyTransfer(
+  state: Map<string, Account>,
+  json: unknown,
+  context: EmulatorContext
+) {
+  const transfer = parseTransfer(json)
+  const tokenAddress = resolveAddress(transfer.token, context)
+  const from = resolveAddress(transfer.from, context)
+  const to = resolveAddress(transfer.to, context)
+  const source = ensureToken(state, from, tokenAddress)
+  const destination = ensureToken(state, to, tokenAddress)
+
+  if (transfer.amount) {
+    const amount = BigInt(transfer.amount)
+    const balance = BigInt(source.balance)
+    if (balance < amount) {
+      throw new StateError(
+        `Insufficient balance of ${tokenAddress} in ${from}: ${source.balance}`,
+        { account: from, token: tokenAddress }
+      )
+    }
+    source.balance = formatBigIntToHex(balance - amount)
+    destination.balance = formatBigIntToHex(
+      BigInt(destination.balance) + amount
+    )
+  }
+
+  transfer.ids.forEach((id) => {
+    removeTokenId(source, id, from)
+    destination.tokenIds.push(id)
+  })
+}
+
+function applyBurn(
+  state: Map<string, Account>,
+  json: unknown,
+  context: EmulatorContext
+) {
+  const burn = parseBurn(json)
+  const tokenAddress = resolveAddress(burn.token, context)
+  const from = resolveAddress(burn.from, context)
+  const token = ensureToken(state, from, tokenAddress)
+
+  if (burn.amount) {
+    const amount = BigInt(burn.amount)
+    const balance = BigInt(token.balance)
+    if (balance < amount) {
+      throw new StateError(
+        `Insufficient balance of ${tokenAddress} in ${from} to burn: ${token.balance}`,
+        { account: from, token: tokenAddress }
+      )
+    }
+    token.balance = formatBigIntToHex(balance - amount)
+  }
+
+  burn.tokenIds.forEach((id) => removeTokenId(token, id, from))
+}
+
+function applyTokenField(token: Token, json: unknown) {
+  const { field: name, value } = expectObject(json, 'token update field')
+  const field = expectString(name, 'token update field.field')
+  const [op, action]: [string, unknown] = singleEntry(
+    unwrapFieldValue(field, value),
+    `${field} update`
+  )
+
+  switch (field) {
+    case 'metadata':
+      token.metadata = applyMapAction(token.metadata, field, op, action)
+      break
+    case 'data':
+      token.data = applyMapAction(token.data, field, op, action)
+      break
+    case 'approvals':
+      applyApprovalsAction(token, op, action)
+      break
+    case 'allowance':
+      applyAllowanceAction(token, op, action)
+      break
+    case 'tokenIds':
+      applyTokenIdsAction(token, op, action)
+      break
+    case 'status':
+      token.status = expectOneOf(action, STATUSES, 'status')
+      break
+    default:
+      throw malformed(
+        'token update field',
+        'one of metadata, data, approvals, allowance, tokenIds, status',
+        field
+      )
+  }
+}
+
+function applyProgramField(account: Account, json: unknown) {
+  const { field: name, value } = expectObject(json, 'program update field')
+  const field = expectString(name, 'program update field.field')
+  let fieldValue = unwrapFieldValue(field, value)
+  if (field === 'linkedPrograms') {
+    const { linkedProgramValue } = expectObject(fieldValue, `${field} value`)
+    fieldValue = linkedProgramValue ?? fieldValue
+  }
+  const [op, action]: [string, unknown] = singleEntry(
+    fieldValue,
+    `${field} update`
+  )
+
+  switch (field) {
+    case 'metadata':
+      account.programAccountMetadata = applyMapAction(
+        account.programAccountMetadata,
+        field,
+        op,
+        action
+      )
+      break
+    case 'data':
+      account.programAccountData = applyMapAction(
+        account.programAccountData,
+        field,
+        op,
+        action
+      )
+      break
+    case 'linkedPrograms': {
+      const linked = account.programAccountLinkedPrograms as unknown[]
+      const addresses = (
+        op === 'extend' ? expectArray(action, `${field} ${op}`) : [action]
+      ).map((item) => normalizeAddress(item, `${field} ${op}`))
+      if (op === 'remove') {
+        account.programAccountLinkedPrograms = linked.filter(
+          (item) => !addresses.includes(normalizeAddress(item))
+        ) as Account['programAccountLinkedPrograms']
+      } else if (op === 'insert' || op === 'extend') {
+        linked.push(...addresses)
+      } else {
+        throw malformed('linkedPrograms action', 'insert, extend or remove', op)
+      }
+      break
+    }
+    case 'status':
+      account.status = expectOneOf(action, STATUSES, 'status')
+      break
+    default:
+      throw malformed(
+        'program update field',
+        'one of metadata, data, linkedPrograms, status',
+        field
+      )
+  }
+}
+
+function applyMapAction(
+  map: Record<string, string>,
+  field: string,
+  op: string,
+  value: unknown
+): Record<string, string> {
+  const next = { ...map }
+  const context = `${field} ${op}`
+  switch (op) {
+    case 'insert': {
+      const [key, item] = expectPair(value, context)
+      next[expectString(key, context)] = expectString(item, context)
+      break
+    }
+    case 'extend':
+      Object.assign(next, expectStringMap(value, context))
+      break
+    case 'remove':
+      delete next[expectString(value, context)]
+      break
+    default:
+      throw malformed(`${field} action`, 'insert, extend or remove', op)
+  }
+  return next
+}
+
+function applyApprovalsAction(token: Token, op: string, value: unknown) {
+  const context = `approvals ${op}`
+  switch (op) {
+    case 'insert': {
+      const [address, ids] = expectPair(value, context)
+      token.approvals[normalizeAddress(address, context)] = expectStringArray(
+        ids,
+        context
+      )
+      break
+    }
+    case 'extend':
+      expectArray(value, context).forEach((item) => {
+        const [address, ids] = expectPair(item, context)
+        token.approvals[normalizeAddress(address, context)] = expectStringArray(
+          ids,
+          context
+        )
+      })
+      break
+    case 'remove': {
+      const [key, ids] = expectPair(value, context)
+      const address = normalizeAddress(key, context)
+      const removed = expectStringArray(ids, context)
+      token.approvals[address] = (token.approvals[address] ?? []).filter(
+        (id) => !removed.includes(id)
+      )
+      break
+    }
+    case 'revoke':
+      delete token.approvals[normalizeAddress(value, context)]
+      break
+    default:
+      throw malformed(
+        'approvals action',
+        'insert, extend, remove or revoke',
+        op
+      )
+  }
+}
+
+function applyAllowanceAction(token: Token, op: string, value: unknown) {
+  const context = `allowance ${op}`
+  switch (op) {
+    case 'insert': {
+      const [address, amount] = expectPair(value, context)
+      token.allowance[normalizeAddress(address, context)] = expectString(
+        amount,
+        context
+      )
+      break
+    }
+    case 'extend':
+      expectArray(value, context).forEach((item) => {
+        const [address, amount] = expectPair(item, context)
+        token.allowance[normalizeAddress(address, context)] = expectString(
+          amount,
+          context
+        )
+      })
+      break
+    case 'remove': {
+      const [key, amounts] = expectPair(value, context)
+      const address = normalizeAddress(key, context)
+      const spent = expectStringArray(amounts, context).reduce(
+        (total, amount) => total + BigInt(amount),
+        BigInt(0)
+      )
+      const allowance = BigInt(token.allowance[address] ?? '0x0')
+      if (allowance < spent) {
+        throw new StateError(
+          `Insufficient allowance of ${token.programId} for ${address}: ${
+            token.allowance[address] ?? '0x0'
+          }`,
+          {
+            account: normalizeAddress(token.ownerId),
+            token: normalizeAddress(token.programId),
+          }
+        )
+      }
+      token.allowance[address] = formatBigIntToHex(allowance - spent)
+      break
+    }
+    case 'revoke':
+      delete token.allowance[normalizeAddress(value, context)]
+      break
+    default:
+      throw malformed(
+        'allowance action',
+        'insert, extend, remove or revoke',
+        op
+      )
+  }
+}
+
+function applyTokenIdsAction(token: Token, op: string, value: unknown) {
+  const context = `tokenIds ${op}`
+  switch (op) {
+    case 'push':
+      token.tokenIds.push(expectString(value, context))
+      break
+    case 'extend':
+      token.tokenIds.push(...expectStringArray(value, context))
+      break
+    case 'insert': {
+      const [index, id] = expectPair(value, context)
+      token.tokenIds.splice(
+        expectNumber(index, context),
+        0,
+        expectString(id, context)
+      )
+      break
+    }
+    case 'pop':
+      token.tokenIds.pop()
+      break
+    case 'remove': {
+      const id = expectString(value, context)
+      token.tokenIds = token.tokenIds.filter((item) => item !== id)
+      break
+    }
+    default:
+      throw malformed(
+        'tokenIds action',
+        'push, extend, insert, pop or remove',
+        op
+      )
+  }
+}
+
+/**
+ * Field values are serialized as `{ [kind]: action }`, where the action may itself be
+ * wrapped in a value class keyed by the field name (e.g. `{ metadata: { extend: ... } }`).
+ */
+function unwrapFieldValue(field: string, json: unknown): unknown {
+  const [, action]: [string, unknown] = singleEntry(json, `${field} value`)
+  if (action && typeof action === 'object' && field in action) {
+    return (action as Record<string, unknown>)[field]
+  }
+  return action
+}
+
+function removeTokenId(token: Token, id: string, owner: string) {
+  const index = token.tokenIds.indexOf(id)
+  if (index === -1) {
+    throw new StateError(
+      `Token id ${id} of ${token.programId} not owned by ${owner}`,
+      { account: owner, token: normalizeAddress(token.programId) }
+    )
+  }
+  token.tokenIds.splice(index, 1)
+}
+
+function createAccount(address: string, isProgram = false): Account {
+  const key = normalizeAddress(address)
+  return {
+    accountType: isProgram ? { Program: key } : 'user',
+    nonce: ZERO_VALUE,
+    ownerAddress: key,
+    programAccountData: {},
+    programAccountLinkedPrograms: [],
+    programAccountMetadata: {},
+    programNamespace: null,
+    programs: {},
+  } as unknown as Account
+}
+
+function ensureAccount(
+  state: Map<string, Account>,
+  address: string,
+  isProgram = false
+): Account {
+  const key = normalizeAddress(address)
+  let account = state.get(key)
+  if (!account) {
+    account = createAccount(key, isProgram)
+    state.set(key, account)
+  }
+  return account
+}
+
+function ensureToken(
+  state: Map<string, Account>,
+  address: string,
+  tokenAddress: string
+): Token {
+  const account = ensureAccount(state, address)
+  const key = normalizeAddress(tokenAddress)
+  if (!account.programs[key]) {
+    account.programs[key] = {
+      allowance: {},
+      approvals: {},
+      balance: ZERO_VALUE,
+      data: {},
+      metadata: {},
+      ownerId: normalizeAddress(address),
+      programId: key,
+      status: 'free',
+      tokenIds: [],
+    } as unknown as Token
+  }
+  return account.programs[key]
+}
+
+function resolveAddress(value: unknown, context: EmulatorContext): string {
+  if (value === THIS) {
+    return context.programAddress
+  }
+  if (value === undefined || value === null) {
+    throw malformed('instruction', 'an address', value)
+  }
+  if (typeof value === 'object' && 'namespace' in (value as object)) {
+    throw new ValidationError('Namespaces are not supported by the emulator', [
+      { field: 'namespace', message: 'is not supported by the emulator' },
+    ])
+  }
+  return normalizeAddress(value)
+}
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value))
+}
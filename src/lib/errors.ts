@@ -0,0 +1,180 @@
+/**
+ * Base class of every error the SDK and `lasrctl` throw on purpose. Catch `LasrError` to
+ * separate expected failures from bugs, or one of its subclasses to handle a specific failure.
+ */
+export class LasrError extends Error {
+  cause?: unknown
+
+  constructor(message: string, options: { cause?: unknown } = {}) {
+    super(message)
+    this.name = 'LasrError'
+    if (options.cause !== undefined) {
+      this.cause = options.cause
+    }
+  }
+}
+
+/**
+ * Thrown when a JSON-RPC request fails. `code` and `data` are set when the node answered with a
+ * JSON-RPC error, `status` when it answered with a failing HTTP status. Neither is set when the
+ * request timed out.
+ */
+export class RpcError extends LasrError {
+  code?: number
+  data?: unknown
+  status?: number
+
+  constructor(
+    message: string,
+    details: { code?: number; data?: unknown; status?: number } = {}
+  ) {
+    super(message)
+    this.name = 'RpcError'
+    this.code = details.code
+    this.data = details.data
+    this.status = details.status
+  }
+}
+
+/**
+ * A single field that failed validation, along with the reason it failed. `field` is empty
+ * when the value as a whole is invalid.
+ */
+export interface ValidationFieldError {
+  field: string
+  message: string
+}
+
+/**
+ * Thrown when a value does not have the expected shape: builder arguments, parsed instructions,
+ * required values or `transactionInputs`. Every failing field is listed in `fields`.
+ */
+export class ValidationError extends LasrError {
+  fields: ValidationFieldError[]
+
+  constructor(message: string, fields: ValidationFieldError[] = []) {
+    super(message)
+    this.name = 'ValidationError'
+    this.fields = fields
+  }
+}
+
+/**
+ * Thrown when a transaction cannot be signed, e.g. because the private key is invalid, or when
+ * no signer can be recovered from a malformed signature.
+ */
+export class SigningError extends LasrError {
+  constructor(message: string, options: { cause?: unknown } = {}) {
+    super(message, options)
+    this.name = 'SigningError'
+  }
+}
+
+/**
+ * Thrown when a program cannot be executed: the operation is unknown or the program did not
+ * return any instructions. `op` is the operation that was called.
+ */
+export class ProgramExecutionError extends LasrError {
+  op?: string
+
+  constructor(message: string, details: { op?: string; cause?: unknown } = {}) {
+    super(message, { cause: details.cause })
+    this.name = 'ProgramExecutionError'
+    this.op = details.op
+  }
+}
+
+/**
+ * Thrown by the emulator when instructions cannot be applied to its accounts: a balance or an
+ * allowance is too low, or a token id is not held by the account. `account` is the account the
+ * instruction debits and `token` the program that issued the token.
+ */
+export class StateError extends LasrError {
+  account: string
+  token: string
+
+  constructor(message: string, details: { account: string; token: string }) {
+    super(message)
+    this.name = 'StateError'
+    this.account = details.account
+    this.token = details.token
+  }
+}
+
+/**
+ * Thrown when a process started by `lasrctl` (`lasr_cli`, the test scripts) fails.
+ * `exitCode` is unset when the process could not be started at all.
+ */
+export class CliProcessError extends LasrError {
+  command: string
+  exitCode?: number
+  stdout: string
+  stderr: string
+
+  constructor(
+    message: string,
+    details: {
+      command: string
+      exitCode?: number
+      stdout?: string
+      stderr?: string
+      cause?: unknown
+    }
+  ) {
+    super(message, { cause: details.cause })
+    this.name = 'CliProcessError'
+    this.command = details.command
+    this.exitCode = details.exitCode
+    this.stdout = details.stdout ?? ''
+    this.stderr = details.stderr ?? ''
+  }
+}
+
+/**
+ * Thrown when `lasrctl build` cannot bundle a program, or the bundle does not start as a
+ * program. `errors` holds the messages reported by the bundler.
+ */
+export class BuildError extends LasrError {
+  entry: string
+  errors: string[]
+
+  constructor(
+    message: string,
+    details: { entry: string; errors?: string[]; cause?: unknown }
+  ) {
+    super(message, { cause: details.cause })
+    this.name = 'BuildError'
+    this.entry = details.entry
+    this.errors = details.errors ?? []
+  }
+}
+
+/**
+ * A single expectation a program run did not meet. `path` points into the expectations, e.g.
+ * `instructions[0].transfer.amount`, and `expected` and `actual` hold the values that differ.
+ */
+export interface ExpectationMismatch {
+  path: string
+  message: string
+  expected?: unknown
+  actual?: unknown
+}
+
+/**
+ * Thrown by `lasrctl test` when a program's output does not match the expectations declared in
+ * its input file. `input` is the input file and `mismatches` lists every difference found.
+ */
+export class ExpectationError extends LasrError {
+  input: string
+  mismatches: ExpectationMismatch[]
+
+  constructor(
+    message: string,
+    details: { input: string; mismatches: ExpectationMismatch[] }
+  ) {
+    super(message)
+    this.name = 'ExpectationError'
+    this.input = details.input
+    this.mismatches = details.mismatches
+  }
+}
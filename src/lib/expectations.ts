@@ -0,0 +1,350 @@
+import { ComputeInputs, LogField } from '@/lib/types'
+import { THIS } from '@/lib/consts'
+import { BalanceDeltas, getBalanceDeltas } from '@/lib/emulator'
+import { ExpectationMismatch, ValidationError } from '@/lib/errors'
+
+/**
+ * An event a program is expected to emit. Fields that are left out are not checked.
+ */
+export interface ExpectedLog {
+  event: string
+  fields?: LogField[]
+}
+
+/**
+ * What a program run is expected to produce, declared under `expect` in a test input file.
+ * Expectations that are left out are not checked, but a run is always expected to succeed
+ * unless `error` is set.
+ *
+ * - `error`: the run must fail, with an error message containing this text.
+ * - `instructions`: the serialized instructions. With `instructionsMatch: 'exact'`, the default,
+ *   they must be equal. With `'partial'`, each expected instruction only lists the fields to
+ *   check, and the program may return more instructions after them. Hex values such as
+ *   addresses and amounts match regardless of case and zero padding.
+ * - `balanceDeltas`: the net balance changes per account and token program, as signed decimal or
+ *   hex amounts. `this` stands for the program's address. Unlisted balances are not checked.
+ * - `logs`: the events emitted by `log` instructions, in order.
+ */
+export interface TestExpectations {
+  error?: string
+  instructions?: Record<string, any>[]
+  instructionsMatch?: 'exact' | 'partial'
+  balanceDeltas?: { [account: string]: { [token: string]: string } }
+  logs?: ExpectedLog[]
+}
+
+/**
+ * The contents of a test input file: the `ComputeInputs` handed to the program, and the
+ * expectations its output is checked against.
+ */
+export interface TestInput {
+  computeInputs: ComputeInputs
+  expect?: TestExpectations
+}
+
+/**
+ * Separates the expectations of a test input file from the `ComputeInputs`, so the program
+ * never sees them.
+ *
+ * @param {unknown} json - The parsed contents of the input file.
+ * @returns {TestInput} The compute inputs and the expectations, if any were declared.
+ * @throws {ValidationError} Throws if the file is not an object or `expect` is malformed.
+ *
+ * @example
+ * const { computeInputs, expect } = parseTestInput(JSON.parse(file))
+ */
+export function parseTestInput(json: unknown): TestInput {
+  if (!json || typeof json !== 'object' || Array.isArray(json)) {
+    throw new ValidationError('A test input must be a JSON object', [
+      { field: '', message: 'must be an object' },
+    ])
+  }
+
+  const { expect, ...computeInputs } = json as Record<string, unknown>
+  if (expect === undefined) {
+    return { computeInputs: computeInputs as unknown as ComputeInputs }
+  }
+  if (!expect || typeof expect !== 'object' || Array.isArray(expect)) {
+    throw new ValidationError('`expect` must be an object', [
+      { field: 'expect', message: 'must be an object' },
+    ])
+  }
+
+  const { error, instructions, instructionsMatch, balanceDeltas, logs } =
+    expect as TestExpectations
+  const fields = [
+    error !== undefined && typeof error !== 'string' && 'expect.error',
+    instructions !== undefined &&
+      !Array.isArray(instructions) &&
+      'expect.instructions',
+    instructionsMatch !== undefined &&
+      !['exact', 'partial'].includes(instructionsMatch) &&
+      'expect.instructionsMatch',
+    balanceDeltas !== undefined &&
+      (typeof balanceDeltas !== 'object' || Array.isArray(balanceDeltas)) &&
+      'expect.balanceDeltas',
+    logs !== undefined && !Array.isArray(logs) && 'expect.logs',
+  ].filter((field): field is string => Boolean(field))
+  if (fields.length > 0) {
+    throw new ValidationError(
+      `Malformed expectations: ${fields.join(', ')}`,
+      fields.map((field) => ({ field, message: 'has the wrong type' }))
+    )
+  }
+
+  return {
+    computeInputs: computeInputs as unknown as ComputeInputs,
+    expect: expect as TestExpectations,
+  }
+}
+
+/**
+ * Checks the output of a program run against its expectations.
+ *
+ * @param {TestExpectations} expect - The expectations declared in the input file.
+ * @param {unknown} output - The parsed output of the program: its `Outputs` JSON, or the error
+ *                           envelope written by `runProgram`.
+ * @param {ComputeInputs} computeInputs - The inputs the program ran with, which determine the
+ *                                        caller and the address `this` stands for.
+ * @returns {ExpectationMismatch[]} Every difference found. The run passed if there are none.
+ *
+ * @example
+ * const mismatches = checkExpectations({ error: 'Insufficient' }, output, computeInputs)
+ */
+export function checkExpectations(
+  expect: TestExpectations,
+  output: unknown,
+  computeInputs: ComputeInputs
+): ExpectationMismatch[] {
+  const mismatches: ExpectationMismatch[] = []
+  const result = (output ?? {}) as {
+    error?: { message?: string }
+    instructions?: Record<string, any>[]
+  }
+
+  if (result.error) {
+    const message = String(result.error.message)
+    if (expect.error === undefined) {
+      mismatches.push({
+        path: 'error',
+        message: 'expected the program to succeed, but it failed',
+        actual: message,
+      })
+    } else if (!message.includes(expect.error)) {
+      mismatches.push({
+        path: 'error',
+        message: 'the program failed with a different error',
+        expected: expect.error,
+        actual: message,
+      })
+    }
+    return mismatches
+  }
+  if (expect.error !== undefined) {
+    mismatches.push({
+      path: 'error',
+      message: 'expected the program to fail, but it succeeded',
+      expected: expect.error,
+    })
+    return mismatches
+  }
+  if (!Array.isArray(result.instructions)) {
+    mismatches.push({
+      path: 'instructions',
+      message: 'the program did not return any instructions',
+      actual: output,
+    })
+    return mismatches
+  }
+
+  const instructions = result.instructions
+  if (expect.instructions) {
+    compare(
+      expect.instructions,
+      instructions,
+      'instructions',
+      expect.instructionsMatch === 'partial',
+      mismatches
+    )
+  }
+
+  if (expect.logs) {
+    const logs = instructions
+      .filter((instruction) => 'log' in instruction)
+      .map((instruction) => instruction.log)
+    if (logs.length !== expect.logs.length) {
+      mismatches.push({
+        path: 'logs',
+        message: `expected ${expect.logs.length} events, got ${logs.length}`,
+        expected: expect.logs.map((log) => log.event),
+        actual: logs.map((log) => log?.event),
+      })
+    } else {
+      compare(expect.logs, logs, 'logs', true, mismatches)
+    }
+  }
+
+  if (expect.balanceDeltas) {
+    const context = {
+      caller: computeInputs.transaction.from,
+      programAddress: computeInputs.transaction.to,
+    }
+    let deltas: BalanceDeltas
+    try {
+      deltas = getBalanceDeltas(instructions, context)
+    } catch (error) {
+      mismatches.push({
+        path: 'balanceDeltas',
+        message: `could not compute balance changes: ${
+          (error as Error).message
+        }`,
+      })
+      return mismatches
+    }
+
+    const resolve = (address: string) =>
+      (address === THIS ? context.programAddress : address).toLowerCase()
+    Object.entries(expect.balanceDeltas).forEach(([account, tokens]) => {
+      Object.entries(tokens).forEach(([token, amount]) => {
+        const path = `balanceDeltas.${account}.${token}`
+        let expected: bigint
+        try {
+          expected = parseSignedAmount(amount)
+        } catch (error) {
+          mismatches.push({
+            path,
+            message: 'is not a valid amount',
+            expected: amount,
+          })
+          return
+        }
+        const actual = BigInt(deltas[resolve(account)]?.[resolve(token)] ?? 0)
+        if (expected !== actual) {
+          mismatches.push({
+            path,
+            message: 'the balance changed by a different amount',
+            expected: expected.toString(),
+            actual: actual.toString(),
+          })
+        }
+      })
+    })
+  }
+
+  return mismatches
+}
+
+/**
+ * Formats mismatches for the terminal, one per line, followed by the expected and actual values.
+ *
+ * @param {ExpectationMismatch[]} mismatches - The mismatches to format.
+ * @returns {string} The formatted mismatches.
+ */
+export function formatMismatches(mismatches: ExpectationMismatch[]): string {
+  return mismatches
+    .map(({ path, message, expected, actual }) =>
+      [
+        `${path}: ${message}`,
+        expected !== undefined && `  expected: ${JSON.stringify(expected)}`,
+        actual !== undefined && `  actual:   ${JSON.stringify(actual)}`,
+      ]
+        .filter(Boolean)
+        .join('\n')
+    )
+    .join('\n')
+}
+
+// Amounts may be decimal or hex, with a leading minus sign for a decrease.
+function parseSignedAmount(amount: string): bigint {
+  const value = String(amount).trim()
+  return value.startsWith('-') ? -BigInt(value.slice(1)) : BigInt(value)
+}
+
+function compare(
+  expected: unknown,
+  actual: unknown,
+  path: string,
+  partial: boolean,
+  mismatches: ExpectationMismatch[]
+) {
+  if (Array.isArray(expected)) {
+    if (!Array.isArray(actual)) {
+      mismatches.push({ path, message: 'expected a list', expected, actual })
+      return
+    }
+    if (
+      partial
+        ? actual.length < expected.length
+        : actual.length !== expected.length
+    ) {
+      mismatches.push({
+        path,
+        message: `expected ${expected.length} items, got ${actual.length}`,
+        expected,
+        actual,
+      })
+      return
+    }
+    expected.forEach((item, index) =>
+      compare(item, actual[index], `${path}[${index}]`, partial, mismatches)
+    )
+    return
+  }
+
+  if (expected && typeof expected === 'object') {
+    if (!actual || typeof actual !== 'object' || Array.isArray(actual)) {
+      mismatches.push({ path, message: 'expected an object', expected, actual })
+      return
+    }
+    const expectedObject = expected as Record<string, unknown>
+    const actualObject = actual as Record<string, unknown>
+    Object.keys(expectedObject).forEach((key) => {
+      if (!(key in actualObject)) {
+        mismatches.push({
+          path: `${path}.${key}`,
+          message: 'is missing',
+          expected: expectedObject[key],
+        })
+      } else {
+        compare(
+          expectedObject[key],
+          actualObject[key],
+          `${path}.${key}`,
+          partial,
+          mismatches
+        )
+      }
+    })
+    if (!partial) {
+      Object.keys(actualObject)
+        .filter((key) => !(key in expectedObject))
+        .forEach((key) =>
+          mismatches.push({
+            path: `${path}.${key}`,
+            message: 'is not expected',
+            actual: actualObject[key],
+          })
+        )
+    }
+    return
+  }
+
+  if (!isSameValue(expected, actual)) {
+    mismatches.push({ path, message: 'differs', expected, actual })
+  }
+}
+
+// Hex strings, i.e. addresses and amounts, are compared by value, so case and zero padding do not
+// matter.
+function isSameValue(expected: unknown, actual: unknown) {
+  const hex = /^0x[0-9a-f]+$/i
+  if (
+    typeof expected === 'string' &&
+    typeof actual === 'string' &&
+    hex.test(expected) &&
+    hex.test(actual)
+  ) {
+    return BigInt(expected) === BigInt(actual)
+  }
+  return expected === actual
+}
@@ -0,0 +1,148 @@
+import { Account, ComputeInputs } from '@/lib/types'
+import { ZERO_VALUE } from '@/lib/consts'
+import { formatAmountToHex, formatBigIntToHex } from '@/lib/utils'
+import {
+  buildTransaction,
+  getSignerAddress,
+  signTransaction,
+} from '@/lib/versatus'
+import { ValidationError } from '@/lib/errors'
+import { getAccountAddress } from '@/lib/emulator'
+
+/**
+ * Describes the `ComputeInputs` to generate with `createComputeInputs`.
+ *
+ * - `programAddress`: the program being called, used as the transaction's `to` and, unless
+ *   `programId` is set, its `programId`. Both are lowercased like the addresses of the accounts.
+ * - `privateKey`: the key the transaction is signed with. `from` is derived from it, and is only
+ *   checked against it when given.
+ * - `value`: an amount of tokens, e.g. `1.5`, or a hex amount in the smallest unit, formatted with
+ *   `formatAmountToHex`. Defaults to 0.
+ * - `nonce`: the transaction nonce, as a number or a hex string. Defaults to one more than the
+ *   sender's nonce in `state`, or to 1.
+ * - `accountInfo`: the program account handed to the program, e.g. taken from an existing input
+ *   file. Defaults to the program's account in `state`, or to an empty program account owned by
+ *   the signer.
+ * - `state`: accounts to take the program account and the sender's nonce from, e.g.
+ *   `emulator.getAccounts()` after earlier transactions.
+ */
+export interface ComputeInputsOptions {
+  op: string
+  programAddress: string
+  privateKey: string
+  from?: string
+  programId?: string
+  transactionInputs?: string | Record<string, unknown> | unknown[]
+  contractInputs?: string | Record<string, unknown>
+  value?: number | string
+  nonce?: number | string | bigint
+  accountInfo?: Account
+  state?: Account[]
+}
+
+/**
+ * Generates the `ComputeInputs` a program receives for a call, with a transaction that is really
+ * signed, so it passes `verifyTransaction`. Write the result to a test input file, and add an
+ * `expect` block to check the program's output with `lasrctl test`.
+ *
+ * @param {ComputeInputsOptions} options - The call to generate inputs for.
+ * @returns {Promise<ComputeInputs>} The generated compute inputs.
+ * @throws {ValidationError} Throws if `from` does not match the private key, or the value or
+ *                           nonce is not a number.
+ * @throws {SigningError} Throws if the private key is invalid.
+ *
+ * @example
+ * const computeInputs = await createComputeInputs({
+ *   op: 'mint',
+ *   programAddress: '0x...',
+ *   privateKey,
+ *   value: 1.5,
+ *   transactionInputs: { amount: '10' },
+ * })
+ */
+export async function createComputeInputs(
+  options: ComputeInputsOptions
+): Promise<ComputeInputs> {
+  const from = getSignerAddress(options.privateKey)
+  if (options.from && options.from.toLowerCase() !== from.toLowerCase()) {
+    throw new ValidationError(
+      `The private key signs for ${from}, not ${options.from}`,
+      [{ field: 'from', message: 'must match the private key' }]
+    )
+  }
+
+  const transaction = buildTransaction(
+    {
+      from,
+      to: options.programAddress,
+      programId: (options.programId ?? options.programAddress).toLowerCase(),
+      op: options.op,
+      transactionInputs: toJsonString(options.transactionInputs ?? {}),
+      value: formatValue(options.value ?? 0),
+    },
+    formatNonce(
+      options.nonce ?? nextNonce(findAccount(options.state, from)?.nonce)
+    )
+  )
+
+  return {
+    accountInfo: clone(
+      options.accountInfo ??
+        findAccount(options.state, options.programAddress) ??
+        createProgramAccount(options.programAddress, from)
+    ),
+    contractInputs: toJsonString(options.contractInputs ?? ''),
+    op: options.op,
+    transaction: await signTransaction(transaction, options.privateKey),
+    version: 1,
+  }
+}
+
+const toJsonString = (value: unknown) =>
+  typeof value === 'string' ? value : JSON.stringify(value)
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value))
+
+// Accounts are found the way the emulator stores them: program accounts by their program address.
+const findAccount = (state: Account[] | undefined, address: string) =>
+  state?.find((account) => getAccountAddress(account) === address.toLowerCase())
+
+const nextNonce = (nonce: string | undefined) =>
+  nonce ? BigInt(nonce) + BigInt(1) : BigInt(1)
+
+function formatNonce(nonce: number | string | bigint): string {
+  const text = String(nonce).trim()
+  if (!/^(0x[0-9a-f]+|\d+)$/i.test(text)) {
+    throw new ValidationError(`Invalid nonce: ${nonce}`, [
+      { field: 'nonce', message: 'must be a non-negative integer' },
+    ])
+  }
+  return formatBigIntToHex(BigInt(text))
+}
+
+// formatAmountToHex turns anything it cannot parse into 0, which would hide typos.
+function formatValue(value: number | string): string {
+  const text = String(value).trim()
+  if (!/^(0x[0-9a-f]+|\d+(\.\d+)?|\.\d+)$/i.test(text)) {
+    throw new ValidationError(`Invalid value: ${value}`, [
+      {
+        field: 'value',
+        message: 'must be a non-negative amount or a hex string',
+      },
+    ])
+  }
+  return formatAmountToHex(text)
+}
+
+function createProgramAccount(programAddress: string, owner: string): Account {
+  return {
+    accountType: { Program: programAddress.toLowerCase() },
+    nonce: ZERO_VALUE,
+    ownerAddress: owner.toLowerCase(),
+    programAccountData: {},
+    programAccountLinkedPrograms: [],
+    programAccountMetadata: {},
+    programNamespace: null,
+    programs: {},
+  } as unknown as Account
+}
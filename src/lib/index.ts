@@ -3,7 +3,21 @@ import * as programs from './programs/index'
 import * as utils from './utils'
 import * as types from './types'
 import * as consts from './consts'
+import * as emulator from './emulator'
+import * as expectations from './expectations'
+import * as fixtures from './fixtures'
+import * as client from './client'
+import * as transport from './transport'
+import * as errors from './errors'
+import * as logger from './logger'
+import * as nonce from './nonce'
+import * as networks from './networks'
+import * as keystore from './keystore'
 
 export { programs, utils, types }
 export { versatus }
 export { consts }
+export { emulator, expectations, fixtures }
+export { client, transport }
+export { errors, logger, nonce }
+export { networks, keystore }
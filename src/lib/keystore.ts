@@ -0,0 +1,390 @@
+import crypto from 'crypto'
+import { promises as fsp } from 'fs'
+import path from 'path'
+import { Wallet, decryptKeystoreJson } from 'ethers'
+import { SigningError, ValidationError } from '@/lib/errors'
+
+const CIPHER = 'aes-256-gcm'
+const DEFAULT_SCRYPT_N = 131072
+
+/**
+ * An encrypted private key in the Ethereum v3 keystore layout. Keys written by `Keystore` are
+ * encrypted with AES-256-GCM under a scrypt-derived key, and `mac` holds the GCM auth tag.
+ * Keystores created by other Ethereum wallets (AES-128-CTR) can be decrypted too.
+ */
+export interface KeystoreV3 {
+  version: 3
+  id: string
+  address: string
+  crypto: {
+    cipher: string
+    ciphertext: string
+    cipherparams: { iv: string }
+    kdf: 'scrypt'
+    kdfparams: { dklen: number; n: number; p: number; r: number; salt: string }
+    mac: string
+  }
+}
+
+/**
+ * The contents of a keystore file: named accounts, and the one used when no name is given.
+ */
+export interface KeystoreFile {
+  defaultAccount?: string
+  accounts: { [name: string]: KeystoreV3 }
+}
+
+/**
+ * An account of a keystore, without its encrypted key.
+ */
+export interface KeystoreAccount {
+  name: string
+  address: string
+  isDefault: boolean
+}
+
+/**
+ * Options for encrypting private keys. Lowering `scryptN` makes encryption faster and
+ * easier to brute force; only do so for throwaway keys, e.g. in tests.
+ */
+export interface KeystoreOptions {
+  scryptN?: number
+}
+
+/**
+ * Encrypts a private key with a password.
+ *
+ * @param {string} privateKey - The private key, with or without `0x`.
+ * @param {string} password - The password to encrypt the key with.
+ * @param {KeystoreOptions} options - The scrypt cost.
+ * @returns {Promise<KeystoreV3>} The encrypted key.
+ * @throws {SigningError} Throws if the private key is invalid.
+ */
+export async function encryptPrivateKey(
+  privateKey: string,
+  password: string,
+  { scryptN = DEFAULT_SCRYPT_N }: KeystoreOptions = {}
+): Promise<KeystoreV3> {
+  const wallet = toWallet(privateKey)
+  const salt = crypto.randomBytes(32)
+  const iv = crypto.randomBytes(12)
+  const kdfparams = {
+    dklen: 32,
+    n: scryptN,
+    p: 1,
+    r: 8,
+    salt: salt.toString('hex'),
+  }
+  const derivedKey = await deriveKey(password, kdfparams)
+
+  const cipher = crypto.createCipheriv(CIPHER, derivedKey, iv)
+  const ciphertext = Buffer.concat([
+    cipher.update(Buffer.from(wallet.privateKey.slice(2), 'hex')),
+    cipher.final(),
+  ])
+
+  return {
+    version: 3,
+    id: crypto.randomUUID(),
+    address: wallet.address.slice(2).toLowerCase(),
+    crypto: {
+      cipher: CIPHER,
+      ciphertext: ciphertext.toString('hex'),
+      cipherparams: { iv: iv.toString('hex') },
+      kdf: 'scrypt',
+      kdfparams,
+      mac: cipher.getAuthTag().toString('hex'),
+    },
+  }
+}
+
+/**
+ * Decrypts an encrypted private key.
+ *
+ * @param {KeystoreV3} keystore - The encrypted key.
+ * @param {string} password - The password the key was encrypted with.
+ * @returns {Promise<string>} The private key, prefixed with `0x`.
+ * @throws {SigningError} Throws if the password is wrong or the keystore is corrupted.
+ * @throws {ValidationError} Throws if the keystore uses an unsupported cipher or KDF.
+ */
+export async function decryptKeystore(
+  keystore: KeystoreV3,
+  password: string
+): Promise<string> {
+  // Some wallets, ethers included, write the `crypto` field as `Crypto`.
+  const { cipher, kdf } =
+    keystore.crypto ??
+    (keystore as { Crypto?: KeystoreV3['crypto'] }).Crypto ??
+    {}
+  if (cipher === 'aes-128-ctr') {
+    return decryptKeystoreJson(JSON.stringify(keystore), password)
+      .then((account) => account.privateKey)
+      .catch((error) => {
+        throw new SigningError('Incorrect password or corrupted keystore', {
+          cause: error,
+        })
+      })
+  }
+  if (cipher !== CIPHER || kdf !== 'scrypt') {
+    throw new ValidationError(`Unsupported keystore: ${cipher} with ${kdf}`, [
+      { field: 'crypto.cipher', message: `must be ${CIPHER} or aes-128-ctr` },
+    ])
+  }
+
+  const { ciphertext, cipherparams, kdfparams, mac } = keystore.crypto
+  const derivedKey = await deriveKey(password, kdfparams)
+  let privateKey: string
+  try {
+    const decipher = crypto.createDecipheriv(
+      CIPHER,
+      derivedKey,
+      Buffer.from(cipherparams.iv, 'hex')
+    )
+    decipher.setAuthTag(Buffer.from(mac, 'hex'))
+    privateKey = Buffer.concat([
+      decipher.update(Buffer.from(ciphertext, 'hex')),
+      decipher.final(),
+    ]).toString('hex')
+  } catch (error) {
+    throw new SigningError('Incorrect password or corrupted keystore', {
+      cause: error,
+    })
+  }
+
+  return `0x${privateKey}`
+}
+
+/**
+ * A file of named accounts whose private keys are encrypted at rest. Keys are only decrypted
+ * on demand, and the file is never created implicitly: opening a missing keystore fails
+ * until an account is created or imported.
+ *
+ * @example
+ * const keystore = new Keystore('.lasr/wallet/keystore.json')
+ * const { address } = await keystore.createAccount('deployer', password)
+ * const privateKey = await keystore.getPrivateKey('deployer', password)
+ */
+export class Keystore {
+  readonly path: string
+  private options: KeystoreOptions
+
+  /**
+   * Constructs a keystore backed by the given file.
+   *
+   * @param {string} keystorePath - The path of the keystore file.
+   * @param {KeystoreOptions} options - The scrypt cost of keys added to the keystore.
+   */
+  constructor(keystorePath: string, options: KeystoreOptions = {}) {
+    this.path = path.resolve(keystorePath)
+    this.options = options
+  }
+
+  /**
+   * Checks whether the keystore file exists.
+   *
+   * @returns {Promise<boolean>} Whether the keystore has been created.
+   */
+  async exists(): Promise<boolean> {
+    return fsp
+      .access(this.path)
+      .then(() => true)
+      .catch(() => false)
+  }
+
+  /**
+   * Lists the accounts of the keystore.
+   *
+   * @returns {Promise<KeystoreAccount[]>} The accounts, in the order they were added.
+   * @throws {ValidationError} Throws if the keystore does not exist or cannot be parsed.
+   */
+  async listAccounts(): Promise<KeystoreAccount[]> {
+    const { defaultAccount, accounts } = await this.read()
+    return Object.entries(accounts).map(([name, keystore]) => ({
+      name,
+      address: `0x${keystore.address}`,
+      isDefault: name === defaultAccount,
+    }))
+  }
+
+  /**
+   * Looks up an account without decrypting its key.
+   *
+   * @param {string} name - The name of the account, or the default account when left out.
+   * @returns {Promise<KeystoreAccount>} The account.
+   * @throws {ValidationError} Throws if the keystore or the account does not exist.
+   */
+  async getAccount(name?: string): Promise<KeystoreAccount> {
+    const file = await this.read()
+    const accountName = this.resolveName(file, name)
+    return {
+      name: accountName,
+      address: `0x${file.accounts[accountName].address}`,
+      isDefault: accountName === file.defaultAccount,
+    }
+  }
+
+  /**
+   * Generates a new private key and adds it to the keystore, creating the keystore file if
+   * needed. The first account becomes the default account.
+   *
+   * @param {string} name - The name of the new account.
+   * @param {string} password - The password to encrypt the key with.
+   * @returns {Promise<KeystoreAccount>} The new account.
+   * @throws {ValidationError} Throws if an account with that name already exists.
+   */
+  async createAccount(
+    name: string,
+    password: string
+  ): Promise<KeystoreAccount> {
+    return this.importAccount(name, Wallet.createRandom().privateKey, password)
+  }
+
+  /**
+   * Adds an existing private key to the keystore, creating the keystore file if needed. The
+   * first account becomes the default account.
+   *
+   * @param {string} name - The name of the account.
+   * @param {string} privateKey - The private key, with or without `0x`.
+   * @param {string} password - The password to encrypt the key with.
+   * @returns {Promise<KeystoreAccount>} The imported account.
+   * @throws {ValidationError} Throws if an account with that name already exists.
+   * @throws {SigningError} Throws if the private key is invalid.
+   */
+  async importAccount(
+    name: string,
+    privateKey: string,
+    password: string
+  ): Promise<KeystoreAccount> {
+    const file = (await this.exists()) ? await this.read() : { accounts: {} }
+    if (!name) {
+      throw new ValidationError('An account name is required', [
+        { field: 'name', message: 'is required' },
+      ])
+    }
+    if (file.accounts[name]) {
+      throw new ValidationError(`Account "${name}" already exists`, [
+        { field: 'name', message: 'must be unique' },
+      ])
+    }
+
+    file.accounts[name] = await encryptPrivateKey(
+      privateKey,
+      password,
+      this.options
+    )
+    file.defaultAccount = file.defaultAccount ?? name
+    await this.write(file)
+
+    return {
+      name,
+      address: `0x${file.accounts[name].address}`,
+      isDefault: name === file.defaultAccount,
+    }
+  }
+
+  /**
+   * Decrypts the private key of an account.
+   *
+   * @param {string | undefined} name - The name of the account, or the default account when left out.
+   * @param {string} password - The password the key was encrypted with.
+   * @returns {Promise<string>} The private key, prefixed with `0x`.
+   * @throws {ValidationError} Throws if the keystore or the account does not exist.
+   * @throws {SigningError} Throws if the password is wrong.
+   */
+  async getPrivateKey(
+    name: string | undefined,
+    password: string
+  ): Promise<string> {
+    const file = await this.read()
+    return decryptKeystore(
+      file.accounts[this.resolveName(file, name)],
+      password
+    )
+  }
+
+  /**
+   * Makes an account the one used when no account name is given.
+   *
+   * @param {string} name - The name of the account.
+   * @throws {ValidationError} Throws if the keystore or the account does not exist.
+   */
+  async setDefaultAccount(name: string) {
+    const file = await this.read()
+    file.defaultAccount = this.resolveName(file, name)
+    await this.write(file)
+  }
+
+  private resolveName(file: KeystoreFile, name?: string): string {
+    const accountName = name ?? file.defaultAccount
+    if (!accountName || !file.accounts[accountName]) {
+      throw new ValidationError(
+        accountName
+          ? `No account named "${accountName}" in ${this.path}`
+          : `No default account in ${this.path}`,
+        [{ field: 'account', message: 'must name an account of the keystore' }]
+      )
+    }
+    return accountName
+  }
+
+  private async read(): Promise<KeystoreFile> {
+    let content: string
+    try {
+      content = await fsp.readFile(this.path, 'utf8')
+    } catch (error) {
+      throw new ValidationError(`No keystore found at ${this.path}`, [
+        { field: 'keystore', message: 'must point to a keystore file' },
+      ])
+    }
+
+    let file: KeystoreFile
+    try {
+      file = JSON.parse(content)
+    } catch (error) {
+      throw new ValidationError(`${this.path} is not valid JSON`, [
+        { field: 'keystore', message: 'must be valid JSON' },
+      ])
+    }
+    if (!file || typeof file.accounts !== 'object' || file.accounts === null) {
+      throw new ValidationError(`${this.path} is not a keystore file`, [
+        { field: 'accounts', message: 'must be an object' },
+      ])
+    }
+    return file
+  }
+
+  private async write(file: KeystoreFile) {
+    await fsp.mkdir(path.dirname(this.path), { recursive: true })
+    // Write to a temporary file first, so a crash never leaves a truncated keystore behind.
+    const tempPath = `${this.path}.${process.pid}.tmp`
+    await fsp.writeFile(tempPath, JSON.stringify(file, null, 2), {
+      mode: 0o600,
+    })
+    await fsp.rename(tempPath, this.path)
+  }
+}
+
+function toWallet(privateKey: string): Wallet {
+  try {
+    return new Wallet(
+      privateKey.startsWith('0x') ? privateKey : `0x${privateKey}`
+    )
+  } catch (error) {
+    throw new SigningError('Invalid private key', { cause: error })
+  }
+}
+
+function deriveKey(
+  password: string,
+  { dklen, n, p, r, salt }: KeystoreV3['crypto']['kdfparams']
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    crypto.scrypt(
+      password.normalize('NFKC'),
+      Buffer.from(salt, 'hex'),
+      dklen,
+      { N: n, r, p, maxmem: 256 * r * n },
+      (error, derivedKey) => (error ? reject(error) : resolve(derivedKey))
+    )
+  })
+}
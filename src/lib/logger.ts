@@ -0,0 +1,71 @@
+/**
+ * The levels a `Logger` can be limited to, from the most to the least verbose. `silent`
+ * turns logging off.
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent'
+
+/**
+ * Receives the diagnostics the SDK emits. Any object with these methods can be passed to
+ * `setLogger`, e.g. `console` itself or an instance of an application logger.
+ */
+export interface Logger {
+  debug(message: string, ...details: unknown[]): void
+  info(message: string, ...details: unknown[]): void
+  warn(message: string, ...details: unknown[]): void
+  error(message: string, ...details: unknown[]): void
+}
+
+const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error', 'silent']
+
+/**
+ * Creates a logger that writes messages at or above `level` to stderr. Nothing is written to
+ * stdout, since that is where programs write their outputs.
+ *
+ * @param {LogLevel} level - The least severe level that is written.
+ * @returns {Logger} The console logger.
+ *
+ * @example
+ * setLogger(createConsoleLogger('debug'))
+ */
+export function createConsoleLogger(level: LogLevel = 'warn'): Logger {
+  const threshold = LOG_LEVELS.indexOf(level)
+  const write =
+    (messageLevel: Exclude<LogLevel, 'silent'>) =>
+    (message: string, ...details: unknown[]) => {
+      if (LOG_LEVELS.indexOf(messageLevel) >= threshold) {
+        console.error(`[${messageLevel}] ${message}`, ...details)
+      }
+    }
+
+  return {
+    debug: write('debug'),
+    info: write('info'),
+    warn: write('warn'),
+    error: write('error'),
+  }
+}
+
+/**
+ * A logger that drops every message.
+ */
+export const silentLogger: Logger = createConsoleLogger('silent')
+
+let logger: Logger = createConsoleLogger()
+
+/**
+ * Replaces the logger the SDK writes to. By default warnings and errors are written to stderr.
+ *
+ * @param {Logger} nextLogger - The logger to use from now on, e.g. `silentLogger`.
+ */
+export function setLogger(nextLogger: Logger) {
+  logger = nextLogger
+}
+
+/**
+ * Returns the logger the SDK currently writes to.
+ *
+ * @returns {Logger} The current logger.
+ */
+export function getLogger(): Logger {
+  return logger
+}
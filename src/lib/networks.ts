@@ -0,0 +1,120 @@
+import { NETWORK, NetworkProfile } from '@/lib/types'
+import {
+  FAUCET_URL,
+  LASR_RPC_URL_STABLE,
+  LASR_RPC_URL_UNSTABLE,
+  VERSE_PROGRAM_ADDRESS,
+  VIPFS_URL,
+  VIPFS_URL_UNSTABLE,
+} from '@/lib/consts'
+import { ValidationError } from '@/lib/errors'
+
+/**
+ * The profiles every project starts with. `local` points at a node running on this machine,
+ * e.g. a stand-in node for tests.
+ */
+export const BUILT_IN_NETWORKS: { [network: string]: NetworkProfile } = {
+  stable: {
+    rpcUrl: LASR_RPC_URL_STABLE,
+    vipfsAddress: VIPFS_URL,
+    faucetUrl: FAUCET_URL,
+    explorerUrl: 'https://faucet.versatus.io',
+    verseProgramAddress: VERSE_PROGRAM_ADDRESS,
+  },
+  test: {
+    rpcUrl: LASR_RPC_URL_UNSTABLE,
+    vipfsAddress: VIPFS_URL_UNSTABLE,
+    faucetUrl: FAUCET_URL,
+    explorerUrl: 'https://faucet.versatus.io',
+    verseProgramAddress: VERSE_PROGRAM_ADDRESS,
+  },
+  // `lasrctl deploy` used to call the test network `unstable`.
+  unstable: {
+    rpcUrl: LASR_RPC_URL_UNSTABLE,
+    vipfsAddress: VIPFS_URL_UNSTABLE,
+    faucetUrl: FAUCET_URL,
+    explorerUrl: 'https://faucet.versatus.io',
+    verseProgramAddress: VERSE_PROGRAM_ADDRESS,
+  },
+  local: {
+    rpcUrl: 'http://127.0.0.1:9292',
+    vipfsAddress: '127.0.0.1:5001',
+    verseProgramAddress: VERSE_PROGRAM_ADDRESS,
+  },
+}
+
+let networks: { [network: string]: NetworkProfile } = { ...BUILT_IN_NETWORKS }
+
+/**
+ * Adds network profiles, or overrides fields of existing ones. A new profile must at least set
+ * `rpcUrl` and `vipfsAddress`; the VERSE program address defaults to the one of `stable`.
+ *
+ * @param {{ [network: string]: Partial<NetworkProfile> }} profiles - The profiles keyed by network name.
+ * @throws {ValidationError} Throws if a new profile is missing `rpcUrl` or `vipfsAddress`.
+ *
+ * @example
+ * registerNetworks({ devnet: { rpcUrl: 'http://10.0.0.2:9292', vipfsAddress: '10.0.0.2:5001' } })
+ * await broadcast(callTx, privateKey, 'devnet')
+ */
+export function registerNetworks(profiles: {
+  [network: string]: Partial<NetworkProfile>
+}) {
+  Object.entries(profiles).forEach(([network, profile]) => {
+    const merged: Partial<NetworkProfile> = {
+      ...networks[network],
+      ...profile,
+    }
+    const missing = (['rpcUrl', 'vipfsAddress'] as const).filter(
+      (field) => !merged[field]
+    )
+    if (missing.length > 0) {
+      throw new ValidationError(
+        `Network "${network}" is missing ${missing.join(' and ')}`,
+        missing.map((field) => ({
+          field: `networks.${network}.${field}`,
+          message: 'is required',
+        }))
+      )
+    }
+    networks[network] = {
+      verseProgramAddress: VERSE_PROGRAM_ADDRESS,
+      ...merged,
+    } as NetworkProfile
+  })
+}
+
+/**
+ * Looks up a network profile by name.
+ *
+ * @param {NETWORK} network - The name of the profile.
+ * @returns {NetworkProfile} The profile.
+ * @throws {ValidationError} Throws if no profile has that name.
+ */
+export function getNetworkProfile(network: NETWORK): NetworkProfile {
+  const profile = networks[network]
+  if (!profile) {
+    throw new ValidationError(
+      `Unknown network "${network}". Available networks: ${getNetworkNames().join(
+        ', '
+      )}`,
+      [{ field: 'network', message: 'is not a known network' }]
+    )
+  }
+  return profile
+}
+
+/**
+ * Lists the names of every known network profile.
+ *
+ * @returns {string[]} The built-in and registered network names.
+ */
+export function getNetworkNames(): string[] {
+  return Object.keys(networks)
+}
+
+/**
+ * Drops every registered profile, leaving only the built-in ones.
+ */
+export function resetNetworks() {
+  networks = { ...BUILT_IN_NETWORKS }
+}
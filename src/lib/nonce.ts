@@ -0,0 +1,103 @@
+import { NETWORK } from '@/lib/types'
+import { LasrClient } from '@/lib/client'
+import { RpcError } from '@/lib/errors'
+import { getRPCForNetwork } from '@/lib/utils'
+import { getNewNonce } from '@/lib/versatus'
+
+/**
+ * Hands out the nonces of transactions sent from one or more accounts. The nonce of an account
+ * is fetched from the node once, and every transaction after that gets the next nonce in the
+ * sequence, so concurrent broadcasts from the same key no longer race to the same nonce. Call
+ * `resync` when a transaction is rejected to fetch the nonce from the node again.
+ *
+ * @example
+ * const nonces = new NonceManager(new LasrClient(getRPCForNetwork('test')))
+ * const [first, second] = await Promise.all([
+ *   nonces.next(address),
+ *   nonces.next(address),
+ * ])
+ */
+export class NonceManager {
+  private client: LasrClient
+  private nonces: Map<string, Promise<string>>
+
+  /**
+   * Constructs a nonce manager that fetches account nonces with the given client.
+   *
+   * @param {LasrClient} client - The client used to look up accounts.
+   */
+  constructor(client: LasrClient) {
+    this.client = client
+    this.nonces = new Map()
+  }
+
+  /**
+   * Reserves the next nonce of an account. The first call fetches the account; later calls wait
+   * for the previous nonce and return the one after it.
+   *
+   * @param {string} address - The address of the sending account.
+   * @returns {Promise<string>} The nonce to send the next transaction with.
+   * @throws {RpcError} Throws if the account cannot be fetched.
+   */
+  next(address: string): Promise<string> {
+    const key = address.toLowerCase()
+    const previous =
+      this.nonces.get(key) ??
+      this.client.getAccount(key).then((account) => account.nonce)
+    const nonce = previous.then((previousNonce) => getNewNonce(previousNonce))
+
+    this.nonces.set(key, nonce)
+    // A failed lookup is not cached, so the next call fetches the account again.
+    nonce.catch(() => {
+      if (this.nonces.get(key) === nonce) {
+        this.nonces.delete(key)
+      }
+    })
+
+    return nonce
+  }
+
+  /**
+   * Forgets the cached nonce of an account, so the next nonce is based on the account fetched
+   * from the node again.
+   *
+   * @param {string} address - The address of the account.
+   */
+  resync(address: string) {
+    this.nonces.delete(address.toLowerCase())
+  }
+}
+
+const sharedNonceManagers = new Map<string, NonceManager>()
+
+/**
+ * Returns the nonce manager shared by every `broadcast` to a network, creating it on first use.
+ *
+ * @param {NETWORK} network - The network the transactions are sent to (stable | test | local | a configured network profile)
+ * @returns {NonceManager} The shared nonce manager of the network's RPC endpoint.
+ */
+export function getNonceManager(network: NETWORK = 'stable'): NonceManager {
+  const endpoint = getRPCForNetwork(network)
+  let nonceManager = sharedNonceManagers.get(endpoint)
+  if (!nonceManager) {
+    nonceManager = new NonceManager(new LasrClient(endpoint))
+    sharedNonceManagers.set(endpoint, nonceManager)
+  }
+  return nonceManager
+}
+
+/**
+ * Decides whether a transaction was rejected because of its nonce, e.g. because another client
+ * sent a transaction from the same account in the meantime. Only JSON-RPC errors count: the node
+ * must have answered, so the transaction certainly was not applied.
+ *
+ * @param {unknown} error - The error the transaction was rejected with.
+ * @returns {boolean} Whether the account should be resynced and the transaction resent.
+ */
+export function isNonceError(error: unknown): boolean {
+  return (
+    error instanceof RpcError &&
+    error.code !== undefined &&
+    /nonce/i.test(error.message)
+  )
+}
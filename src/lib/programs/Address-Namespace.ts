@@ -1,3 +1,10 @@
+import {
+  expectObject,
+  expectString,
+  malformed,
+  singleEntry,
+} from '@/lib/programs/json-helpers'
+
 export class Address {
   private address: string
 
@@ -8,6 +15,10 @@ export class Address {
   toJson(): string {
     return this.address
   }
+
+  static fromJson(json: unknown): Address {
+    return new Address(expectString(json, 'Address'))
+  }
 }
 
 export class Namespace {
@@ -20,6 +31,11 @@ export class Namespace {
   toJson(): object {
     return { namespace: this.namespace }
   }
+
+  static fromJson(json: unknown): Namespace {
+    const { namespace } = expectObject(json, 'Namespace')
+    return new Namespace(expectString(namespace, 'Namespace.namespace'))
+  }
 }
 
 export class AddressOrNamespace {
@@ -45,6 +61,26 @@ export class AddressOrNamespace {
       return this.value
     }
   }
+
+  static fromJson(json: unknown): AddressOrNamespace {
+    if (json === AddressOrNamespace.THIS) {
+      return new AddressOrNamespace(AddressOrNamespace.THIS)
+    }
+
+    const [kind, value] = singleEntry(json, 'AddressOrNamespace')
+    switch (kind) {
+      case 'address':
+        return new AddressOrNamespace(Address.fromJson(value))
+      case 'namespace':
+        return new AddressOrNamespace(Namespace.fromJson(value))
+      default:
+        throw malformed(
+          'AddressOrNamespace',
+          "'this', address or namespace",
+          json
+        )
+    }
+  }
 }
 
 export class Credit {
@@ -57,6 +93,11 @@ export class Credit {
   toJson(): object {
     return { credit: this.value }
   }
+
+  static fromJson(json: unknown): Credit {
+    const { credit } = expectObject(json, 'Credit')
+    return new Credit(expectString(credit, 'Credit.credit'))
+  }
 }
 
 export class Debit {
@@ -69,6 +110,11 @@ export class Debit {
   toJson(): object {
     return { debit: this.value }
   }
+
+  static fromJson(json: unknown): Debit {
+    const { debit } = expectObject(json, 'Debit')
+    return new Debit(expectString(debit, 'Debit.debit'))
+  }
 }
 
 export class BalanceValue {
@@ -81,4 +127,9 @@ export class BalanceValue {
   toJson(): object {
     return { balance: this.value as string }
   }
+
+  static fromJson(json: unknown): BalanceValue {
+    const { balance } = expectObject(json, 'BalanceValue')
+    return new BalanceValue(expectString(balance, 'BalanceValue.balance'))
+  }
 }
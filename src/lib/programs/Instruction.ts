@@ -1,37 +1,51 @@
 import { Address, AddressOrNamespace } from '@/lib/programs/Address-Namespace'
 import { TokenDistribution, TokenOrProgramUpdate } from '@/lib/programs/Token'
-import { InstructionKinds } from '@/lib/types'
+import {
+  InstructionKinds,
+  InstructionValues,
+  LogField,
+  LogFieldType,
+} from '@/lib/types'
+import {
+  expectArray,
+  expectObject,
+  expectOneOf,
+  expectString,
+  expectStringArray,
+  malformed,
+  nullable,
+  singleEntry,
+} from '@/lib/programs/json-helpers'
+
+const LOG_FIELD_TYPES: LogFieldType[] = [
+  'address',
+  'uint256',
+  'bool',
+  'bytes',
+  'string',
+]
+
+const nullableString = (json: unknown, context: string): string | null =>
+  nullable(json, (value) => expectString(value, context))
 
 /**
  * Represents a generic instruction in a blockchain or token management system, encapsulating various
  * types of operations such as creating, updating, transferring, burning, or logging related to tokens
  * or programs. This class is designed to unify these operations under a single instruction type, providing
- * a consistent interface for serialization to JSON.
+ * a consistent interface for serialization to JSON. The kind determines which instruction it may wrap,
+ * so e.g. `new Instruction('burn', transferInstruction)` does not compile.
  */
-export class Instruction {
-  private kind: InstructionKinds
-  private value:
-    | CreateInstruction
-    | UpdateInstruction
-    | TransferInstruction
-    | BurnInstruction
-    | LogInstruction
+export class Instruction<K extends InstructionKinds = InstructionKinds> {
+  private kind: K
+  private value: InstructionValues[K]
 
   /**
    * Constructs an instance of an Instruction, setting its kind and specific value based on the operation being performed.
    *
    * @param {InstructionKinds} kind - The kind of instruction, indicating the type of operation (e.g., create, update, transfer, burn, log).
-   * @param {CreateInstruction | UpdateInstruction | TransferInstruction | BurnInstruction | LogInstruction} value - The specific instruction value, containing details necessary for executing the operation.
+   * @param {CreateInstruction | UpdateInstruction | TransferInstruction | BurnInstruction | LogInstruction} value - The specific instruction value matching the kind, containing details necessary for executing the operation.
    */
-  constructor(
-    kind: InstructionKinds,
-    value:
-      | CreateInstruction
-      | UpdateInstruction
-      | TransferInstruction
-      | BurnInstruction
-      | LogInstruction
-  ) {
+  constructor(kind: K, value: InstructionValues[K]) {
     this.kind = kind
     this.value = value
   }
@@ -46,6 +60,55 @@ export class Instruction {
   toJson(): object {
     return { [this.kind]: this.value.toJson() }
   }
+
+  /**
+   * Returns the kind of the instruction.
+   *
+   * @returns {InstructionKinds} The kind of operation the instruction performs.
+   */
+  getKind(): K {
+    return this.kind
+  }
+
+  /**
+   * Returns the specific instruction wrapped by this instruction. Narrow it with `instanceof`
+   * or by checking `getKind()`.
+   *
+   * @returns {CreateInstruction | UpdateInstruction | TransferInstruction | BurnInstruction | LogInstruction} The wrapped instruction.
+   */
+  getValue(): InstructionValues[K] {
+    return this.value
+  }
+
+  /**
+   * Parses an instruction from its JSON representation, rebuilding the specific instruction
+   * and everything it contains.
+   *
+   * @param {unknown} json - The JSON produced by `toJson`, keyed by the instruction kind.
+   * @returns {Instruction} The parsed instruction.
+   * @throws {Error} Throws if the kind is unknown or the instruction does not have the expected shape.
+   */
+  static fromJson(json: unknown): Instruction {
+    const [kind, value] = singleEntry(json, 'Instruction')
+    switch (kind) {
+      case 'create':
+        return new Instruction(kind, CreateInstruction.fromJson(value))
+      case 'update':
+        return new Instruction(kind, UpdateInstruction.fromJson(value))
+      case 'transfer':
+        return new Instruction(kind, TransferInstruction.fromJson(value))
+      case 'burn':
+        return new Instruction(kind, BurnInstruction.fromJson(value))
+      case 'log':
+        return new Instruction(kind, LogInstruction.fromJson(value))
+      default:
+        throw malformed(
+          'Instruction',
+          'one of create, update, transfer, burn, log',
+          kind
+        )
+    }
+  }
 }
 
 /**
@@ -109,6 +172,34 @@ export class CreateInstruction {
       distribution: this.distribution.map((dist) => dist.toJson()),
     }
   }
+
+  /**
+   * Parses a create instruction from its JSON representation.
+   *
+   * @param {unknown} json - The JSON produced by `toJson`.
+   * @returns {CreateInstruction} The parsed create instruction.
+   * @throws {Error} Throws if the JSON does not have the shape of a create instruction.
+   */
+  static fromJson(json: unknown): CreateInstruction {
+    const {
+      programNamespace,
+      programId,
+      programOwner,
+      totalSupply,
+      initializedSupply,
+      distribution,
+    } = expectObject(json, 'CreateInstruction')
+    return new CreateInstruction(
+      nullable(programNamespace, AddressOrNamespace.fromJson),
+      nullable(programId, AddressOrNamespace.fromJson),
+      nullable(programOwner, Address.fromJson),
+      nullableString(totalSupply, 'CreateInstruction.totalSupply'),
+      nullableString(initializedSupply, 'CreateInstruction.initializedSupply'),
+      expectArray(distribution, 'CreateInstruction.distribution').map(
+        TokenDistribution.fromJson
+      )
+    )
+  }
 }
 
 /**
@@ -142,6 +233,22 @@ export class UpdateInstruction {
       updates: this.updates.map((update) => update.toJson()), // Map each update to its JSON representation.
     }
   }
+
+  /**
+   * Parses an update instruction from its JSON representation.
+   *
+   * @param {unknown} json - The JSON produced by `toJson`.
+   * @returns {UpdateInstruction} The parsed update instruction.
+   * @throws {Error} Throws if the JSON does not have the shape of an update instruction.
+   */
+  static fromJson(json: unknown): UpdateInstruction {
+    const { updates } = expectObject(json, 'UpdateInstruction')
+    return new UpdateInstruction(
+      expectArray(updates, 'UpdateInstruction.updates').map(
+        TokenOrProgramUpdate.fromJson
+      )
+    )
+  }
 }
 
 /**
@@ -196,6 +303,28 @@ export class TransferInstruction {
       ids: this.ids, // Include the list of token IDs being transferred, if applicable.
     }
   }
+
+  /**
+   * Parses a transfer instruction from its JSON representation. Unset addresses and amounts
+   * may be `null` or omitted.
+   *
+   * @param {unknown} json - The JSON produced by `toJson`.
+   * @returns {TransferInstruction} The parsed transfer instruction.
+   * @throws {Error} Throws if the JSON does not have the shape of a transfer instruction.
+   */
+  static fromJson(json: unknown): TransferInstruction {
+    const { token, from, to, amount, ids } = expectObject(
+      json,
+      'TransferInstruction'
+    )
+    return new TransferInstruction(
+      nullable(token, Address.fromJson),
+      nullable(from, AddressOrNamespace.fromJson),
+      nullable(to, AddressOrNamespace.fromJson),
+      nullableString(amount, 'TransferInstruction.amount'),
+      expectStringArray(ids, 'TransferInstruction.ids')
+    )
+  }
 }
 
 /**
@@ -256,10 +385,102 @@ export class BurnInstruction {
       tokenIds: this.tokenIds, // Include the list of token IDs being burned, if applicable.
     }
   }
+
+  /**
+   * Parses a burn instruction from its JSON representation. Unset addresses and amounts
+   * may be `null` or omitted.
+   *
+   * @param {unknown} json - The JSON produced by `toJson`.
+   * @returns {BurnInstruction} The parsed burn instruction.
+   * @throws {Error} Throws if the JSON does not have the shape of a burn instruction.
+   */
+  static fromJson(json: unknown): BurnInstruction {
+    const { caller, programId, token, from, amount, tokenIds } = expectObject(
+      json,
+      'BurnInstruction'
+    )
+    return new BurnInstruction(
+      nullable(caller, Address.fromJson),
+      nullable(programId, AddressOrNamespace.fromJson),
+      nullable(token, Address.fromJson),
+      nullable(from, AddressOrNamespace.fromJson),
+      nullableString(amount, 'BurnInstruction.amount'),
+      expectStringArray(tokenIds, 'BurnInstruction.tokenIds')
+    )
+  }
 }
 
+/**
+ * Represents a log instruction, emitting a named event with typed key/value fields, much like an
+ * EVM event. Logs do not change any state; they let indexers and tests observe what a program did
+ * without diffing account state. Field values are always strings: `uint256` values are hex encoded
+ * and `bool` values are `'true'` or `'false'`.
+ */
 export class LogInstruction {
+  private event: string
+  private fields: LogField[]
+
+  /**
+   * Constructs a new LogInstruction instance.
+   *
+   * @param {string} event - The name of the emitted event, e.g. `Transfer`.
+   * @param {LogField[]} fields - The fields of the event, in order.
+   */
+  constructor(event: string, fields: LogField[]) {
+    this.event = event
+    this.fields = fields
+  }
+
+  /**
+   * Returns the name of the emitted event.
+   *
+   * @returns {string} The event name.
+   */
+  getEvent(): string {
+    return this.event
+  }
+
+  /**
+   * Returns the fields of the emitted event, in order.
+   *
+   * @returns {LogField[]} The event fields.
+   */
+  getFields(): LogField[] {
+    return this.fields
+  }
+
+  /**
+   * Converts the log instruction to a JSON object for serialization and storage.
+   *
+   * @returns {object} The JSON representation of the log instruction, including the event name and its fields.
+   */
   toJson(): object {
-    return {}
+    return {
+      event: this.event,
+      fields: this.fields.map(({ key, type, value }) => ({ key, type, value })),
+    }
+  }
+
+  /**
+   * Parses a log instruction from its JSON representation.
+   *
+   * @param {unknown} json - The JSON produced by `toJson`.
+   * @returns {LogInstruction} The parsed log instruction.
+   * @throws {Error} Throws if the JSON does not have the shape of a log instruction.
+   */
+  static fromJson(json: unknown): LogInstruction {
+    const { event, fields } = expectObject(json, 'LogInstruction')
+    return new LogInstruction(
+      expectString(event, 'LogInstruction.event'),
+      expectArray(fields, 'LogInstruction.fields').map((field, index) => {
+        const context = `LogInstruction.fields[${index}]`
+        const { key, type, value } = expectObject(field, context)
+        return {
+          key: expectString(key, `${context}.key`),
+          type: expectOneOf(type, LOG_FIELD_TYPES, `${context}.type`),
+          value: expectString(value, `${context}.value`),
+        }
+      })
+    )
   }
 }
@@ -1,5 +1,10 @@
 import { Instruction } from '@/lib/programs/Instruction'
 import { ComputeInputs } from '@/lib/types'
+import {
+  expectArray,
+  expectObject,
+  nullable,
+} from '@/lib/programs/json-helpers'
 
 export class Outputs {
   private inputs: ComputeInputs | null
@@ -10,6 +15,14 @@ export class Outputs {
     this.instructions = instructions
   }
 
+  getComputeInputs(): ComputeInputs | null {
+    return this.inputs
+  }
+
+  getInstructions(): Instruction[] {
+    return this.instructions
+  }
+
   toJson(): object {
     return {
       computeInputs: this.inputs,
@@ -18,4 +31,17 @@ export class Outputs {
       ),
     }
   }
+
+  static fromJson(json: unknown): Outputs {
+    const { computeInputs, instructions } = expectObject(json, 'Outputs')
+    return new Outputs(
+      nullable(
+        computeInputs,
+        (value) => expectObject(value, 'Outputs.computeInputs') as ComputeInputs
+      ),
+      expectArray(instructions, 'Outputs.instructions').map(
+        Instruction.fromJson
+      )
+    )
+  }
 }
@@ -1,4 +1,9 @@
-import { ComputeInputs, ProgramUpdateValueTypes } from '@/lib/types'
+import {
+  ComputeInputs,
+  ProgramFieldActions,
+  ProgramFieldKinds,
+  ProgramFieldValues,
+} from '@/lib/types'
 import {
   buildCreateInstruction,
   buildProgramUpdateField,
@@ -16,6 +21,66 @@ import {
 } from '@/lib/utils'
 import { Address, AddressOrNamespace } from '@/lib/programs/Address-Namespace'
 import { StatusValue, TokenOrProgramUpdate } from '@/lib/programs/Token'
+import {
+  expectArray,
+  expectObject,
+  expectOneOf,
+  expectPair,
+  expectString,
+  expectStringMap,
+  malformed,
+  singleEntry,
+} from '@/lib/programs/json-helpers'
+import { InputSchema, validateInputs } from '@/lib/programs/schema'
+import { ProgramExecutionError } from '@/lib/errors'
+
+/**
+ * A program method handling a single operation. It receives the compute inputs of the
+ * transaction and returns the JSON representation of the resulting `Outputs`.
+ */
+export type ProgramMethod = (computeInputs: ComputeInputs) => object
+
+/**
+ * Options attached to a registered program method.
+ */
+export interface ProgramMethodOptions {
+  /**
+   * The schema `transactionInputs` are validated against before the method runs.
+   */
+  inputs?: InputSchema
+}
+
+/**
+ * A program method together with its options, as accepted by `defineMethods`.
+ */
+export interface ProgramMethodDefinition extends ProgramMethodOptions {
+  handler: ProgramMethod
+}
+
+const PROGRAM_FIELDS: ProgramFieldValues[] = [
+  'balance',
+  'data',
+  'metadata',
+  'linkedPrograms',
+  'ownerId',
+  'status',
+]
+
+const CREATE_INPUTS: InputSchema = {
+  symbol: 'string',
+  name: 'string',
+  totalSupply: 'amount',
+  initializedSupply: 'amount',
+  imgUrl: 'string',
+  paymentProgramAddress: 'address',
+  conversionRate: 'amount',
+  recipientAddress: { type: 'address', optional: true },
+}
+
+const UPDATE_INPUTS: InputSchema = {
+  metadata: { type: 'object', optional: true },
+  data: { type: 'object', optional: true },
+}
 
 /**
  * Represents a program with strategies for handling various operations such as `create` and `update`.
@@ -25,18 +90,97 @@ import { StatusValue, TokenOrProgramUpdate } from '@/lib/programs/Token'
 export class Program {
   /**
    * A dictionary mapping operation keys to their corresponding methods.
-   * @type {{ [key: string]: Function }}
+   * @type {{ [key: string]: ProgramMethod }}
+   */
+  methodStrategies: { [key: string]: ProgramMethod }
+
+  /**
+   * A dictionary mapping operation keys to the schema of the inputs their methods expect.
+   * @type {{ [key: string]: InputSchema }}
    */
-  methodStrategies: { [key: string]: Function }
+  methodInputSchemas: { [key: string]: InputSchema }
 
   /**
-   * Constructs a new instance of the Program class, initializing the `methodStrategies` with `create` and `update` operations.
+   * Constructs a new instance of the Program class, registering the `create` and `update` operations.
+   * Their input schemas only describe the base implementations, so they are left out when a subclass
+   * overrides either method.
    */
   constructor() {
-    this.methodStrategies = {
-      create: this.create.bind(this),
-      update: this.update.bind(this),
+    this.methodStrategies = {}
+    this.methodInputSchemas = {}
+    this.defineMethod('create', this.create, {
+      inputs:
+        this.create === Program.prototype.create ? CREATE_INPUTS : undefined,
+    })
+    this.defineMethod('update', this.update, {
+      inputs:
+        this.update === Program.prototype.update ? UPDATE_INPUTS : undefined,
+    })
+  }
+
+  /**
+   * Registers a method as the handler for an operation. The handler is bound to the program
+   * instance, so subclasses can pass their own methods directly. Registering a name twice
+   * replaces the previous handler along with its input schema.
+   *
+   * @param {string} name - The operation key the handler responds to, matched against `op` in the inputs.
+   * @param {ProgramMethod} handler - The method handling the operation.
+   * @param {ProgramMethodOptions} [options] - The input schema to validate `transactionInputs` against.
+   * @returns {this} The program instance for chaining.
+   */
+  defineMethod(
+    name: string,
+    handler: ProgramMethod,
+    options: ProgramMethodOptions = {}
+  ): this {
+    this.methodStrategies[name] = handler.bind(this)
+    if (options.inputs) {
+      this.methodInputSchemas[name] = options.inputs
+    } else {
+      delete this.methodInputSchemas[name]
     }
+    return this
+  }
+
+  /**
+   * Registers several methods at once, keyed by the operation each one handles. A method can be
+   * given on its own or as a definition carrying its input schema.
+   *
+   * @param {{ [name: string]: ProgramMethod | ProgramMethodDefinition }} handlers - The handlers to register, keyed by operation.
+   * @returns {this} The program instance for chaining.
+   */
+  defineMethods(handlers: {
+    [name: string]: ProgramMethod | ProgramMethodDefinition
+  }): this {
+    Object.entries(handlers).forEach(([name, definition]) => {
+      if (typeof definition === 'function') {
+        this.defineMethod(name, definition)
+      } else {
+        const { handler, ...options } = definition
+        this.defineMethod(name, handler, options)
+      }
+    })
+    return this
+  }
+
+  /**
+   * Returns the input schemas of the registered methods, keyed by operation. Methods registered
+   * without a schema are left out. `lasrctl call --schema` reads this object from a JSON file,
+   * which has to be written with e.g. `JSON.stringify(program.getInputSchemas())`.
+   *
+   * @returns {{ [key: string]: InputSchema }} The input schemas keyed by operation.
+   */
+  getInputSchemas(): { [key: string]: InputSchema } {
+    return { ...this.methodInputSchemas }
+  }
+
+  /**
+   * Lists the operations this program responds to, in registration order.
+   *
+   * @returns {string[]} The names of the registered methods.
+   */
+  getMethodNames(): string[] {
+    return Object.keys(this.methodStrategies)
   }
 
   /**
@@ -46,130 +190,138 @@ export class Program {
    *
    * @param {ComputeInputs} computeInputs - Inputs necessary for computing the create operation, including transaction details.
    * @returns {string} JSON string representing the outputs of the create operation.
-   * @throws {Error} Throws an error if any validation fails or if an unexpected error occurs during the process.
+   * @throws {ValidationError} Throws if `transactionInputs` are empty or a required value is missing.
    */
   create(computeInputs: ComputeInputs) {
-    try {
-      const { transaction } = computeInputs
-      const { transactionInputs, from, to } = transaction
-      const txInputs = validate(
-        JSON.parse(transactionInputs),
-        'unable to parse transactionInputs'
-      )
-
-      const {
-        symbol,
-        name,
-        totalSupply,
-        initializedSupply: txInitializedSupply,
-        imgUrl,
-        recipientAddress,
-        paymentProgramAddress,
-        conversionRate,
-      } = txInputs
-
-      checkIfValuesAreUndefined({
-        symbol,
-        name,
-        totalSupply,
-        initializedSupply: txInitializedSupply,
-        imgUrl,
-        paymentProgramAddress,
-        conversionRate,
-      })
-
-      // metadata
-      const metadataStr = validateAndCreateJsonString({
-        symbol,
-        name,
-        totalSupply: formatAmountToHex(totalSupply),
-      })
-
-      // data
-      const dataStr = validateAndCreateJsonString({
-        type: 'fungible',
-        imgUrl,
-        paymentProgramAddress,
-        conversionRate,
-      })
-
-      const addTokenMetadata = buildTokenUpdateField({
-        field: 'metadata',
-        value: metadataStr,
-        action: 'extend',
-      })
-
-      const addTokenData = buildTokenUpdateField({
-        field: 'data',
-        value: dataStr,
-        action: 'extend',
-      })
-
-      const addProgramData = buildProgramUpdateField({
-        field: 'data',
-        value: dataStr,
-        action: 'extend',
-      })
-
-      const distributionInstruction = buildTokenDistributionInstruction({
-        programId: THIS,
-        initializedSupply: formatAmountToHex(txInitializedSupply),
-        to: recipientAddress ?? to,
-        tokenUpdates: [addTokenMetadata, addTokenData],
-      })
-
-      const createAndDistributeInstruction = buildCreateInstruction({
-        from,
-        initializedSupply: formatAmountToHex(txInitializedSupply),
-        totalSupply,
-        programId: THIS,
-        programOwner: from,
-        programNamespace: THIS,
-        distributionInstruction,
-      })
-
-      const addProgramMetadata = buildProgramUpdateField({
-        field: 'metadata',
-        value: metadataStr,
-        action: 'extend',
-      })
-
-      const programUpdateInstruction = buildUpdateInstruction({
-        update: new TokenOrProgramUpdate(
-          'programUpdate',
-          new ProgramUpdate(new AddressOrNamespace(THIS), [
-            addProgramMetadata,
-            addProgramData,
-          ])
-        ),
-      })
-
-      return new Outputs(computeInputs, [
-        createAndDistributeInstruction,
-        programUpdateInstruction,
-      ]).toJson()
-    } catch (e) {
-      throw e
-    }
+    const { transaction } = computeInputs
+    const { transactionInputs, from, to } = transaction
+    const txInputs = validate(
+      JSON.parse(transactionInputs),
+      'unable to parse transactionInputs'
+    )
+
+    const {
+      symbol,
+      name,
+      totalSupply,
+      initializedSupply: txInitializedSupply,
+      imgUrl,
+      recipientAddress,
+      paymentProgramAddress,
+      conversionRate,
+    } = txInputs
+
+    checkIfValuesAreUndefined({
+      symbol,
+      name,
+      totalSupply,
+      initializedSupply: txInitializedSupply,
+      imgUrl,
+      paymentProgramAddress,
+      conversionRate,
+    })
+
+    // metadata
+    const metadataStr = validateAndCreateJsonString({
+      symbol,
+      name,
+      totalSupply: formatAmountToHex(totalSupply),
+    })
+
+    // data
+    const dataStr = validateAndCreateJsonString({
+      type: 'fungible',
+      imgUrl,
+      paymentProgramAddress,
+      conversionRate,
+    })
+
+    const addTokenMetadata = buildTokenUpdateField({
+      field: 'metadata',
+      value: metadataStr,
+      action: 'extend',
+    })
+
+    const addTokenData = buildTokenUpdateField({
+      field: 'data',
+      value: dataStr,
+      action: 'extend',
+    })
+
+    const addProgramData = buildProgramUpdateField({
+      field: 'data',
+      value: dataStr,
+      action: 'extend',
+    })
+
+    const distributionInstruction = buildTokenDistributionInstruction({
+      programId: THIS,
+      initializedSupply: formatAmountToHex(txInitializedSupply),
+      to: recipientAddress ?? to,
+      tokenUpdates: [addTokenMetadata, addTokenData],
+    })
+
+    const createAndDistributeInstruction = buildCreateInstruction({
+      from,
+      initializedSupply: formatAmountToHex(txInitializedSupply),
+      totalSupply,
+      programId: THIS,
+      programOwner: from,
+      programNamespace: THIS,
+      distributionInstruction,
+    })
+
+    const addProgramMetadata = buildProgramUpdateField({
+      field: 'metadata',
+      value: metadataStr,
+      action: 'extend',
+    })
+
+    const programUpdateInstruction = buildUpdateInstruction({
+      update: new TokenOrProgramUpdate(
+        'programUpdate',
+        new ProgramUpdate(new AddressOrNamespace(THIS), [
+          addProgramMetadata,
+          addProgramData,
+        ])
+      ),
+    })
+
+    return new Outputs(computeInputs, [
+      createAndDistributeInstruction,
+      programUpdateInstruction,
+    ]).toJson()
   }
 
   /**
    * Executes the method corresponding to the operation specified in the input.
    * This method looks up the strategy for the operation in the `methodStrategies` map and executes it.
+   * If the method was registered with an input schema, `transactionInputs` are validated first.
    *
    * @param {ComputeInputs} inputs - Inputs containing the operation to be executed along with any necessary data.
    * @returns {any} The result of executing the method associated with the specified operation.
-   * @throws {Error} Throws an error if the operation is unknown or if the associated method throws an error.
+   * @throws {InputValidationError} Throws if `transactionInputs` do not match the method's input schema.
+   * @throws {ProgramExecutionError} Throws if no method is registered for the operation.
+   * @throws {Error} Rethrows anything the associated method throws.
    */
   executeMethod(inputs: ComputeInputs) {
     const { op } = inputs
     const strategy = this.methodStrategies[op]
 
     if (strategy) {
+      const schema = this.methodInputSchemas[op]
+      if (schema) {
+        validateInputs(schema, inputs.transaction.transactionInputs)
+      }
       return strategy(inputs)
     }
 
-    throw new Error(`Unknown method: ${op}`)
+    throw new ProgramExecutionError(
+      `Unknown method: ${op}. Available methods: ${this.getMethodNames().join(
+        ', '
+      )}`,
+      { op }
+    )
   }
 
   /**
@@ -181,11 +333,7 @@ export class Program {
    * @throws {Error} Throws an error if `executeMethod` throws an error.
    */
   start(computeInputs: ComputeInputs) {
-    try {
-      return this.executeMethod(computeInputs)
-    } catch (e) {
-      throw e
-    }
+    return this.executeMethod(computeInputs)
   }
 
   /**
@@ -198,43 +346,39 @@ export class Program {
    * @throws {Error} Throws an error if any validation fails or if an unexpected error occurs during the process.
    */
   update(computeInputs: ComputeInputs) {
-    try {
-      const { transaction } = computeInputs
-      const { transactionInputs } = transaction
-      const txInputs = JSON.parse(transactionInputs)
-      const { data, metadata } = txInputs
-      const programUpdates = []
-      if (metadata) {
-        const fieldUpdate = buildProgramUpdateField({
-          field: 'metadata',
-          value: JSON.stringify(metadata),
-          action: 'extend',
-        })
-        programUpdates.push(fieldUpdate)
-      }
-
-      if (data) {
-        const fieldUpdate = buildProgramUpdateField({
-          field: 'data',
-          value: JSON.stringify(data),
-          action: 'extend',
-        })
-        programUpdates.push(fieldUpdate)
-      }
-
-      const programMetadataUpdateInstruction = buildUpdateInstruction({
-        update: new TokenOrProgramUpdate(
-          'programUpdate',
-          new ProgramUpdate(new AddressOrNamespace(THIS), programUpdates)
-        ),
+    const { transaction } = computeInputs
+    const { transactionInputs } = transaction
+    const txInputs = JSON.parse(transactionInputs)
+    const { data, metadata } = txInputs
+    const programUpdates = []
+    if (metadata) {
+      const fieldUpdate = buildProgramUpdateField({
+        field: 'metadata',
+        value: JSON.stringify(metadata),
+        action: 'extend',
       })
+      programUpdates.push(fieldUpdate)
+    }
 
-      return new Outputs(computeInputs, [
-        programMetadataUpdateInstruction,
-      ]).toJson()
-    } catch (e) {
-      throw e
+    if (data) {
+      const fieldUpdate = buildProgramUpdateField({
+        field: 'data',
+        value: JSON.stringify(data),
+        action: 'extend',
+      })
+      programUpdates.push(fieldUpdate)
     }
+
+    const programMetadataUpdateInstruction = buildUpdateInstruction({
+      update: new TokenOrProgramUpdate(
+        'programUpdate',
+        new ProgramUpdate(new AddressOrNamespace(THIS), programUpdates)
+      ),
+    })
+
+    return new Outputs(computeInputs, [
+      programMetadataUpdateInstruction,
+    ]).toJson()
   }
 }
 
@@ -271,6 +415,23 @@ export class ProgramUpdate {
       updates: this.updates.map((update) => update.toJson()), // Map each update field to its JSON representation.
     }
   }
+
+  /**
+   * Parses a program update from its JSON representation.
+   *
+   * @param {unknown} json - The JSON produced by `toJson`.
+   * @returns {ProgramUpdate} The parsed program update.
+   * @throws {Error} Throws if the JSON does not have the shape of a program update.
+   */
+  static fromJson(json: unknown): ProgramUpdate {
+    const { account, updates } = expectObject(json, 'ProgramUpdate')
+    return new ProgramUpdate(
+      AddressOrNamespace.fromJson(account),
+      expectArray(updates, 'ProgramUpdate.updates').map(
+        ProgramUpdateField.fromJson
+      )
+    )
+  }
 }
 
 /**
@@ -278,17 +439,19 @@ export class ProgramUpdate {
  * a single update action on a program's property, encapsulating both the field to be updated and the new
  * value or modification to apply.
  */
-export class ProgramUpdateField {
-  private field: ProgramField
-  private value: ProgramFieldValue
+export class ProgramUpdateField<
+  K extends ProgramFieldKinds = ProgramFieldKinds,
+> {
+  private field: ProgramField<K>
+  private value: ProgramFieldValue<K>
 
   /**
-   * Constructs a new ProgramUpdateField instance.
+   * Constructs a new ProgramUpdateField instance. The field and the value must be of the same kind.
    *
    * @param {ProgramField} field - The specific field of the program to be updated.
    * @param {ProgramFieldValue} value - The new value or modification to be applied to the field.
    */
-  constructor(field: ProgramField, value: ProgramFieldValue) {
+  constructor(field: ProgramField<K>, value: ProgramFieldValue<K>) {
     this.field = field
     this.value = value
   }
@@ -306,6 +469,31 @@ export class ProgramUpdateField {
       value: this.value.toJson(), // Serialize the update value to its JSON representation.
     }
   }
+
+  /**
+   * Parses a program update field from its JSON representation. The field identifier must
+   * match the kind of the update value.
+   *
+   * @param {unknown} json - The JSON produced by `toJson`.
+   * @returns {ProgramUpdateField} The parsed program update field.
+   * @throws {Error} Throws if the JSON does not have the shape of a program update field.
+   */
+  static fromJson(json: unknown): ProgramUpdateField {
+    const { field, value } = expectObject(json, 'ProgramUpdateField')
+    const programField = ProgramField.fromJson(field)
+    const programFieldValue = ProgramFieldValue.fromJson(value)
+    if (programFieldValue.getKind() !== programField.toJson()) {
+      throw malformed(
+        'ProgramUpdateField',
+        `a ${programField.toJson()} value`,
+        value
+      )
+    }
+    return new ProgramUpdateField(
+      new ProgramField(programFieldValue.getKind()),
+      programFieldValue
+    )
+  }
 }
 
 /**
@@ -313,15 +501,15 @@ export class ProgramUpdateField {
  * of the field to be updated, providing a straightforward way to specify which part of a program
  * is being targeted for modification.
  */
-export class ProgramField {
-  private value: string
+export class ProgramField<K extends ProgramFieldValues = ProgramFieldValues> {
+  private value: K
 
   /**
    * Constructs a new ProgramField instance.
    *
-   * @param {string} value - The identifier of the program field to be updated.
+   * @param {ProgramFieldValues} value - The identifier of the program field to be updated.
    */
-  constructor(value: string) {
+  constructor(value: K) {
     this.value = value
   }
 
@@ -330,11 +518,22 @@ export class ProgramField {
    * This method allows the field identifier to be easily included in JSON objects or other
    * serialization formats.
    *
-   * @returns {string} The string representation of the program field.
+   * @returns {ProgramFieldValues} The string representation of the program field.
    */
-  toJson(): string {
+  toJson(): K {
     return this.value
   }
+
+  /**
+   * Parses a program field identifier, rejecting fields programs cannot update.
+   *
+   * @param {unknown} json - The JSON produced by `toJson`.
+   * @returns {ProgramField} The parsed program field.
+   * @throws {Error} Throws if the JSON is not a known program field.
+   */
+  static fromJson(json: unknown): ProgramField {
+    return new ProgramField(expectOneOf(json, PROGRAM_FIELDS, 'ProgramField'))
+  }
 }
 
 /**
@@ -363,6 +562,18 @@ export class LinkedProgramsInsert {
   toJson(): object {
     return { insert: this.key.toJson() }
   }
+
+  /**
+   * Parses a linked programs insert operation from its JSON representation.
+   *
+   * @param {unknown} json - The JSON produced by `toJson`.
+   * @returns {LinkedProgramsInsert} The parsed insert operation.
+   * @throws {Error} Throws if the JSON does not have the shape of an insert operation.
+   */
+  static fromJson(json: unknown): LinkedProgramsInsert {
+    const { insert } = expectObject(json, 'LinkedProgramsInsert')
+    return new LinkedProgramsInsert(Address.fromJson(insert))
+  }
 }
 
 /**
@@ -392,6 +603,20 @@ export class LinkedProgramsExtend {
   toJson(): object {
     return { extend: this.items.map((item) => item.toJson()) }
   }
+
+  /**
+   * Parses a linked programs extension from its JSON representation.
+   *
+   * @param {unknown} json - The JSON produced by `toJson`.
+   * @returns {LinkedProgramsExtend} The parsed extension.
+   * @throws {Error} Throws if the JSON does not have the shape of an extension.
+   */
+  static fromJson(json: unknown): LinkedProgramsExtend {
+    const { extend } = expectObject(json, 'LinkedProgramsExtend')
+    return new LinkedProgramsExtend(
+      expectArray(extend, 'LinkedProgramsExtend.extend').map(Address.fromJson)
+    )
+  }
 }
 
 /**
@@ -422,6 +647,18 @@ export class LinkedProgramsRemove {
   toJson(): object {
     return { remove: this.key.toJson() }
   }
+
+  /**
+   * Parses a linked program removal from its JSON representation.
+   *
+   * @param {unknown} json - The JSON produced by `toJson`.
+   * @returns {LinkedProgramsRemove} The parsed removal.
+   * @throws {Error} Throws if the JSON does not have the shape of a removal.
+   */
+  static fromJson(json: unknown): LinkedProgramsRemove {
+    const { remove } = expectObject(json, 'LinkedProgramsRemove')
+    return new LinkedProgramsRemove(Address.fromJson(remove))
+  }
 }
 
 /**
@@ -457,6 +694,24 @@ export class LinkedProgramsValue {
   toJson(): object {
     return { linkedPrograms: { linkedProgramValue: this.value.toJson() } }
   }
+
+  /**
+   * Parses a linked programs value from its JSON representation.
+   *
+   * @param {unknown} json - The JSON produced by `toJson`.
+   * @returns {LinkedProgramsValue} The parsed linked programs value.
+   * @throws {Error} Throws if the JSON does not have the shape of a linked programs value.
+   */
+  static fromJson(json: unknown): LinkedProgramsValue {
+    const { linkedPrograms } = expectObject(json, 'LinkedProgramsValue')
+    const { linkedProgramValue } = expectObject(
+      linkedPrograms,
+      'LinkedProgramsValue.linkedPrograms'
+    )
+    return new LinkedProgramsValue(
+      linkedProgramsActionFromJson(linkedProgramValue)
+    )
+  }
 }
 
 /**
@@ -489,6 +744,22 @@ export class ProgramMetadataInsert {
   toJson(): object {
     return { insert: [this.key, this.value] }
   }
+
+  /**
+   * Parses a program metadata insert operation from its JSON representation.
+   *
+   * @param {unknown} json - The JSON produced by `toJson`.
+   * @returns {ProgramMetadataInsert} The parsed insert operation.
+   * @throws {Error} Throws if the JSON does not have the shape of an insert operation.
+   */
+  static fromJson(json: unknown): ProgramMetadataInsert {
+    const { insert } = expectObject(json, 'ProgramMetadataInsert')
+    const [key, value] = expectPair(insert, 'ProgramMetadataInsert.insert')
+    return new ProgramMetadataInsert(
+      expectString(key, 'ProgramMetadataInsert key'),
+      expectString(value, 'ProgramMetadataInsert value')
+    )
+  }
 }
 
 /**
@@ -517,6 +788,20 @@ export class ProgramMetadataExtend {
   toJson(): object {
     return { extend: this.map }
   }
+
+  /**
+   * Parses a program metadata extension from its JSON representation.
+   *
+   * @param {unknown} json - The JSON produced by `toJson`.
+   * @returns {ProgramMetadataExtend} The parsed extension.
+   * @throws {Error} Throws if the JSON does not have the shape of an extension.
+   */
+  static fromJson(json: unknown): ProgramMetadataExtend {
+    const { extend } = expectObject(json, 'ProgramMetadataExtend')
+    return new ProgramMetadataExtend(
+      expectStringMap(extend, 'ProgramMetadataExtend.extend')
+    )
+  }
 }
 
 /**
@@ -545,6 +830,20 @@ export class ProgramMetadataRemove {
   toJson(): object {
     return { remove: this.key }
   }
+
+  /**
+   * Parses a program metadata removal from its JSON representation.
+   *
+   * @param {unknown} json - The JSON produced by `toJson`.
+   * @returns {ProgramMetadataRemove} The parsed removal.
+   * @throws {Error} Throws if the JSON does not have the shape of a removal.
+   */
+  static fromJson(json: unknown): ProgramMetadataRemove {
+    const { remove } = expectObject(json, 'ProgramMetadataRemove')
+    return new ProgramMetadataRemove(
+      expectString(remove, 'ProgramMetadataRemove.remove')
+    )
+  }
 }
 
 /**
@@ -580,6 +879,18 @@ export class ProgramMetadataValue {
   toJson(): object {
     return { metadata: this.value.toJson() }
   }
+
+  /**
+   * Parses a program metadata value from its JSON representation.
+   *
+   * @param {unknown} json - The JSON produced by `toJson`.
+   * @returns {ProgramMetadataValue} The parsed program metadata value.
+   * @throws {Error} Throws if the JSON does not have the shape of a program metadata value.
+   */
+  static fromJson(json: unknown): ProgramMetadataValue {
+    const { metadata } = expectObject(json, 'ProgramMetadataValue')
+    return new ProgramMetadataValue(programMetadataActionFromJson(metadata))
+  }
 }
 
 /**
@@ -611,6 +922,22 @@ export class ProgramDataInsert {
   toJson(): object {
     return { insert: [this.key, this.value] }
   }
+
+  /**
+   * Parses a program data insert operation from its JSON representation.
+   *
+   * @param {unknown} json - The JSON produced by `toJson`.
+   * @returns {ProgramDataInsert} The parsed insert operation.
+   * @throws {Error} Throws if the JSON does not have the shape of an insert operation.
+   */
+  static fromJson(json: unknown): ProgramDataInsert {
+    const { insert } = expectObject(json, 'ProgramDataInsert')
+    const [key, value] = expectPair(insert, 'ProgramDataInsert.insert')
+    return new ProgramDataInsert(
+      expectString(key, 'ProgramDataInsert key'),
+      expectString(value, 'ProgramDataInsert value')
+    )
+  }
 }
 
 /**
@@ -640,6 +967,20 @@ export class ProgramDataExtend {
   toJson(): object {
     return { extend: this.map }
   }
+
+  /**
+   * Parses a program data extension from its JSON representation.
+   *
+   * @param {unknown} json - The JSON produced by `toJson`.
+   * @returns {ProgramDataExtend} The parsed extension.
+   * @throws {Error} Throws if the JSON does not have the shape of an extension.
+   */
+  static fromJson(json: unknown): ProgramDataExtend {
+    const { extend } = expectObject(json, 'ProgramDataExtend')
+    return new ProgramDataExtend(
+      expectStringMap(extend, 'ProgramDataExtend.extend')
+    )
+  }
 }
 
 /**
@@ -665,6 +1006,20 @@ export class ProgramDataRemove {
   toJson(): object {
     return { remove: this.key }
   }
+
+  /**
+   * Parses a program data removal from its JSON representation.
+   *
+   * @param {unknown} json - The JSON produced by `toJson`.
+   * @returns {ProgramDataRemove} The parsed removal.
+   * @throws {Error} Throws if the JSON does not have the shape of a removal.
+   */
+  static fromJson(json: unknown): ProgramDataRemove {
+    const { remove } = expectObject(json, 'ProgramDataRemove')
+    return new ProgramDataRemove(
+      expectString(remove, 'ProgramDataRemove.remove')
+    )
+  }
 }
 
 /**
@@ -696,6 +1051,18 @@ export class ProgramDataValue {
   toJson(): object {
     return { data: this.value.toJson() }
   }
+
+  /**
+   * Parses a program data value from its JSON representation.
+   *
+   * @param {unknown} json - The JSON produced by `toJson`.
+   * @returns {ProgramDataValue} The parsed program data value.
+   * @throws {Error} Throws if the JSON does not have the shape of a program data value.
+   */
+  static fromJson(json: unknown): ProgramDataValue {
+    const { data } = expectObject(json, 'ProgramDataValue')
+    return new ProgramDataValue(programDataActionFromJson(data))
+  }
 }
 
 export class ProgramAccountDataExtend {
@@ -708,29 +1075,22 @@ export class ProgramAccountDataExtend {
   toJson(): object {
     return { extend: this.map }
   }
+
+  static fromJson(json: unknown): ProgramAccountDataExtend {
+    const { extend } = expectObject(json, 'ProgramAccountDataExtend')
+    return new ProgramAccountDataExtend(
+      expectStringMap(extend, 'ProgramAccountDataExtend.extend')
+    )
+  }
 }
 
-export class ProgramFieldValue {
-  private kind: string
-  private value: ProgramUpdateValueTypes
+export class ProgramFieldValue<
+  K extends ProgramFieldKinds = ProgramFieldKinds,
+> {
+  private kind: K
+  private value: ProgramFieldActions[K]
 
-  constructor(
-    kind: string,
-    value:
-      | ProgramDataValue
-      | ProgramDataInsert
-      | ProgramDataExtend
-      | ProgramDataRemove
-      | ProgramMetadataValue
-      | ProgramMetadataInsert
-      | ProgramMetadataExtend
-      | ProgramMetadataRemove
-      | LinkedProgramsValue
-      | LinkedProgramsInsert
-      | LinkedProgramsExtend
-      | LinkedProgramsRemove
-      | StatusValue
-  ) {
+  constructor(kind: K, value: ProgramFieldActions[K]) {
     this.kind = kind
     this.value = value
   }
@@ -738,4 +1098,88 @@ export class ProgramFieldValue {
   toJson(): object {
     return { [this.kind]: this.value.toJson() }
   }
+
+  getKind(): K {
+    return this.kind
+  }
+
+  getValue(): ProgramFieldActions[K] {
+    return this.value
+  }
+
+  static fromJson(json: unknown): ProgramFieldValue {
+    const [kind, value] = singleEntry(json, 'ProgramFieldValue')
+    switch (kind) {
+      case 'metadata':
+        return new ProgramFieldValue(kind, programMetadataActionFromJson(value))
+      case 'data':
+        return new ProgramFieldValue(kind, programDataActionFromJson(value))
+      case 'linkedPrograms':
+        return new ProgramFieldValue(kind, linkedProgramsActionFromJson(value))
+      case 'status':
+        return new ProgramFieldValue(kind, StatusValue.fromJson(value))
+      default:
+        throw malformed(
+          'ProgramFieldValue',
+          'one of metadata, data, linkedPrograms, status',
+          kind
+        )
+    }
+  }
+}
+
+function linkedProgramsActionFromJson(
+  json: unknown
+): LinkedProgramsInsert | LinkedProgramsExtend | LinkedProgramsRemove {
+  const [action] = singleEntry(json, 'linked programs action')
+  switch (action) {
+    case 'insert':
+      return LinkedProgramsInsert.fromJson(json)
+    case 'extend':
+      return LinkedProgramsExtend.fromJson(json)
+    case 'remove':
+      return LinkedProgramsRemove.fromJson(json)
+    default:
+      throw malformed(
+        'linked programs action',
+        'insert, extend or remove',
+        action
+      )
+  }
+}
+
+function programMetadataActionFromJson(
+  json: unknown
+): ProgramMetadataInsert | ProgramMetadataExtend | ProgramMetadataRemove {
+  const [action] = singleEntry(json, 'program metadata action')
+  switch (action) {
+    case 'insert':
+      return ProgramMetadataInsert.fromJson(json)
+    case 'extend':
+      return ProgramMetadataExtend.fromJson(json)
+    case 'remove':
+      return ProgramMetadataRemove.fromJson(json)
+    default:
+      throw malformed(
+        'program metadata action',
+        'insert, extend or remove',
+        action
+      )
+  }
+}
+
+function programDataActionFromJson(
+  json: unknown
+): ProgramDataInsert | ProgramDataExtend | ProgramDataRemove {
+  const [action] = singleEntry(json, 'program data action')
+  switch (action) {
+    case 'insert':
+      return ProgramDataInsert.fromJson(json)
+    case 'extend':
+      return ProgramDataExtend.fromJson(json)
+    case 'remove':
+      return ProgramDataRemove.fromJson(json)
+    default:
+      throw malformed('program data action', 'insert, extend or remove', action)
+  }
 }
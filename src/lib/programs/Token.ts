@@ -1,6 +1,37 @@
-import { TokenFieldValues, TokenUpdateValueTypes } from '../types'
+import {
+  TokenFieldActions,
+  TokenFieldKinds,
+  TokenFieldValues,
+  TokenOrProgramUpdateKinds,
+  TokenOrProgramUpdateValues,
+} from '../types'
 import { Address, AddressOrNamespace } from '@/lib/programs/Address-Namespace'
 import { ProgramUpdate } from '@/lib/programs/Program'
+import {
+  expectArray,
+  expectNumber,
+  expectObject,
+  expectOneOf,
+  expectPair,
+  expectString,
+  expectStringArray,
+  expectStringMap,
+  malformed,
+  nullable,
+  singleEntry,
+} from '@/lib/programs/json-helpers'
+
+const TOKEN_FIELDS: TokenFieldValues[] = [
+  'allowance',
+  'approvals',
+  'balance',
+  'data',
+  'metadata',
+  'ownerId',
+  'programId',
+  'status',
+  'tokenIds',
+]
 
 export class TokenMetadataInsert {
   private key: string
@@ -14,6 +45,15 @@ export class TokenMetadataInsert {
   toJson(): object {
     return { insert: [this.key, this.value] }
   }
+
+  static fromJson(json: unknown): TokenMetadataInsert {
+    const { insert } = expectObject(json, 'TokenMetadataInsert')
+    const [key, value] = expectPair(insert, 'TokenMetadataInsert.insert')
+    return new TokenMetadataInsert(
+      expectString(key, 'TokenMetadataInsert key'),
+      expectString(value, 'TokenMetadataInsert value')
+    )
+  }
 }
 
 export class TokenMetadataExtend {
@@ -26,6 +66,13 @@ export class TokenMetadataExtend {
   toJson(): object {
     return { extend: this.map }
   }
+
+  static fromJson(json: unknown): TokenMetadataExtend {
+    const { extend } = expectObject(json, 'TokenMetadataExtend')
+    return new TokenMetadataExtend(
+      expectStringMap(extend, 'TokenMetadataExtend.extend')
+    )
+  }
 }
 
 export class TokenMetadataRemove {
@@ -38,6 +85,13 @@ export class TokenMetadataRemove {
   toJson(): object {
     return { remove: this.key }
   }
+
+  static fromJson(json: unknown): TokenMetadataRemove {
+    const { remove } = expectObject(json, 'TokenMetadataRemove')
+    return new TokenMetadataRemove(
+      expectString(remove, 'TokenMetadataRemove.remove')
+    )
+  }
 }
 
 export class TokenMetadataValue {
@@ -52,6 +106,11 @@ export class TokenMetadataValue {
   toJson(): object {
     return { metadata: this.value.toJson() }
   }
+
+  static fromJson(json: unknown): TokenMetadataValue {
+    const { metadata } = expectObject(json, 'TokenMetadataValue')
+    return new TokenMetadataValue(tokenMetadataActionFromJson(metadata))
+  }
 }
 
 export class TokenIdPush {
@@ -64,6 +123,11 @@ export class TokenIdPush {
   toJson(): object {
     return { push: this.value.toString() }
   }
+
+  static fromJson(json: unknown): TokenIdPush {
+    const { push } = expectObject(json, 'TokenIdPush')
+    return new TokenIdPush(BigInt(expectString(push, 'TokenIdPush.push')))
+  }
 }
 
 export class TokenIdExtend {
@@ -76,6 +140,15 @@ export class TokenIdExtend {
   toJson(): object {
     return { extend: this.items.map((item) => item.toString()) }
   }
+
+  static fromJson(json: unknown): TokenIdExtend {
+    const { extend } = expectObject(json, 'TokenIdExtend')
+    return new TokenIdExtend(
+      expectStringArray(extend, 'TokenIdExtend.extend').map((item) =>
+        BigInt(item)
+      )
+    )
+  }
 }
 
 export class TokenIdInsert {
@@ -90,11 +163,28 @@ export class TokenIdInsert {
   toJson(): object {
     return { insert: [this.key, this.value.toString()] }
   }
+
+  static fromJson(json: unknown): TokenIdInsert {
+    const { insert } = expectObject(json, 'TokenIdInsert')
+    const [key, value] = expectPair(insert, 'TokenIdInsert.insert')
+    return new TokenIdInsert(
+      expectNumber(key, 'TokenIdInsert key'),
+      BigInt(expectString(value, 'TokenIdInsert value'))
+    )
+  }
 }
 
 export class TokenIdPop {
+  private pop: {} = {}
+
   toJson(): object {
-    return { pop: {} }
+    return { pop: this.pop }
+  }
+
+  static fromJson(json: unknown): TokenIdPop {
+    const { pop } = expectObject(json, 'TokenIdPop')
+    expectObject(pop, 'TokenIdPop.pop')
+    return new TokenIdPop()
   }
 }
 
@@ -108,6 +198,13 @@ export class TokenIdRemove {
   toJson(): object {
     return { remove: this.key.toString() }
   }
+
+  static fromJson(json: unknown): TokenIdRemove {
+    const { remove } = expectObject(json, 'TokenIdRemove')
+    return new TokenIdRemove(
+      BigInt(expectString(remove, 'TokenIdRemove.remove'))
+    )
+  }
 }
 
 export class TokenIdValue {
@@ -132,6 +229,11 @@ export class TokenIdValue {
   toJson(): object {
     return { tokenIds: this.value.toJson() }
   }
+
+  static fromJson(json: unknown): TokenIdValue {
+    const { tokenIds } = expectObject(json, 'TokenIdValue')
+    return new TokenIdValue(tokenIdActionFromJson(tokenIds))
+  }
 }
 
 export class TokenDataInsert {
@@ -146,6 +248,15 @@ export class TokenDataInsert {
   toJson(): object {
     return { insert: [this.key, this.value] }
   }
+
+  static fromJson(json: unknown): TokenDataInsert {
+    const { insert } = expectObject(json, 'TokenDataInsert')
+    const [key, value] = expectPair(insert, 'TokenDataInsert.insert')
+    return new TokenDataInsert(
+      expectString(key, 'TokenDataInsert key'),
+      expectString(value, 'TokenDataInsert value')
+    )
+  }
 }
 
 export class TokenDataExtend {
@@ -158,6 +269,13 @@ export class TokenDataExtend {
   toJson(): object {
     return { extend: this.map }
   }
+
+  static fromJson(json: unknown): TokenDataExtend {
+    const { extend } = expectObject(json, 'TokenDataExtend')
+    return new TokenDataExtend(
+      expectStringMap(extend, 'TokenDataExtend.extend')
+    )
+  }
 }
 
 export class TokenDataRemove {
@@ -170,6 +288,11 @@ export class TokenDataRemove {
   toJson(): object {
     return { remove: this.key }
   }
+
+  static fromJson(json: unknown): TokenDataRemove {
+    const { remove } = expectObject(json, 'TokenDataRemove')
+    return new TokenDataRemove(expectString(remove, 'TokenDataRemove.remove'))
+  }
 }
 
 export class TokenDataValue {
@@ -182,13 +305,18 @@ export class TokenDataValue {
   toJson(): object {
     return { data: this.value.toJson() }
   }
+
+  static fromJson(json: unknown): TokenDataValue {
+    const { data } = expectObject(json, 'TokenDataValue')
+    return new TokenDataValue(tokenDataActionFromJson(data))
+  }
 }
 
-export class TokenFieldValue {
-  private kind: string
-  private value: TokenUpdateValueTypes
+export class TokenFieldValue<K extends TokenFieldKinds = TokenFieldKinds> {
+  private kind: K
+  private value: TokenFieldActions[K]
 
-  constructor(kind: string, value: TokenUpdateValueTypes) {
+  constructor(kind: K, value: TokenFieldActions[K]) {
     this.kind = kind
     this.value = value
   }
@@ -196,25 +324,61 @@ export class TokenFieldValue {
   toJson(): object {
     return { [this.kind]: this.value.toJson() }
   }
+
+  getKind(): K {
+    return this.kind
+  }
+
+  getValue(): TokenFieldActions[K] {
+    return this.value
+  }
+
+  static fromJson(json: unknown): TokenFieldValue {
+    const [kind, value] = singleEntry(json, 'TokenFieldValue')
+    switch (kind) {
+      case 'metadata':
+        return new TokenFieldValue(kind, tokenMetadataActionFromJson(value))
+      case 'data':
+        return new TokenFieldValue(kind, tokenDataActionFromJson(value))
+      case 'tokenIds':
+        return new TokenFieldValue(kind, tokenIdActionFromJson(value))
+      case 'approvals':
+        return new TokenFieldValue(kind, approvalsActionFromJson(value))
+      case 'allowance':
+        return new TokenFieldValue(kind, allowanceActionFromJson(value))
+      case 'status':
+        return new TokenFieldValue(kind, StatusValue.fromJson(value))
+      default:
+        throw malformed(
+          'TokenFieldValue',
+          'one of metadata, data, tokenIds, approvals, allowance, status',
+          kind
+        )
+    }
+  }
 }
 
-export class TokenField {
-  private value: TokenFieldValues
+export class TokenField<K extends TokenFieldValues = TokenFieldValues> {
+  private value: K
 
-  constructor(value: TokenFieldValues) {
+  constructor(value: K) {
     this.value = value
   }
 
-  toJson(): string {
+  toJson(): K {
     return this.value
   }
+
+  static fromJson(json: unknown): TokenField {
+    return new TokenField(expectOneOf(json, TOKEN_FIELDS, 'TokenField'))
+  }
 }
 
-export class TokenUpdateField {
-  private field: TokenField
-  private value: TokenFieldValue
+export class TokenUpdateField<K extends TokenFieldKinds = TokenFieldKinds> {
+  private field: TokenField<K>
+  private value: TokenFieldValue<K>
 
-  constructor(field: TokenField, value: TokenFieldValue) {
+  constructor(field: TokenField<K>, value: TokenFieldValue<K>) {
     this.field = field
     this.value = value
   }
@@ -225,6 +389,23 @@ export class TokenUpdateField {
       value: this.value.toJson(),
     }
   }
+
+  static fromJson(json: unknown): TokenUpdateField {
+    const { field, value } = expectObject(json, 'TokenUpdateField')
+    const tokenField = TokenField.fromJson(field)
+    const tokenFieldValue = TokenFieldValue.fromJson(value)
+    if (tokenFieldValue.getKind() !== tokenField.toJson()) {
+      throw malformed(
+        'TokenUpdateField',
+        `a ${tokenField.toJson()} value`,
+        value
+      )
+    }
+    return new TokenUpdateField(
+      new TokenField(tokenFieldValue.getKind()),
+      tokenFieldValue
+    )
+  }
 }
 
 export class TokenUpdate {
@@ -249,6 +430,15 @@ export class TokenUpdate {
       updates: this.updates.map((update) => update.toJson()),
     }
   }
+
+  static fromJson(json: unknown): TokenUpdate {
+    const { account, token, updates } = expectObject(json, 'TokenUpdate')
+    return new TokenUpdate(
+      nullable(account, AddressOrNamespace.fromJson),
+      nullable(token, AddressOrNamespace.fromJson),
+      expectArray(updates, 'TokenUpdate.updates').map(TokenUpdateField.fromJson)
+    )
+  }
 }
 
 export class TokenDistribution {
@@ -274,13 +464,31 @@ export class TokenDistribution {
 
   toJson(): object {
     return {
-      programId: this.programId,
-      to: this.to,
-      amount: this.amount === null ? null : this.amount,
+      programId: this.programId?.toJson() ?? null,
+      to: this.to?.toJson() ?? null,
+      amount: this.amount,
       tokenIds: this.tokenIds.map((item) => item),
-      updateFields: this.updateFields.map((field) => field as TokenUpdateField),
+      updateFields: this.updateFields.map((field) => field.toJson()),
     }
   }
+
+  static fromJson(json: unknown): TokenDistribution {
+    const { programId, to, amount, tokenIds, updateFields } = expectObject(
+      json,
+      'TokenDistribution'
+    )
+    return new TokenDistribution(
+      nullable(programId, AddressOrNamespace.fromJson),
+      nullable(to, AddressOrNamespace.fromJson),
+      nullable(amount, (value) =>
+        expectString(value, 'TokenDistribution.amount')
+      ),
+      expectStringArray(tokenIds, 'TokenDistribution.tokenIds'),
+      expectArray(updateFields, 'TokenDistribution.updateFields').map(
+        TokenUpdateField.fromJson
+      )
+    )
+  }
 }
 
 export class ApprovalsInsert {
@@ -297,6 +505,15 @@ export class ApprovalsInsert {
       insert: [this.key.toJson(), this.value.map((inner) => inner)],
     }
   }
+
+  static fromJson(json: unknown): ApprovalsInsert {
+    const { insert } = expectObject(json, 'ApprovalsInsert')
+    const [key, value] = expectPair(insert, 'ApprovalsInsert.insert')
+    return new ApprovalsInsert(
+      Address.fromJson(key),
+      expectStringArray(value, 'ApprovalsInsert value')
+    )
+  }
 }
 
 export class ApprovalsExtend {
@@ -308,9 +525,22 @@ export class ApprovalsExtend {
 
   toJson(): object {
     return {
-      extend: this.items.map((item) => [item[0], item[1]]),
+      extend: this.items.map((item) => [item[0].toJson(), item[1]]),
     }
   }
+
+  static fromJson(json: unknown): ApprovalsExtend {
+    const { extend } = expectObject(json, 'ApprovalsExtend')
+    return new ApprovalsExtend(
+      expectArray(extend, 'ApprovalsExtend.extend').map((item) => {
+        const [key, value] = expectPair(item, 'ApprovalsExtend item')
+        return [
+          Address.fromJson(key),
+          expectStringArray(value, 'ApprovalsExtend value'),
+        ]
+      })
+    )
+  }
 }
 
 export class ApprovalsRemove {
@@ -327,6 +557,15 @@ export class ApprovalsRemove {
       remove: [this.key.toJson(), this.items.map((inner) => inner)],
     }
   }
+
+  static fromJson(json: unknown): ApprovalsRemove {
+    const { remove } = expectObject(json, 'ApprovalsRemove')
+    const [key, items] = expectPair(remove, 'ApprovalsRemove.remove')
+    return new ApprovalsRemove(
+      Address.fromJson(key),
+      expectStringArray(items, 'ApprovalsRemove items')
+    )
+  }
 }
 
 export class ApprovalsRevoke {
@@ -339,6 +578,11 @@ export class ApprovalsRevoke {
   toJson(): object {
     return { revoke: this.key.toJson() }
   }
+
+  static fromJson(json: unknown): ApprovalsRevoke {
+    const { revoke } = expectObject(json, 'ApprovalsRevoke')
+    return new ApprovalsRevoke(Address.fromJson(revoke))
+  }
 }
 
 export class ApprovalsValue {
@@ -357,6 +601,11 @@ export class ApprovalsValue {
   toJson(): object {
     return { approvals: this.value.toJson() }
   }
+
+  static fromJson(json: unknown): ApprovalsValue {
+    const { approvals } = expectObject(json, 'ApprovalsValue')
+    return new ApprovalsValue(approvalsActionFromJson(approvals))
+  }
 }
 
 export class AllowanceInsert {
@@ -371,6 +620,15 @@ export class AllowanceInsert {
   toJson(): object {
     return { insert: [this.key.toJson(), this.value] }
   }
+
+  static fromJson(json: unknown): AllowanceInsert {
+    const { insert } = expectObject(json, 'AllowanceInsert')
+    const [key, value] = expectPair(insert, 'AllowanceInsert.insert')
+    return new AllowanceInsert(
+      Address.fromJson(key),
+      expectString(value, 'AllowanceInsert value')
+    )
+  }
 }
 
 export class AllowanceExtend {
@@ -385,6 +643,19 @@ export class AllowanceExtend {
       extend: this.items.map((item) => [item[0].toJson(), item[1]]),
     }
   }
+
+  static fromJson(json: unknown): AllowanceExtend {
+    const { extend } = expectObject(json, 'AllowanceExtend')
+    return new AllowanceExtend(
+      expectArray(extend, 'AllowanceExtend.extend').map((item) => {
+        const [key, value] = expectPair(item, 'AllowanceExtend item')
+        return [
+          Address.fromJson(key),
+          expectString(value, 'AllowanceExtend value'),
+        ]
+      })
+    )
+  }
 }
 
 export class AllowanceRemove {
@@ -401,6 +672,15 @@ export class AllowanceRemove {
       remove: [this.key.toJson(), this.items.map((inner) => inner)],
     }
   }
+
+  static fromJson(json: unknown): AllowanceRemove {
+    const { remove } = expectObject(json, 'AllowanceRemove')
+    const [key, items] = expectPair(remove, 'AllowanceRemove.remove')
+    return new AllowanceRemove(
+      Address.fromJson(key),
+      expectStringArray(items, 'AllowanceRemove items')
+    )
+  }
 }
 
 export class AllowanceRevoke {
@@ -413,6 +693,11 @@ export class AllowanceRevoke {
   toJson(): object {
     return { revoke: this.key.toJson() }
   }
+
+  static fromJson(json: unknown): AllowanceRevoke {
+    const { revoke } = expectObject(json, 'AllowanceRevoke')
+    return new AllowanceRevoke(Address.fromJson(revoke))
+  }
 }
 
 export class AllowanceValue {
@@ -431,6 +716,11 @@ export class AllowanceValue {
   toJson(): object {
     return { allowance: this.value.toJson() }
   }
+
+  static fromJson(json: unknown): AllowanceValue {
+    const { allowance } = expectObject(json, 'AllowanceValue')
+    return new AllowanceValue(allowanceActionFromJson(allowance))
+  }
 }
 
 export class StatusValue {
@@ -443,13 +733,20 @@ export class StatusValue {
   toJson(): object {
     return { statusValue: this.value }
   }
+
+  static fromJson(json: unknown): StatusValue {
+    const { statusValue } = expectObject(json, 'StatusValue')
+    return new StatusValue(expectString(statusValue, 'StatusValue.statusValue'))
+  }
 }
 
-export class TokenOrProgramUpdate {
-  private kind: string
-  private value: TokenUpdate | ProgramUpdate
+export class TokenOrProgramUpdate<
+  K extends TokenOrProgramUpdateKinds = TokenOrProgramUpdateKinds,
+> {
+  private kind: K
+  private value: TokenOrProgramUpdateValues[K]
 
-  constructor(kind: string, value: TokenUpdate | ProgramUpdate) {
+  constructor(kind: K, value: TokenOrProgramUpdateValues[K]) {
     this.kind = kind
     this.value = value
   }
@@ -457,4 +754,132 @@ export class TokenOrProgramUpdate {
   toJson(): object {
     return { [this.kind]: this.value.toJson() }
   }
+
+  getKind(): K {
+    return this.kind
+  }
+
+  getValue(): TokenOrProgramUpdateValues[K] {
+    return this.value
+  }
+
+  static fromJson(json: unknown): TokenOrProgramUpdate {
+    const [kind, value] = singleEntry(json, 'TokenOrProgramUpdate')
+    switch (kind) {
+      case 'tokenUpdate':
+        return new TokenOrProgramUpdate(kind, TokenUpdate.fromJson(value))
+      case 'programUpdate':
+        return new TokenOrProgramUpdate(kind, ProgramUpdate.fromJson(value))
+      default:
+        throw malformed(
+          'TokenOrProgramUpdate',
+          'tokenUpdate or programUpdate',
+          kind
+        )
+    }
+  }
+}
+
+function tokenMetadataActionFromJson(
+  json: unknown
+): TokenMetadataInsert | TokenMetadataExtend | TokenMetadataRemove {
+  const [action] = singleEntry(json, 'token metadata action')
+  switch (action) {
+    case 'insert':
+      return TokenMetadataInsert.fromJson(json)
+    case 'extend':
+      return TokenMetadataExtend.fromJson(json)
+    case 'remove':
+      return TokenMetadataRemove.fromJson(json)
+    default:
+      throw malformed(
+        'token metadata action',
+        'insert, extend or remove',
+        action
+      )
+  }
+}
+
+function tokenDataActionFromJson(
+  json: unknown
+): TokenDataInsert | TokenDataExtend | TokenDataRemove {
+  const [action] = singleEntry(json, 'token data action')
+  switch (action) {
+    case 'insert':
+      return TokenDataInsert.fromJson(json)
+    case 'extend':
+      return TokenDataExtend.fromJson(json)
+    case 'remove':
+      return TokenDataRemove.fromJson(json)
+    default:
+      throw malformed('token data action', 'insert, extend or remove', action)
+  }
+}
+
+function tokenIdActionFromJson(
+  json: unknown
+): TokenIdPush | TokenIdExtend | TokenIdInsert | TokenIdPop | TokenIdRemove {
+  const [action] = singleEntry(json, 'token ids action')
+  switch (action) {
+    case 'push':
+      return TokenIdPush.fromJson(json)
+    case 'extend':
+      return TokenIdExtend.fromJson(json)
+    case 'insert':
+      return TokenIdInsert.fromJson(json)
+    case 'pop':
+      return TokenIdPop.fromJson(json)
+    case 'remove':
+      return TokenIdRemove.fromJson(json)
+    default:
+      throw malformed(
+        'token ids action',
+        'push, extend, insert, pop or remove',
+        action
+      )
+  }
+}
+
+function approvalsActionFromJson(
+  json: unknown
+): ApprovalsInsert | ApprovalsExtend | ApprovalsRemove | ApprovalsRevoke {
+  const [action] = singleEntry(json, 'approvals action')
+  switch (action) {
+    case 'insert':
+      return ApprovalsInsert.fromJson(json)
+    case 'extend':
+      return ApprovalsExtend.fromJson(json)
+    case 'remove':
+      return ApprovalsRemove.fromJson(json)
+    case 'revoke':
+      return ApprovalsRevoke.fromJson(json)
+    default:
+      throw malformed(
+        'approvals action',
+        'insert, extend, remove or revoke',
+        action
+      )
+  }
+}
+
+function allowanceActionFromJson(
+  json: unknown
+): AllowanceInsert | AllowanceExtend | AllowanceRemove | AllowanceRevoke {
+  const [action] = singleEntry(json, 'allowance action')
+  switch (action) {
+    case 'insert':
+      return AllowanceInsert.fromJson(json)
+    case 'extend':
+      return AllowanceExtend.fromJson(json)
+    case 'remove':
+      return AllowanceRemove.fromJson(json)
+    case 'revoke':
+      return AllowanceRevoke.fromJson(json)
+    default:
+      throw malformed(
+        'allowance action',
+        'insert, extend, remove or revoke',
+        action
+      )
+  }
 }
@@ -7,4 +7,6 @@ export * from './Address-Namespace'
 export * from './Instruction'
 export * from './Outputs'
 export * from './Program'
+export * from './program-runner'
+export * from './schema'
 export * from './Token'
@@ -1,14 +1,20 @@
 import {
   BurnInstructionBuilder,
   CreateInstructionBuilder,
+  LogInstructionBuilder,
   TokenDistributionBuilder,
   TransferInstructionBuilder,
   UpdateInstructionBuilder,
 } from '@/lib/programs/instruction-builders/builders'
 import {
+  AllowanceExtend,
+  AllowanceInsert,
+  AllowanceRemove,
+  AllowanceRevoke,
   ApprovalsExtend,
   ApprovalsInsert,
   ApprovalsRemove,
+  ApprovalsRevoke,
   StatusValue,
   TokenDataExtend,
   TokenDataInsert,
@@ -26,10 +32,9 @@ import {
 
 import {
   Account,
-  ProgramFieldValues,
-  ProgramUpdateValueTypes,
-  TokenFieldValues,
-  TokenUpdateValueTypes,
+  LogFieldType,
+  ProgramUpdateFieldParams,
+  TokenUpdateFieldParams,
 } from '@/lib/types'
 import {
   LinkedProgramsExtend,
@@ -44,6 +49,7 @@ import {
   ProgramMetadataRemove,
 } from '@/lib/programs/Program'
 import { THIS } from '@/lib/consts'
+import { ValidationError } from '@/lib/errors'
 import { formatBigIntToHex, formatAmountToHex } from '@/lib/utils'
 import {
   ProgramField,
@@ -84,27 +90,24 @@ export function buildBurnInstruction({
   amount?: string
   tokenIds?: string[]
 }) {
-  try {
-    const instructionBuilder = new BurnInstructionBuilder()
-      .setProgramId(new AddressOrNamespace(new Address(programId)))
-      .setCaller(new Address(caller))
-      .setTokenAddress(new Address(tokenAddress))
-      .setBurnFromAddress(new AddressOrNamespace(new Address(from)))
-
-    if (amount) {
-      instructionBuilder.setAmount(formatBigIntToHex(BigInt(amount)))
-    } else if (tokenIds) {
-      instructionBuilder.extendTokenIds(tokenIds)
-    } else {
-      throw new Error(
-        'Invalid burn builder arguments. Missing amount or tokenIds'
-      )
-    }
-
-    return instructionBuilder.build()
-  } catch (e) {
-    throw e
+  const instructionBuilder = new BurnInstructionBuilder()
+    .setProgramId(new AddressOrNamespace(new Address(programId)))
+    .setCaller(new Address(caller))
+    .setTokenAddress(new Address(tokenAddress))
+    .setBurnFromAddress(new AddressOrNamespace(new Address(from)))
+
+  if (amount) {
+    instructionBuilder.setAmount(formatBigIntToHex(BigInt(amount)))
+  } else if (tokenIds) {
+    instructionBuilder.extendTokenIds(tokenIds)
+  } else {
+    throw new ValidationError(
+      'Invalid burn builder arguments. Missing amount or tokenIds',
+      [{ field: 'amount', message: 'or tokenIds is required' }]
+    )
   }
+
+  return instructionBuilder.build()
 }
 
 /**
@@ -139,38 +142,31 @@ export function buildCreateInstruction({
   programNamespace: string
   distributionInstruction?: TokenDistribution
 }) {
-  try {
-    // Initialize the CreateInstructionBuilder and set the basic parameters for the creation operation.
-    const instructionBuilder = new CreateInstructionBuilder()
-      .setProgramId(new AddressOrNamespace(new Address(programId)))
-      .setProgramOwner(new Address(programOwner))
-      .setProgramNamespace(
-        new AddressOrNamespace(new Address(programNamespace))
-      )
-
-    // Optionally set the initialized supply if it's provided, converting the value to a hex string.
-    if (initializedSupply !== undefined) {
-      instructionBuilder.setInitializedSupply(
-        formatBigIntToHex(BigInt(initializedSupply))
-      )
-    }
+  // Initialize the CreateInstructionBuilder and set the basic parameters for the creation operation.
+  const instructionBuilder = new CreateInstructionBuilder()
+    .setProgramId(new AddressOrNamespace(new Address(programId)))
+    .setProgramOwner(new Address(programOwner))
+    .setProgramNamespace(new AddressOrNamespace(new Address(programNamespace)))
 
-    // Optionally set the total supply if it's provided, also converting this value to a hex string.
-    if (totalSupply !== undefined) {
-      instructionBuilder.setTotalSupply(formatBigIntToHex(BigInt(totalSupply)))
-    }
+  // Optionally set the initialized supply if it's provided, converting the value to a hex string.
+  if (initializedSupply !== undefined) {
+    instructionBuilder.setInitializedSupply(
+      formatBigIntToHex(BigInt(initializedSupply))
+    )
+  }
 
-    // If a distribution instruction is provided, add it to the builder.
-    if (distributionInstruction !== undefined) {
-      instructionBuilder.addTokenDistribution(distributionInstruction)
-    }
+  // Optionally set the total supply if it's provided, also converting this value to a hex string.
+  if (totalSupply !== undefined) {
+    instructionBuilder.setTotalSupply(formatBigIntToHex(BigInt(totalSupply)))
+  }
 
-    // Finalize the creation of the instruction and return it.
-    return instructionBuilder.build()
-  } catch (e) {
-    // In case of any errors during the build process, rethrow the caught exception.
-    throw e
+  // If a distribution instruction is provided, add it to the builder.
+  if (distributionInstruction !== undefined) {
+    instructionBuilder.addTokenDistribution(distributionInstruction)
   }
+
+  // Finalize the creation of the instruction and return it.
+  return instructionBuilder.build()
 }
 
 /**
@@ -280,49 +276,45 @@ export function buildMintInstructions({
   returnedTokenIds?: string[]
   returnedValue?: BigInt
 }) {
-  try {
-    // Instruction to transfer payment from the caller to the program.
-    const transferToProgram = buildTransferInstruction({
-      from: from,
-      to: 'this', // Represents the program's address.
-      tokenAddress: paymentTokenAddress,
-      amount: inputValue,
-    })
-
-    // Setup arguments for the transfer back to the caller, depending on whether it's an NFT or fungible tokens.
-    const mintTransferArguments: {
-      from: string
-      to: string
-      tokenAddress: string
-      amount?: BigInt
-      tokenIds?: string[]
-    } = {
-      from: 'this', // Represents the program's address, indicating the source of the minted tokens.
-      to: from, // The recipient of the minted tokens.
-      tokenAddress: programId, // The minted token or NFT's program ID.
-    }
+  // Instruction to transfer payment from the caller to the program.
+  const transferToProgram = buildTransferInstruction({
+    from: from,
+    to: 'this', // Represents the program's address.
+    tokenAddress: paymentTokenAddress,
+    amount: inputValue,
+  })
+
+  // Setup arguments for the transfer back to the caller, depending on whether it's an NFT or fungible tokens.
+  const mintTransferArguments: {
+    from: string
+    to: string
+    tokenAddress: string
+    amount?: BigInt
+    tokenIds?: string[]
+  } = {
+    from: 'this', // Represents the program's address, indicating the source of the minted tokens.
+    to: from, // The recipient of the minted tokens.
+    tokenAddress: programId, // The minted token or NFT's program ID.
+  }
 
-    // Determine whether to set amount or token IDs based on what's returned from the minting process.
-    if (returnedValue) {
-      mintTransferArguments.amount = returnedValue
-    } else if (returnedTokenIds) {
-      mintTransferArguments.tokenIds = returnedTokenIds
-    } else {
-      // Error handling if neither amount nor token IDs are specified for the minted assets.
-      throw new Error(
-        'Invalid mint builder arguments. Missing amount or tokenIds'
-      )
-    }
+  // Determine whether to set amount or token IDs based on what's returned from the minting process.
+  if (returnedValue) {
+    mintTransferArguments.amount = returnedValue
+  } else if (returnedTokenIds) {
+    mintTransferArguments.tokenIds = returnedTokenIds
+  } else {
+    // Error handling if neither amount nor token IDs are specified for the minted assets.
+    throw new ValidationError(
+      'Invalid mint builder arguments. Missing amount or tokenIds',
+      [{ field: 'returnedValue', message: 'or returnedTokenIds is required' }]
+    )
+  }
 
-    // Instruction to transfer the minted tokens or NFTs back to the caller.
-    const transferToCaller = buildTransferInstruction(mintTransferArguments)
+  // Instruction to transfer the minted tokens or NFTs back to the caller.
+  const transferToCaller = buildTransferInstruction(mintTransferArguments)
 
-    // Return the sequence of instructions: payment transfer, then transfer of minted assets.
-    return [transferToProgram, transferToCaller]
-  } catch (e) {
-    // Rethrow any caught exceptions for upstream error handling.
-    throw e
-  }
+  // Return the sequence of instructions: payment transfer, then transfer of minted assets.
+  return [transferToProgram, transferToCaller]
 }
 
 /**
@@ -354,142 +346,206 @@ export function buildTransferInstruction({
   amount?: BigInt
   tokenIds?: string[]
 }) {
-  try {
-    // Convert string addresses to Address or AddressOrNamespace objects as required by the builder.
-    const toAddressOrNamespace = new AddressOrNamespace(new Address(to))
-    const fromAddressOrNamespace = new AddressOrNamespace(new Address(from))
-    const tokenAddressOrNamespace = new Address(tokenAddress)
-
-    // Initialize a TransferInstructionBuilder and set the from, to, and token addresses.
-    const instructionBuilder = new TransferInstructionBuilder()
-      .setTransferFrom(fromAddressOrNamespace)
-      .setTransferTo(toAddressOrNamespace)
-      .setTokenAddress(tokenAddressOrNamespace)
-
-    // If token IDs are specified (for NFTs or specific fungible token units), add them to the instruction.
-    if (tokenIds) {
-      instructionBuilder.addTokenIds(tokenIds)
-    }
-
-    // If an amount is specified (for fungible tokens), set the amount in the instruction.
-    if (amount !== undefined) {
-      instructionBuilder.setAmount(formatBigIntToHex(amount))
-    }
+  // Convert string addresses to Address or AddressOrNamespace objects as required by the builder.
+  const toAddressOrNamespace = new AddressOrNamespace(new Address(to))
+  const fromAddressOrNamespace = new AddressOrNamespace(new Address(from))
+  const tokenAddressOrNamespace = new Address(tokenAddress)
+
+  // Initialize a TransferInstructionBuilder and set the from, to, and token addresses.
+  const instructionBuilder = new TransferInstructionBuilder()
+    .setTransferFrom(fromAddressOrNamespace)
+    .setTransferTo(toAddressOrNamespace)
+    .setTokenAddress(tokenAddressOrNamespace)
+
+  // If token IDs are specified (for NFTs or specific fungible token units), add them to the instruction.
+  if (tokenIds) {
+    instructionBuilder.addTokenIds(tokenIds)
+  }
 
-    // Build and return the finalized transfer instruction.
-    return instructionBuilder.build()
-  } catch (e) {
-    // In case of any errors during the build process, rethrow the caught exception.
-    throw e
+  // If an amount is specified (for fungible tokens), set the amount in the instruction.
+  if (amount !== undefined) {
+    instructionBuilder.setAmount(formatBigIntToHex(amount))
   }
+
+  // Build and return the finalized transfer instruction.
+  return instructionBuilder.build()
 }
 
 /**
- * Constructs a `TokenUpdateField` object for updating token fields with specified actions such as insert, extend, or remove.
- * This function supports various field types including metadata, data, approvals, and status, with specific actions tailored
- * to each field type. It validates the field and action types and constructs the appropriate update action object.
+ * Constructs a `TokenUpdateField` object for updating token fields with specified actions such as insert, extend, remove or revoke.
+ * This function supports various field types including metadata, data, approvals, allowance, and status, with specific actions tailored
+ * to each field type. The accepted field, action and value combinations are described by `TokenUpdateFieldParams`, so mismatches
+ * such as `status` with `extend` are rejected at compile time.
  *
- * @param {Object} params - The parameters required to build the token update field.
- * @param {TokenFieldValues} params.field - The specific field of the token to be updated (e.g., metadata, data, approvals, status).
- * @param {string | Array<[Address, string]>} params.value - The new value for the field, which can be a string or an array of tuples for approvals.
- * @param {'insert' | 'extend' | 'remove'} params.action - The action to be taken on the field (insert, extend, remove).
+ * Approvals take `[spender, tokenIds]` tuples and allowance takes `[spender, amount]` tuples. `extend` takes any number of
+ * tuples, while `insert` and `remove` take exactly one. Removing from an allowance lowers it by the given amount, and
+ * `revoke` takes the spender address as a string and drops its approvals or allowance.
+ *
+ * @param {TokenUpdateFieldParams} params - The parameters required to build the token update field.
+ * @param {TokenFieldValues} params.field - The specific field of the token to be updated (e.g., metadata, data, approvals, allowance, status).
+ * @param {string | Array<[Address, string[]]> | Array<[Address, string]>} params.value - The new value for the field, which can be a string or an array of tuples for approvals and allowance.
+ * @param {'insert' | 'extend' | 'remove' | 'revoke'} params.action - The action to be taken on the field (insert, extend, remove, revoke).
  * @returns {TokenUpdateField} A token update field object configured with the provided details.
  *
  * @throws {Error} Throws an error if an invalid field or action is specified, or if the value format does not match the expected type for the field.
+ * @throws {ValidationError} Throws if `insert` or `remove` is given more or less than one tuple.
  */
 export function buildTokenUpdateField({
   field,
   value,
   action,
-}: {
-  field: TokenFieldValues
-  value: string | Array<[Address, string[]]>
-  action: 'insert' | 'extend' | 'remove'
-}): TokenUpdateField {
-  try {
-    let tokenFieldAction: TokenUpdateValueTypes
-
-    // Handle array values specifically for the 'approvals' field.
-    if (value instanceof Array) {
-      if (field === 'approvals') {
-        switch (action) {
-          case 'extend':
-            tokenFieldAction = new ApprovalsExtend(value)
-            break
-          case 'insert':
-            tokenFieldAction = new ApprovalsInsert(value[0][0], value[0][1])
-            break
-          case 'remove':
-            throw new Error(`Not yet implemented: ${action}`)
-          default:
-            throw new Error(`Invalid action for approvals: ${action}`)
+}: TokenUpdateFieldParams): TokenUpdateField {
+  let tokenFieldValue: TokenFieldValue
+
+  // Each field only accepts its own action classes, so the value is built per field.
+  switch (field) {
+    case 'approvals':
+      switch (action) {
+        case 'extend':
+          tokenFieldValue = new TokenFieldValue(
+            field,
+            new ApprovalsExtend(value)
+          )
+          break
+        case 'insert':
+          tokenFieldValue = new TokenFieldValue(
+            field,
+            new ApprovalsInsert(...singleTuple(field, action, value))
+          )
+          break
+        case 'remove':
+          tokenFieldValue = new TokenFieldValue(
+            field,
+            new ApprovalsRemove(...singleTuple(field, action, value))
+          )
+          break
+        case 'revoke':
+          // Revoking takes the address of the spender losing its approvals.
+          tokenFieldValue = new TokenFieldValue(
+            field,
+            new ApprovalsRevoke(new Address(value))
+          )
+          break
+        default:
+          throw new ValidationError(`Invalid action for approvals: ${action}`, [
+            { field: 'action', message: 'is not supported' },
+          ])
+      }
+      break
+    case 'allowance':
+      switch (action) {
+        case 'extend':
+          tokenFieldValue = new TokenFieldValue(
+            field,
+            new AllowanceExtend(value)
+          )
+          break
+        case 'insert':
+          tokenFieldValue = new TokenFieldValue(
+            field,
+            new AllowanceInsert(...singleTuple(field, action, value))
+          )
+          break
+        case 'remove': {
+          const [spender, amount] = singleTuple(field, action, value)
+          tokenFieldValue = new TokenFieldValue(
+            field,
+            new AllowanceRemove(spender, [amount])
+          )
+          break
         }
-      } else {
-        throw new Error(`Invalid field for array value: ${field}`)
+        case 'revoke':
+          // Revoking takes the address of the spender losing its allowance.
+          tokenFieldValue = new TokenFieldValue(
+            field,
+            new AllowanceRevoke(new Address(value))
+          )
+          break
+        default:
+          throw new ValidationError(`Invalid action for allowance: ${action}`, [
+            { field: 'action', message: 'is not supported' },
+          ])
       }
-    } else {
-      // Handle string values for 'metadata', 'data', and 'status' fields with specific actions.
-      switch (field) {
-        case 'metadata':
-          switch (action) {
-            case 'extend':
-              tokenFieldAction = new TokenMetadataExtend(JSON.parse(value))
-              break
-            case 'insert':
-              const [key, insertValue] = JSON.parse(value).split(':')
-              tokenFieldAction = new TokenMetadataInsert(key, insertValue)
-              break
-            case 'remove':
-              tokenFieldAction = new TokenMetadataRemove(value)
-              break
-            default:
-              throw new Error(`Invalid action for metadata: ${action}`)
-          }
+      break
+    case 'metadata':
+      switch (action) {
+        case 'extend':
+          tokenFieldValue = new TokenFieldValue(
+            field,
+            new TokenMetadataExtend(JSON.parse(value))
+          )
           break
-        case 'data':
-          switch (action) {
-            case 'extend':
-              tokenFieldAction = new TokenDataExtend(JSON.parse(value))
-              break
-            case 'insert':
-              const [key, insertValue] = JSON.parse(value).split(':')
-              tokenFieldAction = new TokenDataInsert(key, insertValue)
-              break
-            case 'remove':
-              tokenFieldAction = new TokenDataRemove(value)
-              break
-            default:
-              throw new Error(`Invalid action for data: ${action}`)
-          }
+        case 'insert':
+          const [key, insertValue] = JSON.parse(value).split(':')
+          tokenFieldValue = new TokenFieldValue(
+            field,
+            new TokenMetadataInsert(key, insertValue)
+          )
           break
-        case 'status':
-          if (action !== 'insert') {
-            throw new Error(`Invalid action for status: ${action}`)
-          }
-          tokenFieldAction = new StatusValue(value)
+        case 'remove':
+          tokenFieldValue = new TokenFieldValue(
+            field,
+            new TokenMetadataRemove(value)
+          )
           break
         default:
-          throw new Error(`Unsupported field: ${field}`)
+          throw new ValidationError(`Invalid action for metadata: ${action}`, [
+            { field: 'action', message: 'is not supported' },
+          ])
       }
-    }
-
-    // Construct and return the TokenUpdateField object with the specified field and action.
-    return new TokenUpdateField(
-      new TokenField(field),
-      new TokenFieldValue(field, tokenFieldAction)
-    )
-  } catch (e) {
-    // Rethrow any caught exceptions for upstream error handling.
-    throw e
+      break
+    case 'data':
+      switch (action) {
+        case 'extend':
+          tokenFieldValue = new TokenFieldValue(
+            field,
+            new TokenDataExtend(JSON.parse(value))
+          )
+          break
+        case 'insert':
+          const [key, insertValue] = JSON.parse(value).split(':')
+          tokenFieldValue = new TokenFieldValue(
+            field,
+            new TokenDataInsert(key, insertValue)
+          )
+          break
+        case 'remove':
+          tokenFieldValue = new TokenFieldValue(
+            field,
+            new TokenDataRemove(value)
+          )
+          break
+        default:
+          throw new ValidationError(`Invalid action for data: ${action}`, [
+            { field: 'action', message: 'is not supported' },
+          ])
+      }
+      break
+    case 'status':
+      if (action !== 'insert') {
+        throw new ValidationError(`Invalid action for status: ${action}`, [
+          { field: 'action', message: 'is not supported' },
+        ])
+      }
+      tokenFieldValue = new TokenFieldValue(field, new StatusValue(value))
+      break
+    default:
+      throw new ValidationError(`Unsupported field: ${field}`, [
+        { field: 'field', message: 'is not supported' },
+      ])
   }
+
+  // Construct and return the TokenUpdateField object with the specified field and action.
+  return new TokenUpdateField(new TokenField(field), tokenFieldValue)
 }
 
 /**
  * Constructs a `ProgramUpdateField` object for updating program fields with specified actions such as insert, extend, or remove.
- * This function supports various field types including metadata, data, and status, with specific actions tailored to each field type.
- * It validates the field and action types and constructs the appropriate update action object.
+ * This function supports various field types including metadata, data, linked programs and status, with specific actions tailored
+ * to each field type. The accepted field and action combinations are described by `ProgramUpdateFieldParams`, so e.g. `status`
+ * with `extend` is rejected at compile time.
  *
- * @param {Object} params - The parameters required to build the program update field.
+ * @param {ProgramUpdateFieldParams} params - The parameters required to build the program update field.
  * @param {ProgramFieldValues} params.field - The specific field of the program to be updated (e.g., metadata, data, status).
  * @param {string} params.value - The new value for the field, which must be a string.
  * @param {'insert' | 'extend' | 'remove'} params.action - The action to be taken on the field (insert, extend, remove).
@@ -501,82 +557,107 @@ export function buildProgramUpdateField({
   field,
   value,
   action,
-}: {
-  field: ProgramFieldValues
-  value: string
-  action: 'insert' | 'extend' | 'remove'
-}): ProgramUpdateField {
-  try {
-    let programFieldAction: ProgramUpdateValueTypes
-
-    // Determine the action object based on the field type and action.
-    switch (field) {
-      case 'metadata':
-        switch (action) {
-          case 'extend':
-            programFieldAction = new ProgramMetadataExtend(JSON.parse(value))
-            break
-          case 'insert':
-            const [key, insertValue] = JSON.parse(value).split(':')
-            programFieldAction = new ProgramMetadataInsert(key, insertValue)
-            break
-          case 'remove':
-            programFieldAction = new ProgramMetadataRemove(value)
-            break
-          default:
-            throw new Error(`Invalid metadata action: ${action}`)
-        }
-        break
-      case 'data':
-        switch (action) {
-          case 'extend':
-            programFieldAction = new ProgramDataExtend(JSON.parse(value))
-            break
-          case 'insert':
-            const [dataKey, dataValue] = JSON.parse(value).split(':')
-            programFieldAction = new ProgramDataInsert(dataKey, dataValue)
-            break
-          case 'remove':
-            programFieldAction = new ProgramDataRemove(value)
-            break
-          default:
-            throw new Error(`Invalid data action: ${action}`)
-        }
-        break
-      case 'linkedPrograms':
-        switch (action) {
-          case 'extend':
-            programFieldAction = new LinkedProgramsExtend([new Address(value)])
-            break
-          case 'insert':
-            programFieldAction = new LinkedProgramsInsert(new Address(value))
-            break
-          case 'remove':
-            programFieldAction = new LinkedProgramsRemove(new Address(value))
-            break
-          default:
-            throw new Error(`Invalid linkedProgram action: ${action}`)
-        }
-        break
-      case 'status':
-        if (action !== 'insert') {
-          throw new Error(`Invalid action for status: ${action}`)
-        }
-        programFieldAction = new StatusValue(value)
-        break
-      default:
-        throw new Error(`Invalid field: ${field}`)
-    }
-
-    // Construct and return the ProgramUpdateField object with the specified field and action.
-    return new ProgramUpdateField(
-      new ProgramField(field),
-      new ProgramFieldValue(field, programFieldAction)
-    )
-  } catch (e) {
-    // Rethrow any caught exceptions for upstream error handling.
-    throw e
+}: ProgramUpdateFieldParams): ProgramUpdateField {
+  let programFieldValue: ProgramFieldValue
+
+  // Determine the action object based on the field type and action.
+  switch (field) {
+    case 'metadata':
+      switch (action) {
+        case 'extend':
+          programFieldValue = new ProgramFieldValue(
+            field,
+            new ProgramMetadataExtend(JSON.parse(value))
+          )
+          break
+        case 'insert':
+          const [key, insertValue] = JSON.parse(value).split(':')
+          programFieldValue = new ProgramFieldValue(
+            field,
+            new ProgramMetadataInsert(key, insertValue)
+          )
+          break
+        case 'remove':
+          programFieldValue = new ProgramFieldValue(
+            field,
+            new ProgramMetadataRemove(value)
+          )
+          break
+        default:
+          throw new ValidationError(`Invalid metadata action: ${action}`, [
+            { field: 'action', message: 'is not supported' },
+          ])
+      }
+      break
+    case 'data':
+      switch (action) {
+        case 'extend':
+          programFieldValue = new ProgramFieldValue(
+            field,
+            new ProgramDataExtend(JSON.parse(value))
+          )
+          break
+        case 'insert':
+          const [dataKey, dataValue] = JSON.parse(value).split(':')
+          programFieldValue = new ProgramFieldValue(
+            field,
+            new ProgramDataInsert(dataKey, dataValue)
+          )
+          break
+        case 'remove':
+          programFieldValue = new ProgramFieldValue(
+            field,
+            new ProgramDataRemove(value)
+          )
+          break
+        default:
+          throw new ValidationError(`Invalid data action: ${action}`, [
+            { field: 'action', message: 'is not supported' },
+          ])
+      }
+      break
+    case 'linkedPrograms':
+      switch (action) {
+        case 'extend':
+          programFieldValue = new ProgramFieldValue(
+            field,
+            new LinkedProgramsExtend([new Address(value)])
+          )
+          break
+        case 'insert':
+          programFieldValue = new ProgramFieldValue(
+            field,
+            new LinkedProgramsInsert(new Address(value))
+          )
+          break
+        case 'remove':
+          programFieldValue = new ProgramFieldValue(
+            field,
+            new LinkedProgramsRemove(new Address(value))
+          )
+          break
+        default:
+          throw new ValidationError(`Invalid linkedProgram action: ${action}`, [
+            { field: 'action', message: 'is not supported' },
+          ])
+      }
+      break
+    case 'status':
+      if (action !== 'insert') {
+        throw new ValidationError(`Invalid action for status: ${action}`, [
+          { field: 'action', message: 'is not supported' },
+        ])
+      }
+      programFieldValue = new ProgramFieldValue(field, new StatusValue(value))
+      break
+    default:
+      throw new ValidationError(`Invalid field: ${field}`, [
+        { field: 'field', message: 'is not supported' },
+      ])
   }
+
+  // Construct and return the ProgramUpdateField object with the specified field and action.
+  return new ProgramUpdateField(new ProgramField(field), programFieldValue)
 }
 
 /**
@@ -601,29 +682,24 @@ export function buildTokenMetadataUpdateInstruction({
   tokenAddress: Address | Namespace | 'this'
   transactionInputs: string
 }) {
-  try {
-    // Build the token update field for metadata with the provided transaction inputs and action 'extend'.
-    const tokenUpdateField = buildTokenUpdateField({
-      field: 'metadata',
-      value: transactionInputs,
-      action: 'extend',
-    })
-
-    // Use the built token update field to create a token or program update instruction.
-    return buildUpdateInstruction({
-      update: new TokenOrProgramUpdate(
-        'tokenUpdate',
-        new TokenUpdate(
-          new AddressOrNamespace(accountAddress),
-          new AddressOrNamespace(tokenAddress),
-          [tokenUpdateField]
-        )
-      ),
-    })
-  } catch (e) {
-    // Rethrow any caught exceptions for upstream error handling.
-    throw e
-  }
+  // Build the token update field for metadata with the provided transaction inputs and action 'extend'.
+  const tokenUpdateField = buildTokenUpdateField({
+    field: 'metadata',
+    value: transactionInputs,
+    action: 'extend',
+  })
+
+  // Use the built token update field to create a token or program update instruction.
+  return buildUpdateInstruction({
+    update: new TokenOrProgramUpdate(
+      'tokenUpdate',
+      new TokenUpdate(
+        new AddressOrNamespace(accountAddress),
+        new AddressOrNamespace(tokenAddress),
+        [tokenUpdateField]
+      )
+    ),
+  })
 }
 /**
  * Constructs a program metadata update instruction for updating the metadata of a program. This function
@@ -642,28 +718,23 @@ export function buildProgramMetadataUpdateInstruction({
 }: {
   transactionInputs: string
 }) {
-  try {
-    // Build the program update field for metadata with the provided transaction inputs and action 'extend'.
-    const programUpdateField = buildProgramUpdateField({
-      field: 'metadata',
-      value: transactionInputs,
-      action: 'extend',
-    })
-
-    // Use the built program update field to create a program update instruction.
-    // Note: 'THIS' should be replaced with the actual program identifier where the update is to be applied.
-    return buildUpdateInstruction({
-      update: new TokenOrProgramUpdate(
-        'programUpdate',
-        // The AddressOrNamespace should be replaced with the actual address or namespace
-        // of the program intended for update. The placeholder 'THIS' is used here for demonstration.
-        new ProgramUpdate(new AddressOrNamespace(THIS), [programUpdateField])
-      ),
-    })
-  } catch (e) {
-    // Rethrow any caught exceptions for upstream error handling.
-    throw e
-  }
+  // Build the program update field for metadata with the provided transaction inputs and action 'extend'.
+  const programUpdateField = buildProgramUpdateField({
+    field: 'metadata',
+    value: transactionInputs,
+    action: 'extend',
+  })
+
+  // Use the built program update field to create a program update instruction.
+  // Note: 'THIS' should be replaced with the actual program identifier where the update is to be applied.
+  return buildUpdateInstruction({
+    update: new TokenOrProgramUpdate(
+      'programUpdate',
+      // The AddressOrNamespace should be replaced with the actual address or namespace
+      // of the program intended for update. The placeholder 'THIS' is used here for demonstration.
+      new ProgramUpdate(new AddressOrNamespace(THIS), [programUpdateField])
+    ),
+  })
 }
 /**
  * Constructs a program data update instruction for updating the data of a program. This function
@@ -685,26 +756,138 @@ export function buildProgramDataUpdateInstruction({
 }: {
   transactionInputs: string
 }) {
-  try {
-    // Correcting the field to 'data' for updating program data.
-    const programUpdateField = buildProgramUpdateField({
-      field: 'data', // Correct field to 'data'.
-      value: transactionInputs,
-      action: 'extend',
-    })
-
-    // Use the built program update field to create a program update instruction.
-    // Note: 'THIS' should be replaced with the actual program identifier where the update is to be applied.
-    return buildUpdateInstruction({
-      update: new TokenOrProgramUpdate(
-        'programUpdate',
-        // The AddressOrNamespace should be replaced with the actual address or namespace
-        // of the program intended for update. The placeholder 'THIS' is used here for demonstration.
-        new ProgramUpdate(new AddressOrNamespace(THIS), [programUpdateField])
-      ),
-    })
-  } catch (e) {
-    // Rethrow any caught exceptions for upstream error handling.
-    throw e
+  // Correcting the field to 'data' for updating program data.
+  const programUpdateField = buildProgramUpdateField({
+    field: 'data', // Correct field to 'data'.
+    value: transactionInputs,
+    action: 'extend',
+  })
+
+  // Use the built program update field to create a program update instruction.
+  // Note: 'THIS' should be replaced with the actual program identifier where the update is to be applied.
+  return buildUpdateInstruction({
+    update: new TokenOrProgramUpdate(
+      'programUpdate',
+      // The AddressOrNamespace should be replaced with the actual address or namespace
+      // of the program intended for update. The placeholder 'THIS' is used here for demonstration.
+      new ProgramUpdate(new AddressOrNamespace(THIS), [programUpdateField])
+    ),
+  })
+}
+
+/**
+ * Constructs a log instruction emitting a named event with typed fields, much like an EVM event.
+ * Values are checked against their declared type and serialized to strings: `uint256` values are
+ * hex encoded, `bool` values become `'true'` or `'false'`.
+ *
+ * @param {Object} params - The parameters required to build the log instruction.
+ * @param {string} params.event - The name of the emitted event, e.g. `Transfer`.
+ * @param {Array<{ key: string, type: LogFieldType, value: string | bigint | boolean }>} [params.fields] - The fields of the event, in order.
+ * @returns {Instruction} A log instruction carrying the event and its fields.
+ *
+ * @throws {Error} Throws if the event name is empty or a value does not match its declared type.
+ *
+ * @example
+ * buildLogInstruction({
+ *   event: 'Transfer',
+ *   fields: [
+ *     { key: 'from', type: 'address', value: from },
+ *     { key: 'to', type: 'address', value: to },
+ *     { key: 'amount', type: 'uint256', value: amount },
+ *   ],
+ * })
+ */
+export function buildLogInstruction({
+  event,
+  fields = [],
+}: {
+  event: string
+  fields?: Array<{
+    key: string
+    type: LogFieldType
+    value: string | bigint | boolean
+  }>
+}) {
+  if (!event) {
+    throw new ValidationError('Invalid log builder arguments. Missing event', [
+      { field: 'event', message: 'is required' },
+    ])
+  }
+
+  const instructionBuilder = new LogInstructionBuilder().setEvent(event)
+  fields.forEach(({ key, type, value }) =>
+    instructionBuilder.addField(
+      key,
+      type,
+      formatLogFieldValue(key, type, value)
+    )
+  )
+
+  return instructionBuilder.build()
+}
+
+function formatLogFieldValue(
+  key: string,
+  type: LogFieldType,
+  value: string | bigint | boolean
+): string {
+  const invalid = () =>
+    new ValidationError(
+      `Invalid log field ${key}: ${String(value)} is not a valid ${type}`,
+      [{ field: key, message: `must be a valid ${type}` }]
+    )
+
+  switch (type) {
+    case 'address':
+      if (typeof value !== 'string' || !/^0x[0-9a-fA-F]{40}$/.test(value)) {
+        throw invalid()
+      }
+      return value
+    case 'uint256':
+      if (typeof value === 'boolean') {
+        throw invalid()
+      }
+      let uint: bigint
+      try {
+        uint = BigInt(value)
+      } catch (e) {
+        throw invalid()
+      }
+      if (uint < BigInt(0)) {
+        throw invalid()
+      }
+      return formatBigIntToHex(uint)
+    case 'bool':
+      if (typeof value === 'boolean') {
+        return String(value)
+      }
+      if (value !== 'true' && value !== 'false') {
+        throw invalid()
+      }
+      return value
+    case 'bytes':
+      if (typeof value !== 'string' || !/^0x([0-9a-fA-F]{2})*$/.test(value)) {
+        throw invalid()
+      }
+      return value
+    case 'string':
+      return String(value)
+    default:
+      throw new ValidationError(`Invalid log field type: ${type}`, [
+        { field: key, message: 'has an unknown type' },
+      ])
+  }
+}
+
+// Inserting and removing change a single spender, so more tuples would be silently dropped.
+function singleTuple<T>(field: string, action: string, value: T[]): T {
+  if (!Array.isArray(value) || value.length !== 1) {
+    throw new ValidationError(
+      `${field} ${action} takes a single [spender, value] tuple, received ${
+        Array.isArray(value) ? value.length : 'none'
+      }. Build one update field per spender.`,
+      [{ field: 'value', message: 'must hold exactly one tuple' }]
+    )
   }
+  return value[0]
 }
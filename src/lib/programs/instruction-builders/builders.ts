@@ -13,12 +13,13 @@ import {
   BurnInstruction,
   CreateInstruction,
   Instruction,
+  LogInstruction,
   TransferInstruction,
   UpdateInstruction,
 } from '@/lib/programs/Instruction'
 import { Outputs } from '@/lib/programs/Outputs'
 import { AddressOrNamespace, Address } from '@/lib/programs/Address-Namespace'
-import { Token } from '@/lib/types'
+import { LogField, LogFieldType, Token } from '@/lib/types'
 
 /**
  * Builds token update instructions by aggregating individual updates and generating a final instruction object.
@@ -169,24 +170,12 @@ export class TokenDistributionBuilder {
    * @returns {TokenDistribution} - The constructed token distribution object.
    */
   build(): TokenDistribution {
-    const programId =
-      this.programId instanceof AddressOrNamespace
-        ? (this.programId.toJson() as AddressOrNamespace)
-        : this.programId ?? null
-
-    const to =
-      this.to instanceof AddressOrNamespace
-        ? (this.to.toJson() as AddressOrNamespace)
-        : this.to ?? null
-
     return new TokenDistribution(
-      programId,
-      to,
+      this.programId,
+      this.to,
       this.amount,
-      this.tokenIds.map((tokenId) => tokenId as string),
-      this.updateFields.map((updateField) =>
-        updateField.toJson()
-      ) as TokenUpdateField[]
+      this.tokenIds,
+      this.updateFields
     )
   }
 }
@@ -537,8 +526,47 @@ export class BurnInstructionBuilder {
   }
 }
 
+/**
+ * A builder class for constructing a `LogInstruction` object, emitting a named event with typed
+ * fields. Fields are kept in the order they are added.
+ */
 export class LogInstructionBuilder {
-  // Future implementation goes here
+  private event: string = ''
+  private fields: LogField[] = []
+
+  /**
+   * Sets the name of the emitted event.
+   * @param {string} event - The event name, e.g. `Transfer`.
+   * @returns {LogInstructionBuilder} - The instance of this builder for chaining.
+   */
+  setEvent(event: string): LogInstructionBuilder {
+    this.event = event
+    return this
+  }
+
+  /**
+   * Adds a field to the emitted event.
+   * @param {string} key - The name of the field.
+   * @param {LogFieldType} type - The type of the field value.
+   * @param {string} value - The field value, serialized as a string.
+   * @returns {LogInstructionBuilder} - The instance of this builder for chaining.
+   */
+  addField(
+    key: string,
+    type: LogFieldType,
+    value: string
+  ): LogInstructionBuilder {
+    this.fields.push({ key, type, value })
+    return this
+  }
+
+  /**
+   * Builds the log instruction using the event and fields set on the builder.
+   * @returns {Instruction} - An `Instruction` object configured for a log operation.
+   */
+  build(): Instruction {
+    return new Instruction('log', new LogInstruction(this.event, this.fields))
+  }
 }
 
 /**
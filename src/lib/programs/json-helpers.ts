@@ -0,0 +1,129 @@
+import { ValidationError } from '@/lib/errors'
+
+/**
+ * Shape checks shared by the `fromJson` parsers of the instruction and update classes.
+ * Each helper returns the value narrowed to the expected shape, or throws an error naming
+ * the part of the document that is malformed.
+ */
+
+const describe = (json: unknown): string => {
+  if (json === undefined) {
+    return 'undefined'
+  }
+  const serialized = JSON.stringify(json)
+  return serialized.length > 80 ? `${serialized.slice(0, 77)}...` : serialized
+}
+
+export function malformed(
+  context: string,
+  expected: string,
+  json: unknown
+): ValidationError {
+  return new ValidationError(
+    `Malformed ${context}: expected ${expected}, received ${describe(json)}`,
+    [{ field: context, message: `must be ${expected}` }]
+  )
+}
+
+export function expectObject(
+  json: unknown,
+  context: string
+): Record<string, any> {
+  if (typeof json !== 'object' || json === null || Array.isArray(json)) {
+    throw malformed(context, 'an object', json)
+  }
+  return json as Record<string, any>
+}
+
+export function expectString(json: unknown, context: string): string {
+  if (typeof json !== 'string') {
+    throw malformed(context, 'a string', json)
+  }
+  return json
+}
+
+export function expectNumber(json: unknown, context: string): number {
+  if (typeof json !== 'number' || !Number.isFinite(json)) {
+    throw malformed(context, 'a number', json)
+  }
+  return json
+}
+
+export function expectArray(json: unknown, context: string): any[] {
+  if (!Array.isArray(json)) {
+    throw malformed(context, 'an array', json)
+  }
+  return json
+}
+
+export function expectStringArray(json: unknown, context: string): string[] {
+  return expectArray(json, context).map((item, index) =>
+    expectString(item, `${context}[${index}]`)
+  )
+}
+
+export function expectStringMap(
+  json: unknown,
+  context: string
+): Record<string, string> {
+  const map = expectObject(json, context)
+  Object.entries(map).forEach(([key, value]) =>
+    expectString(value, `${context}.${key}`)
+  )
+  return map
+}
+
+export function expectPair(json: unknown, context: string): [any, any] {
+  const pair = expectArray(json, context)
+  if (pair.length !== 2) {
+    throw malformed(context, 'a [key, value] pair', json)
+  }
+  return [pair[0], pair[1]]
+}
+
+export function expectOneOf<T extends string>(
+  json: unknown,
+  allowed: readonly T[],
+  context: string
+): T {
+  if (!allowed.includes(json as T)) {
+    throw malformed(context, `one of ${allowed.join(', ')}`, json)
+  }
+  return json as T
+}
+
+/**
+ * Reads an object holding exactly one key, the shape used for every tagged value on the wire
+ * (e.g. `{ "transfer": { ... } }` or `{ "extend": { ... } }`).
+ */
+export function singleEntry(json: unknown, context: string): [string, any] {
+  const entries = Object.entries(expectObject(json, context))
+  if (entries.length !== 1) {
+    throw malformed(context, 'an object with a single key', json)
+  }
+  return entries[0]
+}
+
+/**
+ * Parses a value that `toJson` writes as `null` (or omits) when it is not set.
+ */
+export function nullable<T>(
+  json: unknown,
+  parse: (json: unknown) => T
+): T | null {
+  return json === null || json === undefined ? null : parse(json)
+}
+
+/**
+ * Reads an address, either written as a string or as an `Address` serialized to
+ * `{ "address": ... }`, and lowercases it so addresses can be compared and used as keys.
+ */
+export function normalizeAddress(json: unknown, context = 'address'): string {
+  if (typeof json === 'string') {
+    return json.toLowerCase()
+  }
+  if (json && typeof json === 'object' && 'address' in json) {
+    return normalizeAddress((json as { address: unknown }).address, context)
+  }
+  throw malformed(context, 'an address', json)
+}
@@ -0,0 +1,78 @@
+import { ComputeInputs } from '@/lib/types'
+import { Program } from '@/lib/programs/Program'
+import { ValidationError, ValidationFieldError } from '@/lib/errors'
+
+/**
+ * A `Program` subclass that can be instantiated without arguments.
+ */
+export type ProgramConstructor = new () => Program
+
+/**
+ * The envelope written to stdout when a program fails. Successful runs write the
+ * program's `Outputs` JSON unchanged, since that is what the protocol consumes.
+ */
+export interface ProgramErrorOutput {
+  error: {
+    name: string
+    message: string
+    fields?: ValidationFieldError[]
+  }
+}
+
+/**
+ * Runs a program as a LASR entrypoint. The `ComputeInputs` are read from stdin, the program
+ * is started with them, and the result is written to stdout.
+ *
+ * On success the `Outputs` JSON is written and the process exits with code 0. If the inputs
+ * cannot be parsed or the program throws, a `ProgramErrorOutput` envelope is written instead
+ * and the process exits with code 1.
+ *
+ * @param {ProgramConstructor} ProgramClass - The program class to instantiate and run.
+ *
+ * @example
+ * class MyProgram extends Program { ... }
+ *
+ * runProgram(MyProgram)
+ */
+export function runProgram(ProgramClass: ProgramConstructor) {
+  let data = ''
+
+  process.stdin.setEncoding('utf8')
+
+  process.stdin.on('readable', () => {
+    let chunk
+    while ((chunk = process.stdin.read()) !== null) {
+      data += chunk
+    }
+  })
+
+  process.stdin.on('end', () => {
+    try {
+      const computeInputs: ComputeInputs = JSON.parse(data)
+      const result = new ProgramClass().start(computeInputs)
+      process.stdout.write(JSON.stringify(result))
+      process.exitCode = 0
+    } catch (e) {
+      process.stdout.write(JSON.stringify(toProgramErrorOutput(e)))
+      process.exitCode = 1
+    }
+  })
+}
+
+/**
+ * Converts anything thrown while running a program into the error envelope.
+ *
+ * @param {unknown} error - The thrown value.
+ * @returns {ProgramErrorOutput} The error envelope describing the failure.
+ */
+export function toProgramErrorOutput(error: unknown): ProgramErrorOutput {
+  if (error instanceof ValidationError) {
+    return {
+      error: { name: error.name, message: error.message, fields: error.fields },
+    }
+  }
+  if (error instanceof Error) {
+    return { error: { name: error.name, message: error.message } }
+  }
+  return { error: { name: 'Error', message: String(error) } }
+}
@@ -0,0 +1,164 @@
+import { ValidationError, ValidationFieldError } from '@/lib/errors'
+
+/**
+ * The kinds of values a `transactionInputs` field can hold.
+ *
+ * - `string`, `number`, `boolean`, `object` and `array` check the JSON type of the value.
+ * - `address` expects a `0x`-prefixed, 20 byte hex string.
+ * - `amount` expects a decimal amount with at most 18 decimal places (as a string or number),
+ *   or a `0x`-prefixed hex amount, i.e. anything `formatAmountToHex` accepts.
+ * - `hex` expects a `0x`-prefixed hex string.
+ */
+export type InputFieldType =
+  | 'string'
+  | 'number'
+  | 'boolean'
+  | 'address'
+  | 'amount'
+  | 'hex'
+  | 'object'
+  | 'array'
+
+/**
+ * Describes a single field of a method's `transactionInputs`. Fields are required unless
+ * marked `optional`.
+ */
+export interface InputFieldSchema {
+  type: InputFieldType
+  optional?: boolean
+}
+
+/**
+ * Describes the `transactionInputs` a program method expects, keyed by field name. A field
+ * can be described by its type alone, which makes it required.
+ *
+ * @example
+ * const transferInputs: InputSchema = {
+ *   to: 'address',
+ *   amount: 'amount',
+ *   memo: { type: 'string', optional: true },
+ * }
+ */
+export type InputSchema = { [field: string]: InputFieldType | InputFieldSchema }
+
+/**
+ * A single field that failed validation, along with the reason it failed.
+ */
+export type InputFieldError = ValidationFieldError
+
+/**
+ * Thrown when `transactionInputs` do not match the schema of the method being called.
+ * Every failing field is listed in `fields`, not just the first one.
+ */
+export class InputValidationError extends ValidationError {
+  constructor(fields: InputFieldError[]) {
+    super(
+      `Invalid transactionInputs: ${fields
+        .map(({ field, message }) => (field ? `${field} ${message}` : message))
+        .join('; ')}`,
+      fields
+    )
+    this.name = 'InputValidationError'
+  }
+}
+
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/
+const HEX_PATTERN = /^0x[0-9a-fA-F]+$/
+const DECIMAL_AMOUNT_PATTERN = /^\d+(\.\d{1,18})?$/
+
+const fieldCheckers: {
+  [type in InputFieldType]: (value: any) => boolean
+} = {
+  string: (value) => typeof value === 'string',
+  number: (value) => typeof value === 'number' && Number.isFinite(value),
+  boolean: (value) => typeof value === 'boolean',
+  address: (value) => typeof value === 'string' && ADDRESS_PATTERN.test(value),
+  amount: (value) =>
+    (typeof value === 'number' && Number.isFinite(value) && value >= 0) ||
+    (typeof value === 'string' &&
+      (HEX_PATTERN.test(value) || DECIMAL_AMOUNT_PATTERN.test(value))),
+  hex: (value) => typeof value === 'string' && HEX_PATTERN.test(value),
+  object: (value) =>
+    typeof value === 'object' && value !== null && !Array.isArray(value),
+  array: (value) => Array.isArray(value),
+}
+
+const fieldDescriptions: { [type in InputFieldType]: string } = {
+  string: 'a string',
+  number: 'a number',
+  boolean: 'a boolean',
+  address: 'a 0x-prefixed 20 byte address',
+  amount: 'a decimal amount with up to 18 decimals or a 0x-prefixed hex amount',
+  hex: 'a 0x-prefixed hex string',
+  object: 'an object',
+  array: 'an array',
+}
+
+/**
+ * Checks parsed inputs against a schema and collects every failing field.
+ *
+ * @param {InputSchema} schema - The schema the inputs should match.
+ * @param {Record<string, any>} inputs - The parsed inputs.
+ * @returns {InputFieldError[]} The failing fields, empty when the inputs are valid.
+ */
+export function getInputErrors(
+  schema: InputSchema,
+  inputs: Record<string, any>
+): InputFieldError[] {
+  return Object.entries(schema).reduce(
+    (errors: InputFieldError[], [field, definition]) => {
+      const { type, optional }: InputFieldSchema =
+        typeof definition === 'string' ? { type: definition } : definition
+      const value = inputs[field]
+
+      if (value === undefined || value === null) {
+        if (!optional) {
+          errors.push({ field, message: 'is required' })
+        }
+      } else if (!fieldCheckers[type](value)) {
+        errors.push({ field, message: `must be ${fieldDescriptions[type]}` })
+      }
+
+      return errors
+    },
+    []
+  )
+}
+
+/**
+ * Parses `transactionInputs` and validates them against a schema. An empty string is treated
+ * as an empty object, since that is what transactions without inputs carry.
+ *
+ * @param {InputSchema} schema - The schema the inputs should match.
+ * @param {string | Record<string, any>} transactionInputs - The raw `transactionInputs` JSON string, or already parsed inputs.
+ * @returns {Record<string, any>} The parsed inputs.
+ * @throws {InputValidationError} If the inputs are not a JSON object or any field fails validation.
+ */
+export function validateInputs(
+  schema: InputSchema,
+  transactionInputs: string | Record<string, any>
+): Record<string, any> {
+  let inputs: any = transactionInputs
+  if (typeof transactionInputs === 'string') {
+    try {
+      inputs = transactionInputs.trim() ? JSON.parse(transactionInputs) : {}
+    } catch (e) {
+      throw new InputValidationError([
+        { field: '', message: 'transactionInputs is not valid JSON' },
+      ])
+    }
+  }
+
+  if (!fieldCheckers.object(inputs)) {
+    throw new InputValidationError([
+      { field: '', message: 'transactionInputs must be a JSON object' },
+    ])
+  }
+
+  const errors = getInputErrors(schema, inputs)
+  if (errors.length > 0) {
+    throw new InputValidationError(errors)
+  }
+
+  return inputs
+}
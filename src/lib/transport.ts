@@ -0,0 +1,231 @@
+import { JsonRpcRequest, JsonRpcResponse } from '@/lib/types'
+import { RpcError } from '@/lib/errors'
+import { getLogger } from '@/lib/logger'
+
+/**
+ * How requests are retried. Each attempt is given `timeoutMs` to complete. After a retryable
+ * failure the next attempt waits `initialDelayMs * factor ^ (attempt - 1)`, capped at `maxDelayMs`,
+ * and shortened by up to `jitter` (a fraction between 0 and 1) so clients do not retry in lockstep.
+ */
+export interface RetryPolicy {
+  retries: number
+  timeoutMs: number
+  initialDelayMs: number
+  maxDelayMs: number
+  factor: number
+  jitter: number
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retries: 3,
+  timeoutMs: 10000,
+  initialDelayMs: 500,
+  maxDelayMs: 8000,
+  factor: 2,
+  jitter: 0.5,
+}
+
+/**
+ * Options for `withRetry`. By default only failures `isRetryableError` accepts are retried.
+ */
+export interface RetryOptions {
+  policy?: Partial<RetryPolicy>
+  isRetryable?: (error: unknown) => boolean
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void
+}
+
+// Internal errors and rate limiting are transient; every other JSON-RPC error means the
+// request itself was rejected and would fail again.
+const RETRYABLE_RPC_CODES = [-32603, -32005]
+const RETRYABLE_HTTP_STATUSES = [408, 425, 429, 500, 502, 503, 504]
+
+/**
+ * Decides whether a failed request is worth retrying: timeouts, network failures, transient HTTP
+ * statuses and internal JSON-RPC errors are, while rejected requests are not.
+ *
+ * @param {unknown} error - The error the request failed with.
+ * @returns {boolean} Whether the request should be retried.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof RpcError) {
+    if (error.status !== undefined) {
+      return RETRYABLE_HTTP_STATUSES.includes(error.status)
+    }
+    if (error.code !== undefined) {
+      return RETRYABLE_RPC_CODES.includes(error.code)
+    }
+    return true
+  }
+  // `fetch` rejects with a TypeError when the connection itself fails.
+  return error instanceof TypeError
+}
+
+// Connection failures that happen before the request is sent, so the node never saw it.
+const CONNECT_ERROR_CODES = [
+  'ECONNREFUSED',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'EHOSTUNREACH',
+  'ENETUNREACH',
+]
+
+/**
+ * Decides whether a failed request certainly was not processed, so resending it cannot apply it
+ * twice: the connection could not be opened, or the node turned it away because of rate limiting.
+ * Timeouts and server errors are not, as the node may have accepted the request before failing.
+ * Requests that change state, such as `lasr_call`, are only retried on these failures.
+ *
+ * @param {unknown} error - The error the request failed with.
+ * @returns {boolean} Whether the request can safely be resent.
+ */
+export function isUnprocessedError(error: unknown): boolean {
+  if (error instanceof RpcError) {
+    return error.status === 429 || error.code === -32005
+  }
+  const code = (error as { cause?: { code?: unknown } } | null)?.cause?.code
+  return (
+    error instanceof TypeError &&
+    typeof code === 'string' &&
+    CONNECT_ERROR_CODES.includes(code)
+  )
+}
+
+/**
+ * Computes how long to wait before the given retry.
+ *
+ * @param {number} attempt - The retry about to be made, starting at 1.
+ * @param {RetryPolicy} policy - The retry policy.
+ * @param {() => number} random - Source of randomness for the jitter, returning a number in [0, 1).
+ * @returns {number} The delay in milliseconds.
+ */
+export function getRetryDelay(
+  attempt: number,
+  policy: RetryPolicy,
+  random: () => number = Math.random
+): number {
+  const delay = Math.min(
+    policy.maxDelayMs,
+    policy.initialDelayMs * Math.pow(policy.factor, attempt - 1)
+  )
+  return Math.round(delay * (1 - policy.jitter * random()))
+}
+
+/**
+ * Runs an operation, retrying it with exponential backoff while it fails with retryable errors.
+ *
+ * @param {(attempt: number) => Promise<T>} operation - The operation to run, given the attempt number starting at 0.
+ * @param {RetryOptions} options - The retry policy, which errors to retry and a callback before each retry.
+ * @returns {Promise<T>} The result of the first successful attempt.
+ * @throws The error of the last attempt, or of the first one that is not retryable.
+ *
+ * @example
+ * const output = await withRetry(() => registerProgram(cid, secretKey, network), {
+ *   policy: { retries: 4 },
+ *   isRetryable: () => true,
+ * })
+ */
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  { policy = {}, isRetryable = isRetryableError, onRetry }: RetryOptions = {}
+): Promise<T> {
+  const retryPolicy = { ...DEFAULT_RETRY_POLICY, ...policy }
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation(attempt)
+    } catch (error) {
+      if (attempt >= retryPolicy.retries || !isRetryable(error)) {
+        throw error
+      }
+      const delayMs = getRetryDelay(attempt + 1, retryPolicy)
+      onRetry?.(error, attempt + 1, delayMs)
+      await new Promise((resolve) => setTimeout(resolve, delayMs))
+    }
+  }
+}
+
+/**
+ * Posts a JSON-RPC request and returns its result, giving every attempt `policy.timeoutMs` and
+ * retrying retryable failures. Requests that are not idempotent should pass `isUnprocessedError`,
+ * so they are never resent after the node may have processed them.
+ *
+ * @param {string} endpoint - The URL of the JSON-RPC endpoint.
+ * @param {JsonRpcRequest} request - The request to send. Retries resend it unchanged.
+ * @param {Partial<RetryPolicy>} policy - Overrides of the default retry policy.
+ * @param {(error: unknown) => boolean} isRetryable - Which failures to retry, `isRetryableError` by default.
+ * @returns {Promise<T>} The `result` of the response.
+ * @throws {RpcError} Throws once the request failed for good.
+ */
+export async function sendJsonRpc<T>(
+  endpoint: string,
+  request: JsonRpcRequest,
+  policy: Partial<RetryPolicy> = {},
+  isRetryable: (error: unknown) => boolean = isRetryableError
+): Promise<T> {
+  const timeoutMs = policy.timeoutMs ?? DEFAULT_RETRY_POLICY.timeoutMs
+
+  return withRetry(
+    async () => {
+      const controller = new AbortController()
+      const timeout = setTimeout(() => controller.abort(), timeoutMs)
+
+      try {
+        const response = await fetch(endpoint, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          cache: 'no-store',
+          body: JSON.stringify(request),
+          signal: controller.signal,
+        })
+        if (!response.ok) {
+          throw new RpcError(
+            `${request.method} failed with HTTP ${response.status} ${response.statusText}`,
+            { status: response.status }
+          )
+        }
+
+        let body: JsonRpcResponse<T>
+        try {
+          body = await response.json()
+        } catch (error) {
+          if (controller.signal.aborted) {
+            throw error
+          }
+          throw new RpcError(
+            `${request.method} returned a response that is not valid JSON`,
+            { status: response.status }
+          )
+        }
+        if (body.error) {
+          throw new RpcError(body.error.message, {
+            code: body.error.code,
+            data: body.error.data,
+          })
+        }
+        if (!('result' in body)) {
+          throw new RpcError(
+            `${request.method} returned neither a result nor an error`,
+            { code: -32603 }
+          )
+        }
+        return body.result as T
+      } catch (error) {
+        if (controller.signal.aborted) {
+          throw new RpcError(`${request.method} timed out after ${timeoutMs}ms`)
+        }
+        throw error
+      } finally {
+        clearTimeout(timeout)
+      }
+    },
+    {
+      policy,
+      isRetryable,
+      onRetry: (error, attempt, delayMs) =>
+        getLogger().info(
+          `${request.method} failed, retrying in ${delayMs}ms (${attempt})`,
+          error
+        ),
+    }
+  )
+}
@@ -1,41 +1,48 @@
 import {
+  AllowanceExtend,
+  AllowanceInsert,
+  AllowanceRemove,
+  AllowanceRevoke,
   ApprovalsExtend,
   ApprovalsInsert,
   ApprovalsRemove,
   ApprovalsRevoke,
-  ApprovalsValue,
   StatusValue,
+  TokenUpdate,
 } from '@/lib/programs/Token'
 
 import {
   TokenDataExtend,
   TokenDataInsert,
   TokenDataRemove,
-  TokenDataValue,
   TokenIdExtend,
   TokenIdInsert,
   TokenIdPop,
   TokenIdPush,
-  TokenIdValue,
+  TokenIdRemove,
   TokenMetadataExtend,
   TokenMetadataInsert,
   TokenMetadataRemove,
-  TokenMetadataValue,
 } from '@/lib/programs/Token'
 import {
   LinkedProgramsExtend,
   LinkedProgramsInsert,
   LinkedProgramsRemove,
-  LinkedProgramsValue,
   ProgramDataExtend,
   ProgramDataInsert,
   ProgramDataRemove,
-  ProgramDataValue,
   ProgramMetadataExtend,
   ProgramMetadataInsert,
   ProgramMetadataRemove,
-  ProgramMetadataValue,
+  ProgramUpdate,
 } from '@/lib/programs/Program'
+import {
+  BurnInstruction,
+  CreateInstruction,
+  LogInstruction,
+  TransferInstruction,
+  UpdateInstruction,
+} from '@/lib/programs/Instruction'
 import { Address, AddressOrNamespace } from '@/lib/programs/Address-Namespace'
 
 export type AccountType =
@@ -110,22 +117,30 @@ export type ProgramFieldValues =
   | 'ownerId'
   | 'status'
 
-export type ProgramUpdateValueTypes =
-  | ProgramDataValue
-  | ProgramDataInsert
-  | ProgramDataExtend
-  | ProgramDataRemove
-  | ProgramMetadataValue
-  | ProgramMetadataInsert
-  | ProgramMetadataExtend
-  | ProgramMetadataRemove
-  | LinkedProgramsValue
-  | LinkedProgramsInsert
-  | LinkedProgramsExtend
-  | LinkedProgramsRemove
-  | StatusValue
+/**
+ * The actions each updatable program field accepts, keyed by field. A `ProgramFieldValue` only
+ * accepts the actions listed for its kind, so e.g. a token data action cannot be applied to
+ * program metadata.
+ */
+export type ProgramFieldActions = {
+  data: ProgramDataInsert | ProgramDataExtend | ProgramDataRemove
+  metadata:
+    | ProgramMetadataInsert
+    | ProgramMetadataExtend
+    | ProgramMetadataRemove
+  linkedPrograms:
+    | LinkedProgramsInsert
+    | LinkedProgramsExtend
+    | LinkedProgramsRemove
+  status: StatusValue
+}
+
+export type ProgramFieldKinds = keyof ProgramFieldActions
+
+export type ProgramUpdateValueTypes = ProgramFieldActions[ProgramFieldKinds]
 
 export type TokenFieldValues =
+  | 'allowance'
   | 'approvals'
   | 'balance'
   | 'data'
@@ -135,26 +150,85 @@ export type TokenFieldValues =
   | 'status'
   | 'tokenIds'
 
-export type TokenUpdateValueTypes =
-  | TokenDataValue
-  | TokenDataInsert
-  | TokenDataExtend
-  | TokenDataRemove
-  | TokenMetadataValue
-  | TokenMetadataInsert
-  | TokenMetadataExtend
-  | TokenMetadataRemove
-  | TokenIdValue
-  | TokenIdPush
-  | TokenIdExtend
-  | TokenIdInsert
-  | TokenIdPop
-  | StatusValue
-  | ApprovalsValue
-  | ApprovalsInsert
-  | ApprovalsExtend
-  | ApprovalsRemove
-  | ApprovalsRevoke
+/**
+ * The actions each updatable token field accepts, keyed by field. A `TokenFieldValue` only
+ * accepts the actions listed for its kind. `tokenIds` keeps `TokenIdRemove`: removing a token id
+ * is part of the wire format, so outputs holding it must parse. `buildTokenUpdateField` does not
+ * build token id updates at all, so `tokenIds` with `remove` is rejected there at compile time.
+ */
+export type TokenFieldActions = {
+  data: TokenDataInsert | TokenDataExtend | TokenDataRemove
+  metadata: TokenMetadataInsert | TokenMetadataExtend | TokenMetadataRemove
+  tokenIds:
+    | TokenIdPush
+    | TokenIdExtend
+    | TokenIdInsert
+    | TokenIdPop
+    | TokenIdRemove
+  approvals:
+    | ApprovalsInsert
+    | ApprovalsExtend
+    | ApprovalsRemove
+    | ApprovalsRevoke
+  allowance:
+    | AllowanceInsert
+    | AllowanceExtend
+    | AllowanceRemove
+    | AllowanceRevoke
+  status: StatusValue
+}
+
+export type TokenFieldKinds = keyof TokenFieldActions
+
+export type TokenUpdateValueTypes = TokenFieldActions[TokenFieldKinds]
+
+/**
+ * The field, action and value combinations `buildTokenUpdateField` accepts. Approvals take
+ * `[spender, tokenIds]` tuples, allowance takes `[spender, amount]` tuples, and revoking takes
+ * the spender address. `extend` takes any number of tuples, while `insert` and `remove` change
+ * a single spender and take exactly one.
+ */
+export type TokenUpdateFieldParams =
+  | {
+      field: 'metadata' | 'data'
+      value: string
+      action: 'insert' | 'extend' | 'remove'
+    }
+  | { field: 'status'; value: string; action: 'insert' }
+  | { field: 'approvals'; value: Array<[Address, string[]]>; action: 'extend' }
+  | {
+      field: 'approvals'
+      value: [[Address, string[]]]
+      action: 'insert' | 'remove'
+    }
+  | { field: 'allowance'; value: Array<[Address, string]>; action: 'extend' }
+  | {
+      field: 'allowance'
+      value: [[Address, string]]
+      action: 'insert' | 'remove'
+    }
+  | { field: 'approvals' | 'allowance'; value: string; action: 'revoke' }
+
+/**
+ * The field, action and value combinations `buildProgramUpdateField` accepts.
+ */
+export type ProgramUpdateFieldParams =
+  | {
+      field: 'metadata' | 'data' | 'linkedPrograms'
+      value: string
+      action: 'insert' | 'extend' | 'remove'
+    }
+  | { field: 'status'; value: string; action: 'insert' }
+
+/**
+ * The update each `TokenOrProgramUpdate` kind wraps.
+ */
+export type TokenOrProgramUpdateValues = {
+  tokenUpdate: TokenUpdate
+  programUpdate: ProgramUpdate
+}
+
+export type TokenOrProgramUpdateKinds = keyof TokenOrProgramUpdateValues
 
 export interface Token {
   allowance: {
@@ -202,7 +276,26 @@ export type Wallet = {
   nonce: string
 }
 
-export type InstructionKinds = 'create' | 'update' | 'transfer' | 'burn'
+export type InstructionKinds = 'create' | 'update' | 'transfer' | 'burn' | 'log'
+
+/**
+ * The instruction each `Instruction` kind wraps.
+ */
+export type InstructionValues = {
+  create: CreateInstruction
+  update: UpdateInstruction
+  transfer: TransferInstruction
+  burn: BurnInstruction
+  log: LogInstruction
+}
+
+export type LogFieldType = 'address' | 'uint256' | 'bool' | 'bytes' | 'string'
+
+export interface LogField {
+  key: string
+  type: LogFieldType
+  value: string
+}
 
 export type KeyPairArray = KeyPair[]
 
@@ -214,4 +307,51 @@ export interface KeyPair {
   address: string
 }
 
-export type NETWORK = 'stable' | 'test'
+/**
+ * The name of a network profile: one of the built-in profiles, or a profile registered with
+ * `registerNetworks` or loaded from `lasr.config.json`.
+ */
+export type NETWORK = 'stable' | 'test' | 'local' | (string & {})
+
+/**
+ * Where a network is reached and the addresses that differ between networks. `faucetUrl` and
+ * `explorerUrl` are left out for networks without a faucet or explorer, e.g. a local node.
+ */
+export interface NetworkProfile {
+  rpcUrl: string
+  vipfsAddress: string
+  faucetUrl?: string
+  explorerUrl?: string
+  verseProgramAddress: string
+}
+
+/**
+ * The JSON-RPC methods a LASR node serves, with the params each takes and the result it returns.
+ * Accounts are returned as a JSON string; transaction methods return the node's response string.
+ */
+export type LasrRpcMethods = {
+  lasr_getAccount: { params: [address: string]; result: string }
+  lasr_send: { params: [transaction: Transaction]; result: string }
+  lasr_call: { params: [transaction: Transaction]; result: string }
+  lasr_registerProgram: { params: [transaction: Transaction]; result: string }
+}
+
+export type LasrRpcMethod = keyof LasrRpcMethods
+
+export interface JsonRpcRequest {
+  jsonrpc: '2.0'
+  method: string
+  params: unknown
+  id: number
+}
+
+export interface JsonRpcResponse<T = unknown> {
+  jsonrpc: '2.0'
+  id: number | string | null
+  result?: T
+  error?: {
+    code: number
+    message: string
+    data?: unknown
+  }
+}
@@ -1,10 +1,7 @@
 import { NETWORK } from '@/lib/types'
-import {
-  LASR_RPC_URL_STABLE,
-  LASR_RPC_URL_UNSTABLE,
-  VIPFS_URL,
-  VIPFS_URL_UNSTABLE,
-} from '@/lib/consts'
+import { ValidationError } from '@/lib/errors'
+import { getLogger } from '@/lib/logger'
+import { getNetworkProfile } from '@/lib/networks'
 
 /**
  * Converts a numeric input (either a number or a string representation of a number) into a BigInt.
@@ -19,7 +16,8 @@ import {
  *                part should not exceed 18 decimal places.
  * @returns A BigInt representation of the input value, with the fractional part considered up to 18 decimal places.
  *          The fractional part is rounded down to the nearest whole number if necessary. In case of an error
- *          (e.g., the fractional part exceeds 18 decimal places), the function logs the error and returns BigInt(0).
+ *          (e.g., the fractional part exceeds 18 decimal places), the function logs a warning with a
+ *          `ValidationError` and returns BigInt(0). Nothing is thrown.
  *
  * @example
  * // Convert a number without a fractional part
@@ -30,9 +28,6 @@ import {
  * // Convert a number with a fractional part
  * parseAmountToBigInt('123.456')
  * // returns BigInt('123456000000000000000')
- *
- * @throws {Error} If the fractional part of the input exceeds 18 decimal places, indicating
- *                 that the input value cannot be accurately represented within the expected precision.
  */
 export function parseAmountToBigInt(input: number | string): BigInt {
   try {
@@ -45,7 +40,9 @@ export function parseAmountToBigInt(input: number | string): BigInt {
 
     // Ensure the fraction part is not longer than 18 characters
     if (fraction.length > 18) {
-      throw new Error('Fractional part exceeds 18 decimal places')
+      throw new ValidationError('Fractional part exceeds 18 decimal places', [
+        { field: 'input', message: 'must have at most 18 decimal places' },
+      ])
     }
 
     // Pad the fraction part to 18 characters to represent the value accurately
@@ -55,7 +52,7 @@ export function parseAmountToBigInt(input: number | string): BigInt {
     const combined = whole + fraction
     return BigInt(combined)
   } catch (error) {
-    console.error('Error parsing amount to BigInt:', error)
+    getLogger().warn('Error parsing amount to BigInt', error)
     return BigInt(0) // Return a default value in case of error
   }
 }
@@ -77,7 +74,7 @@ export function parseAmountToBigInt(input: number | string): BigInt {
  *                in hexadecimal format and is processed accordingly.
  * @returns A hexadecimal string representation of the input number, prefixed with '0x' and padded
  *          to ensure a length of 64 characters. In case of an error during conversion, returns a
- *          hexadecimal string representing zero ('0x' followed by 64 zeros) and logs the error.
+ *          hexadecimal string representing zero ('0x' followed by 64 zeros).
  *
  * @example
  * // Convert a number to hexadecimal format
@@ -89,8 +86,8 @@ export function parseAmountToBigInt(input: number | string): BigInt {
  * formatAmountToHex('0x1')
  * // returns '0x' followed by 63 zeros and then '1'
  *
- * @throws If any error occurs during the conversion, an error message is logged to the console,
- *         and a default hexadecimal value representing zero is returned.
+ * @note If any error occurs during the conversion, nothing is thrown
+ *       and a default hexadecimal value representing zero is returned.
  */
 export function formatAmountToHex(input: number | string): string {
   try {
@@ -132,14 +129,13 @@ export function formatAmountToHex(input: number | string): string {
  *                Defaults to 18, which is commonly used for Ethereum to represent ether from wei.
  * @returns A string representation of the decimal value with the whole part and fractional part
  *          separated by a dot. In case of an error (e.g., input not starting with '0x'), an empty
- *          string is returned and an error is logged to the console.
+ *          string is returned and a warning with a `ValidationError` is logged with the SDK logger.
+ *          Nothing is thrown.
  *
  * @example
  * // Convert 1 ether (in wei) to a human-readable format
  * formatHexToAmount('0xde0b6b3a7640000')
  * // returns '1.0'
- *
- * @throws {Error} If the input string does not start with '0x', indicating an invalid hexadecimal input.
  */
 export function formatHexToAmount(
   hexString: string,
@@ -147,7 +143,9 @@ export function formatHexToAmount(
 ): string {
   try {
     if (!hexString.startsWith('0x')) {
-      throw new Error('Input must start with 0x')
+      throw new ValidationError('Input must start with 0x', [
+        { field: 'hexString', message: 'must start with 0x' },
+      ])
     }
 
     // Remove '0x' prefix and convert hex to BigInt
@@ -170,7 +168,7 @@ export function formatHexToAmount(
     // Combine the whole part and fractional part
     return `${wholePart.toString()}.${fractionalString}`
   } catch (error) {
-    console.error('Error formatting hex to amount:', error)
+    getLogger().warn('Error formatting hex to amount', error)
     return '' // Return an empty string or appropriate error value in case of error
   }
 }
@@ -264,51 +262,44 @@ export function getUndefinedProperties(obj: Record<string, any>): string[] {
 
 /**
  * Checks if any of the values in the provided `neededValues` object are `undefined`.
- * Throws an Error with a message listing all keys that have `undefined` values if any are found.
+ * Throws a `ValidationError` listing all keys that have `undefined` values if any are found.
  * This function relies on `getUndefinedProperties`, a utility function that must be defined elsewhere in the codebase,
  * to identify keys with `undefined` values.
  *
  * @param {Record<string, any>} neededValues - An object with key-value pairs to be checked for `undefined` values.
- * @throws {Error} If any value in `neededValues` is `undefined`, throws an Error listing those keys.
+ * @throws {ValidationError} If any value in `neededValues` is `undefined`, with one entry in `fields` per key.
  */
 export function checkIfValuesAreUndefined(neededValues: Record<string, any>) {
-  try {
-    const undefinedProperties = getUndefinedProperties(neededValues)
-    if (undefinedProperties.length > 0) {
-      throw new Error(
-        `The following properties are undefined: ${undefinedProperties.join(
-          ', '
-        )}`
-      )
-    }
-  } catch (e) {
-    throw e
+  const undefinedProperties = getUndefinedProperties(neededValues)
+  if (undefinedProperties.length > 0) {
+    throw new ValidationError(
+      `The following properties are undefined: ${undefinedProperties.join(
+        ', '
+      )}`,
+      undefinedProperties.map((field) => ({ field, message: 'is undefined' }))
+    )
   }
 }
 
 /**
- * Validates the given `criteria`. If the `criteria` is falsy, throws an Error with the provided `errorString`.
+ * Validates the given `criteria`. If the `criteria` is falsy, throws a `ValidationError` with the provided `errorString`.
  * This function is versatile and can be used to validate any condition that results in a boolean value,
  * making it suitable for various validation scenarios.
  *
  * @param {any | boolean | undefined} criteria - The condition or value to be validated. Can be any value that
  * is expected to represent a truthy or falsy condition.
  * @param {string} errorString - The error message to be thrown if the validation fails.
- * @returns {any | Error} Returns the `criteria` if it is truthy, otherwise throws an Error with `errorString`.
- * @throws {Error} Throws an Error with `errorString` if `criteria` is falsy.
+ * @returns {any} Returns the `criteria` if it is truthy.
+ * @throws {ValidationError} Throws a `ValidationError` with `errorString` if `criteria` is falsy.
  */
 export const validate = (
   criteria: any | boolean | undefined,
   errorString: string
-): any | Error => {
-  try {
-    if (!criteria) {
-      throw Error(errorString)
-    } else {
-      return criteria
-    }
-  } catch (e) {
-    throw e
+): any => {
+  if (!criteria) {
+    throw new ValidationError(errorString)
+  } else {
+    return criteria
   }
 }
 
@@ -319,83 +310,75 @@ export const validate = (
  *
  * @param {Record<string, any>} neededValues - An object containing key-value pairs to be validated and serialized.
  * @returns {string} A JSON string representation of `neededValues` if all values are defined.
- * @throws {Error} If any value in `neededValues` is `undefined`, or if any other error occurs during the process.
+ * @throws {ValidationError} If any value in `neededValues` is `undefined`.
  */
 export const validateAndCreateJsonString = (
   neededValues: Record<string, any>
 ): string => {
-  try {
-    checkIfValuesAreUndefined(neededValues)
-    return JSON.stringify(neededValues)
-  } catch (e) {
-    throw e
-  }
+  checkIfValuesAreUndefined(neededValues)
+  return JSON.stringify(neededValues)
 }
 
 /**
  * Retrieves the RPC (Remote Procedure Call) URL for interacting with a blockchain network,
- * based on the specified network type. This function supports dynamic selection between
- * stable and unstable networks, with an optional override via an environment variable.
+ * based on the specified network profile. This function supports any registered network profile,
+ * with an optional override via an environment variable.
  *
  * The RPC URL is crucial for applications that need to communicate with blockchain networks,
  * allowing them to send and receive data, execute smart contracts, and perform other network
  * interactions. This function provides a flexible way to select the appropriate RPC URL based
  * on the application's needs or the environment configuration.
  *
- * @param network - An enum value (`NETWORK`) indicating the desired blockchain network type.
- *                  The function adjusts the RPC URL based on this value, choosing between stable
- *                  and unstable network URLs, or an override URL from the environment variables.
+ * @param network - The name of a network profile (`NETWORK`), e.g. 'stable', 'test', 'local' or a
+ *                  network from `lasr.config.json`.
  * @returns The selected RPC URL as a string. If the `LASR_RPC_URL` environment variable is set,
  *          its value is used as the RPC URL regardless of the `network` parameter. Otherwise,
- *          the function selects the RPC URL based on the `network` parameter: `LASR_RPC_URL_STABLE`
- *          for the 'stable' network and `LASR_RPC_URL_UNSTABLE` for other cases.
+ *          the `rpcUrl` of the network's profile is used.
+ * @throws {ValidationError} Throws if no network profile has that name.
  *
  * @example
  * // Assuming the environment variable is not set, and using enum for network types
  * getRPCForNetwork('stable')
- * // logs 'USING RPC URL: ' followed by the stable RPC URL and returns the stable RPC URL.
+ * // returns the stable RPC URL
  *
- * @note This function logs the selected RPC URL to the console for debugging or informational purposes.
+ * @note The selected RPC URL is logged at the `debug` level of the SDK logger.
  */
 export const getRPCForNetwork = (network: NETWORK) => {
   const rpcUrl = process.env.LASR_RPC_URL
     ? process.env.LASR_RPC_URL
-    : network === 'stable'
-      ? LASR_RPC_URL_STABLE
-      : LASR_RPC_URL_UNSTABLE
-  console.log('USING RPC URL: ', rpcUrl)
+    : getNetworkProfile(network).rpcUrl
+  getLogger().debug(`Using RPC URL ${rpcUrl}`)
   return rpcUrl
 }
 
 /**
  * Retrieves the IPFS URL configuration based on the specified network environment. This function determines
  * the appropriate IPFS URL to use by first checking for an environment variable override. If the override is
- * not present, it selects the URL based on whether the network environment is marked as 'stable' or not.
+ * not present, it uses the `vipfsAddress` of the network's profile.
  *
  * This is particularly useful for applications that interact with IPFS and need to switch between different
  * IPFS nodes or gateways depending on the environment (e.g., development, testing, production) to ensure
  * compatibility and stability.
  *
- * @param network - The network type, typically a custom type or enum `NETWORK`, indicating the current
- *                  operating environment of the application (e.g., 'stable', 'unstable').
- * @returns The selected IPFS URL as a string. The function logs the chosen URL for debugging purposes.
+ * @param network - The name of a network profile (`NETWORK`), e.g. 'stable', 'test', 'local' or a
+ *                  network from `lasr.config.json`.
+ * @returns The selected IPFS URL as a string. The chosen URL is logged at the `debug` level of the SDK logger.
+ * @throws {ValidationError} Throws if no network profile has that name.
  *
  * @example
- * // Assuming VIPFS_URL = 'https://ipfs.stable.example.com' and VIPFS_URL_UNSTABLE = 'https://ipfs.unstable.example.com'
+ * // Assuming the stable profile's vipfsAddress is 'https://ipfs.stable.example.com'
  * getIPFSForNetwork('stable')
- * // Logs 'USING IPFS URL: https://ipfs.stable.example.com' and returns 'https://ipfs.stable.example.com'
+ * // returns 'https://ipfs.stable.example.com'
  *
  * @example
  * // When an environment variable VIPFS_ADDRESS is set to 'https://custom.ipfs.example.com'
  * getIPFSForNetwork('unstable')
- * // Logs 'USING IPFS URL: https://custom.ipfs.example.com' and returns 'https://custom.ipfs.example.com'
+ * // returns 'https://custom.ipfs.example.com'
  */
 export const getIPFSForNetwork = (network: NETWORK) => {
   const ipfsUrl = process?.env.VIPFS_ADDRESS
     ? process?.env.VIPFS_ADDRESS
-    : network === 'stable'
-      ? `${VIPFS_URL}`
-      : `${VIPFS_URL_UNSTABLE}`
-  console.log('USING IPFS URL: ', ipfsUrl)
+    : getNetworkProfile(network).vipfsAddress
+  getLogger().debug(`Using IPFS URL ${ipfsUrl}`)
   return ipfsUrl
 }
@@ -1,196 +1,276 @@
 import {
   Account,
   InitTransaction,
+  LasrRpcMethod,
+  LasrRpcMethods,
   NETWORK,
   Transaction,
   TransactionType,
 } from './types'
-import { Wallet, keccak256, toUtf8Bytes } from 'ethers'
+import { Wallet, computeAddress, keccak256, toUtf8Bytes } from 'ethers'
 import * as secp256k1 from '@noble/secp256k1'
 import { formatBigIntToHex, formatAmountToHex } from './utils'
-import { Address } from '@/lib/programs/Address-Namespace'
+import { LasrClient } from '@/lib/client'
+import { RetryPolicy, withRetry } from '@/lib/transport'
+import { NonceManager, getNonceManager, isNonceError } from '@/lib/nonce'
+import { RpcError, SigningError } from '@/lib/errors'
 import { getRPCForNetwork } from '@/lib/utils'
 
 /**
  * Asynchronously sends a blockchain transaction using the specified call transaction data and a private key.
- * The function initializes a wallet with the provided private key, retrieves the account information,
- * updates the transaction nonce, signs the transaction, and finally sends it to a blockchain network
- * via an RPC call.
+ * The function derives the sending address from the private key, reserves the next nonce of the account,
+ * builds the transaction with it, signs it, and finally submits it to a blockchain network via an RPC call.
+ * Each step is also available on its own as `buildTransaction`, `hashTransaction`, `signTransaction` and
+ * `submitTransaction`.
+ *
+ * Nonces come from a `NonceManager` shared by every broadcast to the network, so concurrent broadcasts
+ * from the same key get sequential nonces. If the node answers that the nonce is wrong, the account is
+ * resynced and the transaction is signed and submitted once more with a fresh nonce. A transaction that
+ * times out is never resent, and its nonce is not handed out again, as the node may have applied it.
  *
  * @param {InitTransaction} callTx - The initial transaction data, including details such as the transaction type and nonce.
  * @param {string} privateKey - The private key used to sign the transaction and derive the wallet address.
- * @param {string} network - The network to make the call on (stable | test)
- * @returns {Promise<string | Error>} The result of the blockchain call, which could be a transaction hash or an error.
- * @throws {Error} Throws an error if account retrieval, transaction signing, or the RPC call fails.
+ * @param {string} network - The network to make the call on (stable | test | local | a configured network profile)
+ * @param {Partial<RetryPolicy>} retryPolicy - Overrides of the timeout and retry policy used to submit the transaction.
+ * @param {NonceManager} nonceManager - The nonce manager to reserve the nonce from, `getNonceManager(network)` by default.
+ * @returns {Promise<string>} The result of the blockchain call.
+ * @throws {RpcError} Throws if the account cannot be retrieved or the node rejects the transaction.
+ * @throws {SigningError} Throws if the private key is invalid.
  */
 export async function broadcast(
   callTx: InitTransaction,
   privateKey: string,
-  network: NETWORK = 'stable'
-) {
-  try {
-    const wallet = new Wallet(privateKey)
-    let account: Account | null = null
-    const broadcastType = callTx.op === 'send' ? 'send' : 'call'
+  network: NETWORK = 'stable',
+  retryPolicy: Partial<RetryPolicy> = {},
+  nonceManager: NonceManager = getNonceManager(network)
+): Promise<string> {
+  const from = getSignerAddress(privateKey)
 
-    try {
-      const accountResult = await getAccount(wallet.address)
-      if (accountResult && 'nonce' in accountResult) {
-        account = accountResult
-      } else {
-        throw new Error('Failed to retrieve account information')
-      }
-    } catch (error: unknown) {
-      if (error instanceof Error) {
-        console.error(error.message)
-      } else {
-        console.error('An unexpected error occurred:', error)
-      }
-      throw error
-    }
+  return withRetry(
+    async () => {
+      const nonce = await nonceManager.next(from)
+      const transaction = buildTransaction(callTx, nonce)
+      const signedTransaction = await signTransaction(transaction, privateKey)
 
-    const newNonce = getNewNonce(account.nonce)
-    callTx.nonce = newNonce
-    callTx.transactionType = {
-      [broadcastType]: newNonce,
-    }
-    callTx.from = callTx.from.toLowerCase()
-    callTx.to = callTx.to.toLowerCase()
-    const orderedTx = reorderTransactionKeys(callTx)
-    const orderedTxString = JSON.stringify(orderedTx)
-    const bytes = toUtf8Bytes(orderedTxString)
-    const keccak256Hash = keccak256(bytes)
-    const signature = await secp256k1.signAsync(
-      keccak256Hash.replace('0x', ''),
-      privateKey
+      return await submitTransaction(
+        signedTransaction,
+        network,
+        retryPolicy
+      ).catch((error: unknown) => {
+        // Only a JSON-RPC error means the node answered and did not apply the transaction, so the
+        // reserved nonce is unused. After a timeout the transaction may still be applied, so the
+        // cached nonce is kept and the next transaction does not reuse it.
+        if (error instanceof RpcError && error.code !== undefined) {
+          nonceManager.resync(from)
+        }
+        throw error
+      })
+    },
+    { policy: { retries: 1, initialDelayMs: 0 }, isRetryable: isNonceError }
+  )
+}
+
+/**
+ * Builds the unsigned transaction that is hashed and signed, without touching the network. The nonce
+ * is set on the transaction and its `transactionType`, the `from` and `to` addresses are lowercased and
+ * the keys are put in the canonical order of `reorderTransactionKeys`. The given transaction is not modified.
+ *
+ * @param {InitTransaction} callTx - The initial transaction data.
+ * @param {string} nonce - The nonce the transaction is sent with, usually `getNewNonce(account.nonce)`.
+ * @returns {InitTransaction} The unsigned transaction, ready to be hashed or signed.
+ *
+ * @example
+ * const transaction = buildTransaction(callTx, getNewNonce(account.nonce))
+ */
+export function buildTransaction(
+  callTx: InitTransaction,
+  nonce: string
+): InitTransaction {
+  return reorderTransactionKeys({
+    ...callTx,
+    nonce,
+    transactionType: { [getBroadcastType(callTx)]: nonce },
+    from: callTx.from.toLowerCase(),
+    to: callTx.to.toLowerCase(),
+  })
+}
+
+/**
+ * Computes the keccak256 hash that is signed for a transaction: the hash of the JSON of the transaction
+ * with its keys in the canonical order. Any `r`, `s` and `v` already on the transaction are left out, so
+ * a signed transaction hashes the same as the unsigned one it was built from.
+ *
+ * @param {InitTransaction | Transaction} transaction - The transaction to hash, typically from `buildTransaction`.
+ * @returns {string} The `0x`-prefixed keccak256 hash.
+ */
+export function hashTransaction(
+  transaction: InitTransaction | Transaction
+): string {
+  const { r, s, v, ...unsignedTransaction } = transaction
+  const orderedTxString = JSON.stringify(
+    reorderTransactionKeys(unsignedTransaction as InitTransaction)
+  )
+  return keccak256(toUtf8Bytes(orderedTxString))
+}
+
+/**
+ * Signs a transaction with a secp256k1 private key. The hash from `hashTransaction` is signed and the
+ * signature is attached as `r`, `s` and `v` (the recovery id).
+ *
+ * @param {InitTransaction} transaction - The unsigned transaction, typically from `buildTransaction`.
+ * @param {string} privateKey - The private key of the sending account.
+ * @returns {Promise<Transaction>} The signed transaction, which can be inspected or passed to `submitTransaction`.
+ * @throws {SigningError} Throws if the private key is invalid.
+ */
+export async function signTransaction(
+  transaction: InitTransaction,
+  privateKey: string
+): Promise<Transaction> {
+  const { r, s, v, ...unsignedTransaction } = transaction
+  const orderedTx = reorderTransactionKeys(
+    unsignedTransaction as InitTransaction
+  )
+  const signature = await secp256k1
+    .signAsync(
+      hashTransaction(orderedTx).replace('0x', ''),
+      privateKey.replace('0x', '')
     )
-    const r = formatBigIntToHex(signature.r)
-    const s = formatBigIntToHex(signature.s)
-    const recover = signature.recovery as number
+    .catch((error: unknown) => {
+      throw new SigningError('Failed to sign the transaction', {
+        cause: error,
+      })
+    })
 
-    const transactionWithSignature: Transaction = {
-      ...orderedTx,
-      r,
-      s,
-      v: recover,
-    }
+  return {
+    ...orderedTx,
+    r: formatBigIntToHex(signature.r),
+    s: formatBigIntToHex(signature.s),
+    v: signature.recovery as number,
+  }
+}
 
-    const RPC_URL = getRPCForNetwork(network)
+/**
+ * Submits a signed transaction to the network with `lasr_send` for sends and `lasr_call` for every
+ * other operation.
+ *
+ * @param {Transaction} transaction - The signed transaction, typically from `signTransaction`.
+ * @param {string} network - The network to submit the transaction to (stable | test | local | a configured network profile)
+ * @param {Partial<RetryPolicy>} retryPolicy - Overrides of the timeout and retry policy.
+ * @returns {Promise<string>} The result of the RPC call.
+ * @throws {Error} Throws an error if the RPC call fails.
+ */
+export async function submitTransaction(
+  transaction: Transaction,
+  network: NETWORK = 'stable',
+  retryPolicy: Partial<RetryPolicy> = {}
+): Promise<string> {
+  const client = new LasrClient(getRPCForNetwork(network), retryPolicy)
+
+  return getBroadcastType(transaction) === 'send'
+    ? await client.send(transaction)
+    : await client.call(transaction)
+}
 
-    return await callLasrRpc(
-      `lasr_${broadcastType}`,
-      [transactionWithSignature],
-      RPC_URL
+/**
+ * Recovers the address that signed a transaction. The canonical payload is rebuilt and hashed exactly
+ * as in `hashTransaction`, and the secp256k1 public key is recovered from `r`, `s` and `v`.
+ *
+ * @param {Transaction} transaction - The signed transaction.
+ * @returns {string} The lowercased address of the signer.
+ * @throws {SigningError} Throws if the signature is malformed or no public key can be recovered from it.
+ */
+export function recoverSender(transaction: Transaction): string {
+  let publicKey: secp256k1.ProjectivePoint
+  try {
+    publicKey = new secp256k1.Signature(
+      BigInt(transaction.r),
+      BigInt(transaction.s)
     )
-  } catch (error: unknown) {
-    if (error instanceof Error) {
-      console.error(error.message)
-      throw error
-    } else {
-      console.error('An unexpected error occurred:', error)
-      throw new Error('An unexpected error occurred.')
-    }
+      .addRecoveryBit(transaction.v)
+      .recoverPublicKey(hashTransaction(transaction).replace('0x', ''))
+  } catch (error) {
+    throw new SigningError('Failed to recover the signer of the transaction', {
+      cause: error,
+    })
+  }
+
+  return computeAddress(`0x${publicKey.toHex(false)}`).toLowerCase()
+}
+
+/**
+ * Checks that a transaction was signed by its `from` address. Transactions whose signature is
+ * malformed, or was made by any other key, are rejected.
+ *
+ * @param {Transaction} transaction - The signed transaction, e.g. `ComputeInputs.transaction`.
+ * @returns {boolean} Whether the signature recovers to the `from` address.
+ */
+export function verifyTransaction(transaction: Transaction): boolean {
+  try {
+    return recoverSender(transaction) === transaction.from.toLowerCase()
+  } catch (e) {
+    return false
   }
 }
 
+/**
+ * Derives the address of the account a private key signs for.
+ *
+ * @param {string} privateKey - The private key, with or without `0x`.
+ * @returns {string} The checksummed address.
+ * @throws {SigningError} Throws if the private key is invalid.
+ */
+export function getSignerAddress(privateKey: string): string {
+  try {
+    return new Wallet(
+      privateKey.startsWith('0x') ? privateKey : `0x${privateKey}`
+    ).address
+  } catch (error) {
+    throw new SigningError('Invalid private key', { cause: error })
+  }
+}
+
+function getBroadcastType(transaction: InitTransaction): 'send' | 'call' {
+  return transaction.op === 'send' ? 'send' : 'call'
+}
+
 /**
  * Makes an asynchronous call to a specified RPC method with the given parameters and RPC URL.
  * This generic function is designed to handle various LASR RPC calls by specifying the method name,
- * parameters, and the target RPC URL.
+ * parameters, and the target RPC URL. Prefer the typed methods of `LasrClient`, which this delegates to.
  *
  * @param {string} method - The RPC method name to be called.
  * @param {string[] | Record<string, unknown> | Transaction[]} params - The parameters to be passed to the RPC method.
  * @param {string} rpcUrl - The URL of the RPC endpoint to which the call is made.
- * @returns {Promise<string | Error>} The result of the RPC call, typically a response object or an error.
- * @throws {Error} Throws an error if the RPC call fails or if the server returns an error response.
+ * @returns {Promise<string>} The result of the RPC call.
+ * @throws {RpcError} Throws if the RPC call fails or if the server returns an error response.
  */
 export async function callLasrRpc(
   method: string,
   params: string[] | Record<string, unknown> | Transaction[],
   rpcUrl: string
-): Promise<string | Error> {
-  try {
-    const callHeaders = new Headers()
-    callHeaders.append('Content-Type', 'application/json')
-    const body = JSON.stringify({
-      jsonrpc: '2.0',
-      method: method,
-      params: params,
-      id: 1,
-    })
-
-    const requestOptions: RequestInit = {
-      method: 'POST',
-      headers: callHeaders,
-      cache: 'no-store' as RequestCache,
-      body,
-    }
-
-    console.log({ params })
-
-    const response = await fetch(rpcUrl, requestOptions).then((response) =>
-      response.json()
-    )
-
-    if (response.error) {
-      throw new Error(response.error.message)
-    }
-    return response.result
-  } catch (error: unknown) {
-    if (error instanceof Error) {
-      console.error(error.message)
-      throw error
-    } else {
-      console.error('An unexpected error occurred:', error)
-      throw new Error('An unexpected error occurred.')
-    }
-  }
+): Promise<string> {
+  return await new LasrClient(rpcUrl).request(
+    method as LasrRpcMethod,
+    params as LasrRpcMethods[LasrRpcMethod]['params']
+  )
 }
 
 /**
  * Asynchronously retrieves account information for a given address from a blockchain network via an RPC call.
  *
  * @param {string} address - The blockchain address of the account to retrieve.
- * @param {string} network - Which network to get an account from (stable | test)
- * @returns {Promise<Account | Error>} An object containing account information or an error if the retrieval fails.
- * @throws {Error} Throws an error if the account information cannot be retrieved.
+ * @param {string} network - Which network to get an account from (stable | test | local | a configured network profile)
+ * @param {Partial<RetryPolicy>} retryPolicy - Overrides of the timeout and retry policy.
+ * @returns {Promise<Account>} An object containing account information.
+ * @throws {RpcError} Throws if the account information cannot be retrieved, e.g. because the account does not exist yet.
  */
 export async function getAccount(
   address: string,
-  network: NETWORK = 'stable'
-): Promise<Account | Error> {
-  try {
-    let account: Account | Error = new Error('An unexpected error occurred')
-    const params = [address]
-    const RPC_URL = getRPCForNetwork(network)
-
-    const result = await callLasrRpc('lasr_getAccount', params, RPC_URL)
-    if (result instanceof Error) {
-      console.error(result.message)
-      account = {
-        nonce: formatAmountToHex('0'),
-        accountType: 'user',
-        programAccountData: {},
-        programs: {},
-        ownerAddress: new Address(address),
-        programAccountLinkedPrograms: [],
-        programAccountMetadata: {},
-        programNamespace: undefined,
-      }
-    } else {
-      account = JSON.parse(result)
-    }
-
-    return account
-  } catch (error: unknown) {
-    if (error instanceof Error) {
-      console.error(error.message)
-      throw error
-    } else {
-      console.error('An unexpected error occurred:', error)
-    }
-    throw new Error('An unexpected error occurred')
-  }
+  network: NETWORK = 'stable',
+  retryPolicy: Partial<RetryPolicy> = {}
+): Promise<Account> {
+  const client = new LasrClient(getRPCForNetwork(network), retryPolicy)
+  return await client.getAccount(address)
 }
 
 /**
@@ -199,51 +279,45 @@ export async function getAccount(
  *
  * @param {InitTransaction} initTransaction - The initial transaction object to reorder.
  * @returns {InitTransaction} A new transaction object with keys ordered as specified.
- * @throws {Error} Throws an error if reordering fails.
  */
 export function reorderTransactionKeys(
   initTransaction: InitTransaction
 ): InitTransaction {
-  try {
-    const newObj: InitTransaction = {
-      transactionType: {} as TransactionType,
-      from: '',
-      to: '',
-      programId: '',
-      op: '',
-      transactionInputs: '',
-      value: '',
-      nonce: '',
-    }
+  const newObj: InitTransaction = {
+    transactionType: {} as TransactionType,
+    from: '',
+    to: '',
+    programId: '',
+    op: '',
+    transactionInputs: '',
+    value: '',
+    nonce: '',
+  }
 
-    const orderedKeys = new Set([
-      'transactionType',
-      'from',
-      'to',
-      'programId',
-      'op',
-      'transactionInputs',
-      'value',
-      'nonce',
-    ])
+  const orderedKeys = new Set([
+    'transactionType',
+    'from',
+    'to',
+    'programId',
+    'op',
+    'transactionInputs',
+    'value',
+    'nonce',
+  ])
 
-    orderedKeys.forEach((key) => {
-      if (key in initTransaction) {
-        newObj[key] = initTransaction[key]
-      }
-    })
+  orderedKeys.forEach((key) => {
+    if (key in initTransaction) {
+      newObj[key] = initTransaction[key]
+    }
+  })
 
-    Object.keys(initTransaction).forEach((key) => {
-      if (!orderedKeys.has(key)) {
-        newObj[key] = initTransaction[key]
-      }
-    })
+  Object.keys(initTransaction).forEach((key) => {
+    if (!orderedKeys.has(key)) {
+      newObj[key] = initTransaction[key]
+    }
+  })
 
-    return newObj
-  } catch (error) {
-    console.error('An error occurred while reordering transaction keys:', error)
-    throw error
-  }
+  return newObj
 }
 
 /**
@@ -0,0 +1,93 @@
+import assert from 'assert'
+import http from 'http'
+import { AddressInfo } from 'net'
+import { LasrClient, formatAmountToHex } from '@/index'
+import { JsonRpcRequest, Transaction } from '@/lib/types'
+
+const USER_ADDRESS = '0x' + 'bb'.repeat(20)
+
+// A stand-in node that records every request and answers from `respond`.
+const requests: JsonRpcRequest[] = []
+const respond = (request: JsonRpcRequest) => {
+  switch (request.method) {
+    case 'lasr_getAccount':
+      return {
+        result: JSON.stringify({
+          accountType: 'user',
+          nonce: formatAmountToHex('0'),
+          ownerAddress: (request.params as string[])[0],
+          programs: {},
+        }),
+      }
+    case 'lasr_call':
+    case 'lasr_send':
+      return { result: `${request.method} accepted` }
+    default:
+      return { error: { code: -32601, message: 'Method not found' } }
+  }
+}
+
+const server = http.createServer((req, res) => {
+  let body = ''
+  req.on('data', (chunk) => (body += chunk))
+  req.on('end', () => {
+    const request: JsonRpcRequest = JSON.parse(body)
+    requests.push(request)
+    res.setHeader('Content-Type', 'application/json')
+    res.end(
+      JSON.stringify({ jsonrpc: '2.0', id: request.id, ...respond(request) })
+    )
+  })
+})
+await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+const { port } = server.address() as AddressInfo
+
+const client = new LasrClient(`http://127.0.0.1:${port}`)
+const transaction = {
+  transactionType: { call: formatAmountToHex('1') },
+  from: USER_ADDRESS,
+  to: USER_ADDRESS,
+  programId: USER_ADDRESS,
+  op: 'transfer',
+  transactionInputs: '{}',
+  value: formatAmountToHex('0'),
+  nonce: formatAmountToHex('1'),
+  r: '0x0',
+  s: '0x0',
+  v: 0,
+} as Transaction
+
+try {
+  console.log('CLIENT')
+  console.log()
+  console.log('getAccount')
+  const account = await client.getAccount(USER_ADDRESS)
+  console.log(account)
+  assert.equal(account.ownerAddress, USER_ADDRESS)
+
+  console.log()
+  console.log('call and send')
+  assert.equal(await client.call(transaction), 'lasr_call accepted')
+  assert.equal(await client.send(transaction), 'lasr_send accepted')
+  assert.deepEqual(
+    requests.map(({ method, id }) => [method, id]),
+    [
+      ['lasr_getAccount', 1],
+      ['lasr_call', 2],
+      ['lasr_send', 3],
+    ]
+  )
+  assert.deepEqual(requests[1].params, [transaction])
+
+  console.log()
+  console.log('errors')
+  await assert.rejects(
+    () => client.registerProgram(transaction),
+    (e: unknown) => {
+      console.log((e as Error).message)
+      return e instanceof Error && e.message === 'Method not found'
+    }
+  )
+} finally {
+  server.close()
+}
@@ -0,0 +1,129 @@
+import assert from 'assert'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { ValidationError, resetNetworks } from '@/index'
+import { getRPCForNetwork } from '@/lib/utils'
+import {
+  applyProjectConfig,
+  findConfigFile,
+  getProjectPaths,
+  loadProjectConfig,
+} from '@/lasrctrl/config'
+
+const rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lasr-config-'))
+const nestedDir = path.join(rootDir, 'src', 'programs')
+fs.mkdirSync(nestedDir, { recursive: true })
+
+try {
+  console.log('CONFIG')
+  console.log()
+  console.log('no config file')
+  const empty = await loadProjectConfig(nestedDir)
+  assert.equal(empty.configPath, undefined)
+  assert.equal(
+    getProjectPaths(empty).lasrCli,
+    path.join(nestedDir, 'build', 'lasr_cli')
+  )
+
+  console.log()
+  console.log('discovered from a parent directory')
+  fs.writeFileSync(
+    path.join(rootDir, 'lasr.config.json'),
+    JSON.stringify({
+      network: 'devnet',
+      author: 'versatus',
+      wallet: 'keys/deployer.json',
+      buildDir: 'out',
+      networks: {
+        devnet: {
+          rpcUrl: 'http://10.0.0.2:9292',
+          vipfsAddress: '10.0.0.2:5001',
+        },
+      },
+      programs: {
+        token: {
+          entry: 'src/my-token.ts',
+          inputs: 'inputs/token',
+          deploy: {
+            symbol: 'TOK',
+            totalSupply: '1000',
+            inputs: { imgUrl: 'https://example.com/tok.png' },
+          },
+        },
+        faucet: { entry: 'src/faucet.ts', deploy: { author: 'faucet team' } },
+      },
+    })
+  )
+  assert.equal(
+    findConfigFile(nestedDir),
+    path.join(rootDir, 'lasr.config.json')
+  )
+  const config = await loadProjectConfig(nestedDir)
+  assert.equal(config.rootDir, rootDir)
+  assert.equal(getRPCForNetwork('devnet'), 'http://10.0.0.2:9292')
+  assert.deepEqual(getProjectPaths(config), {
+    buildDir: path.join(rootDir, 'out'),
+    libDir: path.join(rootDir, 'out', 'lib'),
+    lasrCli: path.join(rootDir, 'out', 'lasr_cli'),
+    wallet: path.join(rootDir, 'keys', 'deployer.json'),
+  })
+
+  console.log()
+  console.log('merged with flags')
+  const deployArgs = applyProjectConfig('deploy', { symbol: 'FLAG' }, config)
+  console.log(deployArgs)
+  assert.deepEqual(deployArgs, {
+    symbol: 'FLAG',
+    build: 'my-token',
+    author: 'versatus',
+    totalSupply: '1000',
+    inputs: '{"imgUrl":"https://example.com/tok.png"}',
+    network: 'devnet',
+  })
+  assert.equal(
+    applyProjectConfig('deploy', { build: 'faucet' }, config).author,
+    'faucet team'
+  )
+  assert.deepEqual(applyProjectConfig('test', {}, config), {
+    build: 'my-token',
+    inputJson: path.join(rootDir, 'inputs', 'token'),
+  })
+  assert.deepEqual(applyProjectConfig('build', { file: 'faucet' }, config), {
+    file: 'faucet',
+  })
+  assert.deepEqual(applyProjectConfig('build', {}, config), {
+    file: path.join(rootDir, 'src', 'my-token.ts'),
+  })
+  assert.deepEqual(applyProjectConfig('dev', {}, config), {
+    file: path.join(rootDir, 'src', 'my-token.ts'),
+    inputJson: path.join(rootDir, 'inputs', 'token'),
+  })
+  assert.deepEqual(applyProjectConfig('call', { op: 'transfer' }, config), {
+    op: 'transfer',
+    network: 'devnet',
+  })
+  assert.equal(
+    applyProjectConfig('send', { network: 'test' }, config).network,
+    'test'
+  )
+  assert.equal(applyProjectConfig('wallet', {}, { rootDir }).network, 'stable')
+  assert.equal(applyProjectConfig('build', {}, config).network, undefined)
+
+  console.log()
+  console.log('lasr.config.mjs')
+  fs.rmSync(path.join(rootDir, 'lasr.config.json'))
+  fs.writeFileSync(
+    path.join(rootDir, 'lasr.config.mjs'),
+    "export default { author: 'from js', programs: { broken: {} } }"
+  )
+  await assert.rejects(
+    () => loadProjectConfig(nestedDir),
+    (error: unknown) =>
+      error instanceof ValidationError &&
+      error.fields[0].field === 'programs.broken.entry'
+  )
+} finally {
+  resetNetworks()
+  fs.rmSync(rootDir, { recursive: true, force: true })
+}
@@ -0,0 +1,70 @@
+import assert from 'assert'
+import fs from 'fs'
+import path from 'path'
+import { Outputs } from '@/index'
+import { bundleProgram, runBundle } from '@/lasrctrl/bundle'
+
+// Create outputs recorded once from the original `fungible`, `snake` and `faucet` example
+// programs, so a change to the serialized format fails here. A request that changes what an
+// example writes on purpose updates its fixture in the same commit.
+const EXAMPLES = ['fungible', 'snake', 'faucet']
+
+const readFixture = (name: string): Record<string, any> =>
+  JSON.parse(
+    fs.readFileSync(
+      path.resolve(process.cwd(), 'src', 'test', 'fixtures', name),
+      'utf8'
+    )
+  )
+
+// The examples live outside the compiled sources, so they are bundled the way `lasrctl build`
+// bundles a program, from a directory whose tsconfig lets them import the SDK sources.
+const bundleDir = path.resolve(process.cwd(), 'build', 'test-examples')
+fs.mkdirSync(bundleDir, { recursive: true })
+fs.writeFileSync(
+  path.join(bundleDir, 'tsconfig.json'),
+  JSON.stringify({
+    extends: path.resolve(process.cwd(), 'tsconfig.json'),
+    compilerOptions: {
+      rootDir: process.cwd(),
+      outDir: bundleDir,
+      declaration: false,
+    },
+    include: ['*.ts'],
+  })
+)
+
+console.log('TOKEN DISTRIBUTION')
+
+try {
+  for (const example of EXAMPLES) {
+    const recorded = readFixture(`${example}-create.json`)
+
+    console.log()
+    console.log(example)
+
+    // Serialization must produce plain JSON without relying on JSON.stringify.
+    const roundTripped = Outputs.fromJson(recorded).toJson()
+    assert.deepStrictEqual(roundTripped, recorded)
+    console.log('round trip matches the recorded outputs')
+
+    const entry = path.join(bundleDir, `${example}.ts`)
+    fs.copyFileSync(
+      path.resolve(process.cwd(), 'examples', example, 'example-program.ts'),
+      entry
+    )
+    const { outputPath } = await bundleProgram(entry, {
+      outputDir: bundleDir,
+      sourceMaps: false,
+    })
+    const run = await runBundle(
+      outputPath,
+      JSON.stringify(recorded.computeInputs)
+    )
+    assert.equal(run.exitCode, 0, run.stdout)
+    assert.deepStrictEqual(JSON.parse(run.stdout), recorded)
+    console.log('example program output matches the recorded outputs')
+  }
+} finally {
+  fs.rmSync(bundleDir, { recursive: true, force: true })
+}
@@ -0,0 +1,435 @@
+import assert from 'assert'
+import {
+  buildBurnInstruction,
+  buildLogInstruction,
+  buildMintInstructions,
+  buildProgramUpdateField,
+  buildTokenUpdateField,
+  buildUpdateInstruction,
+  buildTransferInstruction,
+  formatAmountToHex,
+  formatBigIntToHex,
+  LasrEmulator,
+  Outputs,
+  Program,
+  ProgramExecutionError,
+  StateError,
+  ValidationError,
+  ETH_PROGRAM_ADDRESS,
+  THIS,
+  Address,
+  AddressOrNamespace,
+  ProgramUpdate,
+  TokenUpdate,
+  TokenOrProgramUpdate,
+} from '@/index'
+import { ComputeInputs } from '@/lib/types'
+
+const PROGRAM_ADDRESS = '0x' + 'aa'.repeat(20)
+const USER_ADDRESS = '0x' + 'bb'.repeat(20)
+const RECIPIENT_ADDRESS = '0x' + 'cc'.repeat(20)
+
+class EmulatedTokenProgram extends Program {
+  constructor() {
+    super()
+    this.defineMethods({
+      burn: this.burn,
+      mint: this.mint,
+      transfer: this.transfer,
+      setAllowance: this.setAllowance,
+      transferFrom: this.transferFrom,
+      lock: this.lock,
+    })
+  }
+
+  burn(computeInputs: ComputeInputs) {
+    const { transaction } = computeInputs
+    return new Outputs(computeInputs, [
+      buildBurnInstruction({
+        from: transaction.from,
+        caller: transaction.from,
+        programId: THIS,
+        tokenAddress: transaction.programId,
+        amount: transaction.value,
+      }),
+    ]).toJson()
+  }
+
+  mint(computeInputs: ComputeInputs) {
+    const { transaction } = computeInputs
+    const inputValue = BigInt(transaction.value)
+    return new Outputs(
+      computeInputs,
+      buildMintInstructions({
+        from: transaction.from,
+        programId: transaction.programId,
+        paymentTokenAddress: ETH_PROGRAM_ADDRESS,
+        inputValue,
+        returnedValue: inputValue * BigInt(2),
+      })
+    ).toJson()
+  }
+
+  transfer(computeInputs: ComputeInputs) {
+    const { transaction } = computeInputs
+    const { to, amount } = JSON.parse(transaction.transactionInputs)
+    const value = BigInt(formatAmountToHex(amount))
+    return new Outputs(computeInputs, [
+      buildTransferInstruction({
+        from: transaction.from,
+        to,
+        tokenAddress: transaction.programId,
+        amount: value,
+      }),
+      buildLogInstruction({
+        event: 'Transfer',
+        fields: [
+          { key: 'from', type: 'address', value: transaction.from },
+          { key: 'to', type: 'address', value: to },
+          { key: 'amount', type: 'uint256', value },
+        ],
+      }),
+    ]).toJson()
+  }
+
+  setAllowance(computeInputs: ComputeInputs) {
+    const { transaction } = computeInputs
+    const { spender, amount } = JSON.parse(transaction.transactionInputs)
+    return new Outputs(computeInputs, [
+      buildUpdateInstruction({
+        update: new TokenOrProgramUpdate(
+          'tokenUpdate',
+          new TokenUpdate(
+            new AddressOrNamespace(new Address(transaction.from)),
+            new AddressOrNamespace(THIS),
+            [
+              buildTokenUpdateField({
+                field: 'allowance',
+                value: [[new Address(spender), formatAmountToHex(amount)]],
+                action: 'insert',
+              }),
+            ]
+          )
+        ),
+      }),
+    ]).toJson()
+  }
+
+  transferFrom(computeInputs: ComputeInputs) {
+    const { transaction } = computeInputs
+    const { from, to, amount } = JSON.parse(transaction.transactionInputs)
+    const value = formatAmountToHex(amount)
+    return new Outputs(computeInputs, [
+      buildUpdateInstruction({
+        update: new TokenOrProgramUpdate(
+          'tokenUpdate',
+          new TokenUpdate(
+            new AddressOrNamespace(new Address(from)),
+            new AddressOrNamespace(THIS),
+            [
+              buildTokenUpdateField({
+                field: 'allowance',
+                value: [[new Address(transaction.from), value]],
+                action: 'remove',
+              }),
+            ]
+          )
+        ),
+      }),
+      buildTransferInstruction({
+        from,
+        to,
+        tokenAddress: transaction.programId,
+        amount: BigInt(value),
+      }),
+    ]).toJson()
+  }
+
+  lock(computeInputs: ComputeInputs) {
+    return new Outputs(computeInputs, [
+      buildUpdateInstruction({
+        update: new TokenOrProgramUpdate(
+          'programUpdate',
+          new ProgramUpdate(new AddressOrNamespace(THIS), [
+            buildProgramUpdateField({
+              field: 'status',
+              value: 'locked',
+              action: 'insert',
+            }),
+          ])
+        ),
+      }),
+    ]).toJson()
+  }
+}
+
+const balanceOf = (
+  emulator: LasrEmulator,
+  address: string,
+  token: string
+): bigint => BigInt(emulator.getToken(address, token)?.balance ?? '0x0')
+
+const program = new EmulatedTokenProgram()
+const emulator = new LasrEmulator().setToken(
+  USER_ADDRESS,
+  ETH_PROGRAM_ADDRESS,
+  { balance: formatAmountToHex('10') }
+)
+
+console.log('EMULATOR')
+console.log()
+console.log('create')
+emulator.execute(program, {
+  op: 'create',
+  from: USER_ADDRESS,
+  to: PROGRAM_ADDRESS,
+  transactionInputs: {
+    symbol: 'EMU',
+    name: 'Emulated',
+    totalSupply: '1000',
+    initializedSupply: '1000',
+    imgUrl: 'https://example.com/emu.png',
+    paymentProgramAddress: ETH_PROGRAM_ADDRESS,
+    conversionRate: '2',
+    recipientAddress: PROGRAM_ADDRESS,
+  },
+})
+const programAccount = emulator.getAccount(PROGRAM_ADDRESS)
+console.log(programAccount?.programAccountMetadata)
+assert.equal(programAccount?.programAccountMetadata.symbol, 'EMU')
+assert.equal(
+  balanceOf(emulator, PROGRAM_ADDRESS, PROGRAM_ADDRESS),
+  BigInt(formatAmountToHex('1000'))
+)
+
+console.log()
+console.log('accounts')
+assert.equal(programAccount?.ownerAddress, USER_ADDRESS)
+assert.deepEqual(programAccount?.accountType, { Program: PROGRAM_ADDRESS })
+assert.equal(emulator.getAccount(USER_ADDRESS)?.accountType, 'user')
+assert.equal(
+  emulator.getAccount(USER_ADDRESS)?.nonce,
+  formatBigIntToHex(BigInt(1))
+)
+const restored = new LasrEmulator(emulator.getAccounts())
+assert.deepEqual(restored.getAccounts(), emulator.getAccounts())
+assert.deepEqual(restored.getAccount(PROGRAM_ADDRESS), programAccount)
+assert.equal(
+  emulator.createComputeInputs({
+    op: 'mint',
+    from: USER_ADDRESS,
+    to: PROGRAM_ADDRESS,
+  }).transaction.nonce,
+  formatBigIntToHex(BigInt(2))
+)
+assert.equal(
+  emulator.getAccount(USER_ADDRESS)?.nonce,
+  formatBigIntToHex(BigInt(1))
+)
+
+console.log()
+console.log('mint')
+emulator.execute(program, {
+  op: 'mint',
+  from: USER_ADDRESS,
+  to: PROGRAM_ADDRESS,
+  value: formatAmountToHex('1'),
+})
+console.log(emulator.getToken(USER_ADDRESS, PROGRAM_ADDRESS)?.balance)
+assert.equal(
+  balanceOf(emulator, USER_ADDRESS, PROGRAM_ADDRESS),
+  BigInt(formatAmountToHex('2'))
+)
+assert.equal(
+  balanceOf(emulator, USER_ADDRESS, ETH_PROGRAM_ADDRESS),
+  BigInt(formatAmountToHex('9'))
+)
+assert.equal(
+  balanceOf(emulator, PROGRAM_ADDRESS, ETH_PROGRAM_ADDRESS),
+  BigInt(formatAmountToHex('1'))
+)
+
+console.log()
+console.log('transfer')
+const { logs } = emulator.execute(program, {
+  op: 'transfer',
+  from: USER_ADDRESS,
+  to: PROGRAM_ADDRESS,
+  transactionInputs: { to: RECIPIENT_ADDRESS, amount: '0.5' },
+})
+console.log(emulator.getToken(RECIPIENT_ADDRESS, PROGRAM_ADDRESS)?.balance)
+console.log(logs)
+assert.deepEqual(logs, emulator.getLogs('Transfer'))
+assert.deepEqual(logs, [
+  {
+    programAddress: PROGRAM_ADDRESS,
+    event: 'Transfer',
+    fields: [
+      { key: 'from', type: 'address', value: USER_ADDRESS },
+      { key: 'to', type: 'address', value: RECIPIENT_ADDRESS },
+      {
+        key: 'amount',
+        type: 'uint256',
+        value: formatAmountToHex('0.5'),
+      },
+    ],
+  },
+])
+assert.equal(
+  balanceOf(emulator, RECIPIENT_ADDRESS, PROGRAM_ADDRESS),
+  BigInt(formatAmountToHex('0.5'))
+)
+
+console.log()
+console.log('burn')
+emulator.execute(program, {
+  op: 'burn',
+  from: USER_ADDRESS,
+  to: PROGRAM_ADDRESS,
+  value: formatAmountToHex('1.5'),
+})
+console.log(emulator.getToken(USER_ADDRESS, PROGRAM_ADDRESS)?.balance)
+assert.equal(balanceOf(emulator, USER_ADDRESS, PROGRAM_ADDRESS), BigInt(0))
+
+console.log()
+console.log('burn more than the balance')
+assert.throws(
+  () =>
+    emulator.execute(program, {
+      op: 'burn',
+      from: RECIPIENT_ADDRESS,
+      to: PROGRAM_ADDRESS,
+      value: formatAmountToHex('1'),
+    }),
+  (e: unknown) =>
+    e instanceof StateError &&
+    e.account === RECIPIENT_ADDRESS &&
+    e.token === PROGRAM_ADDRESS
+)
+assert.equal(
+  balanceOf(emulator, RECIPIENT_ADDRESS, PROGRAM_ADDRESS),
+  BigInt(formatAmountToHex('0.5'))
+)
+console.log(emulator.getToken(RECIPIENT_ADDRESS, PROGRAM_ADDRESS)?.balance)
+assert.equal(
+  emulator.getAccount(RECIPIENT_ADDRESS)?.nonce,
+  formatBigIntToHex(BigInt(0))
+)
+
+console.log()
+console.log('set allowance')
+emulator.execute(program, {
+  op: 'setAllowance',
+  from: RECIPIENT_ADDRESS,
+  to: PROGRAM_ADDRESS,
+  transactionInputs: { spender: USER_ADDRESS, amount: '0.5' },
+})
+console.log(emulator.getToken(RECIPIENT_ADDRESS, PROGRAM_ADDRESS)?.allowance)
+assert.deepEqual(
+  emulator.getToken(RECIPIENT_ADDRESS, PROGRAM_ADDRESS)?.allowance,
+  { [USER_ADDRESS]: formatAmountToHex('0.5') }
+)
+
+console.log()
+console.log('transfer from')
+emulator.execute(program, {
+  op: 'transferFrom',
+  from: USER_ADDRESS,
+  to: PROGRAM_ADDRESS,
+  transactionInputs: {
+    from: RECIPIENT_ADDRESS,
+    to: USER_ADDRESS,
+    amount: '0.2',
+  },
+})
+console.log(emulator.getToken(RECIPIENT_ADDRESS, PROGRAM_ADDRESS)?.allowance)
+assert.equal(
+  BigInt(
+    emulator.getToken(RECIPIENT_ADDRESS, PROGRAM_ADDRESS)?.allowance[
+      USER_ADDRESS
+    ] ?? '0x0'
+  ),
+  BigInt(formatAmountToHex('0.3'))
+)
+assert.equal(
+  balanceOf(emulator, USER_ADDRESS, PROGRAM_ADDRESS),
+  BigInt(formatAmountToHex('0.2'))
+)
+
+console.log()
+console.log('transfer from more than the allowance')
+assert.throws(
+  () =>
+    emulator.execute(program, {
+      op: 'transferFrom',
+      from: USER_ADDRESS,
+      to: PROGRAM_ADDRESS,
+      transactionInputs: {
+        from: RECIPIENT_ADDRESS,
+        to: USER_ADDRESS,
+        amount: '0.4',
+      },
+    }),
+  (e: unknown) =>
+    e instanceof StateError && /Insufficient allowance/.test(e.message)
+)
+assert.equal(
+  balanceOf(emulator, RECIPIENT_ADDRESS, PROGRAM_ADDRESS),
+  BigInt(formatAmountToHex('0.3'))
+)
+
+console.log()
+console.log('program status')
+emulator.execute(program, {
+  op: 'lock',
+  from: USER_ADDRESS,
+  to: PROGRAM_ADDRESS,
+})
+console.log(emulator.getAccount(PROGRAM_ADDRESS)?.status)
+assert.equal(emulator.getAccount(PROGRAM_ADDRESS)?.status, 'locked')
+
+console.log()
+console.log('malformed instructions')
+const context = { caller: USER_ADDRESS, programAddress: PROGRAM_ADDRESS }
+const accountsBefore = emulator.getAccounts()
+;[
+  { airdrop: {} },
+  { transfer: { token: PROGRAM_ADDRESS, from: USER_ADDRESS, amount: 1 } },
+  { log: { event: 'Transfer' } },
+  {
+    update: {
+      updates: [
+        {
+          programUpdate: {
+            account: THIS,
+            updates: [{ field: 'owner', value: { owner: { set: '0x1' } } }],
+          },
+        },
+      ],
+    },
+  },
+].forEach((instruction) =>
+  assert.throws(
+    () => emulator.applyInstructions([instruction], context),
+    (e: unknown) => {
+      console.log((e as Error).message)
+      return e instanceof ValidationError
+    }
+  )
+)
+assert.deepEqual(emulator.getAccounts(), accountsBefore)
+
+console.log()
+console.log('unknown operations')
+assert.throws(
+  () =>
+    emulator.execute(program, {
+      op: 'airdrop',
+      from: USER_ADDRESS,
+      to: PROGRAM_ADDRESS,
+    }),
+  (e: unknown) => {
+    console.log((e as Error).message)
+    return e instanceof ProgramExecutionError && e.op === 'airdrop'
+  }
+)
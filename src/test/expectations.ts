@@ -0,0 +1,208 @@
+import assert from 'assert'
+import {
+  Outputs,
+  ValidationError,
+  buildBurnInstruction,
+  buildLogInstruction,
+  buildTransferInstruction,
+  checkExpectations,
+  createComputeInputs,
+  formatMismatches,
+  getBalanceDeltas,
+  getSignerAddress,
+  parseTestInput,
+  THIS,
+} from '@/index'
+
+const PROGRAM_ADDRESS = '0x' + 'AA'.repeat(20)
+const PRIVATE_KEY = '0x' + '11'.repeat(32)
+const USER_ADDRESS = getSignerAddress(PRIVATE_KEY).toLowerCase()
+const PAYMENT_ADDRESS = '0x' + 'cc'.repeat(20)
+
+const computeInputs = await createComputeInputs({
+  op: 'buy',
+  programAddress: PROGRAM_ADDRESS,
+  privateKey: PRIVATE_KEY,
+})
+
+// The caller pays 10 payment tokens, receives 10 program tokens and burns 3 of them.
+const output = JSON.parse(
+  JSON.stringify(
+    new Outputs(computeInputs, [
+      buildTransferInstruction({
+        from: USER_ADDRESS,
+        to: THIS,
+        tokenAddress: PAYMENT_ADDRESS,
+        amount: BigInt(10),
+      }),
+      buildTransferInstruction({
+        from: THIS,
+        to: USER_ADDRESS,
+        tokenAddress: THIS,
+        amount: BigInt(10),
+      }),
+      buildBurnInstruction({
+        from: USER_ADDRESS,
+        caller: USER_ADDRESS,
+        programId: THIS,
+        tokenAddress: THIS,
+        amount: '3',
+      }),
+      buildLogInstruction({
+        event: 'Bought',
+        fields: [
+          { key: 'buyer', type: 'address', value: USER_ADDRESS },
+          { key: 'amount', type: 'uint256', value: '10' },
+        ],
+      }),
+    ]).toJson()
+  )
+)
+const instructions = output.instructions
+
+console.log('EXPECTATIONS')
+console.log()
+console.log('test inputs')
+const { computeInputs: inputs, expect } = parseTestInput({
+  ...computeInputs,
+  expect: { error: 'Insufficient' },
+})
+assert.equal('expect' in inputs, false)
+assert.equal(inputs.op, 'buy')
+assert.deepEqual(expect, { error: 'Insufficient' })
+assert.equal(parseTestInput(computeInputs).expect, undefined)
+assert.throws(
+  () => parseTestInput({ ...computeInputs, expect: { logs: {} } }),
+  (error: unknown) =>
+    error instanceof ValidationError && error.fields[0].field === 'expect.logs'
+)
+assert.throws(() => parseTestInput([]), ValidationError)
+
+console.log()
+console.log('balance deltas')
+const program = PROGRAM_ADDRESS.toLowerCase()
+const deltas = getBalanceDeltas(instructions, {
+  caller: USER_ADDRESS,
+  programAddress: PROGRAM_ADDRESS,
+})
+console.log(deltas)
+assert.deepEqual(deltas, {
+  [USER_ADDRESS]: { [PAYMENT_ADDRESS]: '-10', [program]: '7' },
+  [program]: { [PAYMENT_ADDRESS]: '10', [program]: '-10' },
+})
+
+console.log()
+console.log('errors')
+const failed = { error: { name: 'Error', message: 'Insufficient balance' } }
+assert.deepEqual(
+  checkExpectations({ error: 'Insufficient' }, failed, computeInputs),
+  []
+)
+assert.equal(
+  checkExpectations({ error: 'Unauthorized' }, failed, computeInputs)[0]
+    .message,
+  'the program failed with a different error'
+)
+assert.equal(
+  checkExpectations({}, failed, computeInputs)[0].message,
+  'expected the program to succeed, but it failed'
+)
+assert.equal(
+  checkExpectations({ error: 'Insufficient' }, output, computeInputs)[0]
+    .message,
+  'expected the program to fail, but it succeeded'
+)
+assert.deepEqual(checkExpectations({}, output, computeInputs), [])
+
+console.log()
+console.log('instructions')
+assert.deepEqual(checkExpectations({ instructions }, output, computeInputs), [])
+const exact = checkExpectations(
+  { instructions: instructions.slice(0, 2) },
+  output,
+  computeInputs
+)
+assert.equal(exact[0].path, 'instructions')
+assert.deepEqual(
+  checkExpectations(
+    {
+      instructionsMatch: 'partial',
+      instructions: [{ transfer: { amount: instructions[0].transfer.amount } }],
+    },
+    output,
+    computeInputs
+  ),
+  []
+)
+const partial = checkExpectations(
+  {
+    instructionsMatch: 'partial',
+    instructions: [
+      { transfer: { to: 'this' } },
+      { transfer: { to: { address: USER_ADDRESS.toUpperCase() } } },
+      { burn: { amount: '0x5' } },
+    ],
+  },
+  output,
+  computeInputs
+)
+console.log(formatMismatches(partial))
+assert.deepEqual(
+  partial.map(({ path }) => path),
+  ['instructions[2].burn.amount']
+)
+assert.deepEqual(
+  checkExpectations(
+    {
+      instructionsMatch: 'partial',
+      instructions: [{}, {}, { burn: { amount: '0x3' } }],
+    },
+    output,
+    computeInputs
+  ),
+  []
+)
+
+console.log()
+console.log('logs and balances')
+assert.deepEqual(
+  checkExpectations(
+    {
+      logs: [
+        {
+          event: 'Bought',
+          fields: [{ key: 'buyer', type: 'address', value: USER_ADDRESS }],
+        },
+      ],
+      balanceDeltas: {
+        [USER_ADDRESS]: { [PAYMENT_ADDRESS]: '-10', this: '0x7' },
+        this: { [PAYMENT_ADDRESS]: '10' },
+      },
+    },
+    output,
+    computeInputs
+  ),
+  []
+)
+const wrong = checkExpectations(
+  {
+    logs: [{ event: 'Sold' }],
+    balanceDeltas: { [USER_ADDRESS]: { this: '-3' }, this: { this: 'lots' } },
+  },
+  output,
+  computeInputs
+)
+console.log(formatMismatches(wrong))
+assert.deepEqual(
+  wrong.map(({ path }) => path),
+  [
+    'logs[0].event',
+    `balanceDeltas.${USER_ADDRESS}.this`,
+    'balanceDeltas.this.this',
+  ]
+)
+assert.equal(wrong[1].actual, '7')
+assert.equal(
+  checkExpectations({ logs: [] }, output, computeInputs)[0].message,
+  'expected 0 events, got 1'
+)
@@ -0,0 +1,151 @@
+import assert from 'assert'
+import { Wallet } from 'ethers'
+import {
+  ETH_PROGRAM_ADDRESS,
+  LasrEmulator,
+  Program,
+  SigningError,
+  ValidationError,
+  createComputeInputs,
+  formatAmountToHex,
+  formatBigIntToHex,
+  getSignerAddress,
+  verifyTransaction,
+} from '@/index'
+
+const PRIVATE_KEY = '0x' + '11'.repeat(32)
+const PROGRAM_ADDRESS = '0x' + 'AA'.repeat(20)
+const SENDER_ADDRESS = new Wallet(PRIVATE_KEY).address
+
+console.log('FIXTURES')
+console.log()
+console.log('signer')
+assert.equal(getSignerAddress(PRIVATE_KEY), SENDER_ADDRESS)
+assert.equal(getSignerAddress(PRIVATE_KEY.slice(2)), SENDER_ADDRESS)
+assert.throws(() => getSignerAddress('0x1234'), SigningError)
+
+console.log()
+console.log('defaults')
+const inputs = await createComputeInputs({
+  op: 'mint',
+  programAddress: PROGRAM_ADDRESS,
+  privateKey: PRIVATE_KEY,
+  value: '1.5',
+  transactionInputs: { amount: '10' },
+})
+console.log(JSON.stringify(inputs, null, 2))
+assert.equal(inputs.op, 'mint')
+assert.equal(inputs.version, 1)
+assert.equal(inputs.contractInputs, '')
+assert.equal(inputs.transaction.from, SENDER_ADDRESS.toLowerCase())
+assert.equal(inputs.transaction.to, PROGRAM_ADDRESS.toLowerCase())
+assert.equal(inputs.transaction.programId, PROGRAM_ADDRESS.toLowerCase())
+assert.equal(inputs.transaction.transactionInputs, '{"amount":"10"}')
+assert.equal(inputs.transaction.value, formatAmountToHex('1.5'))
+assert.equal(inputs.transaction.nonce, formatBigIntToHex(BigInt(1)))
+assert.deepEqual(inputs.transaction.transactionType, {
+  call: inputs.transaction.nonce,
+})
+assert.ok(verifyTransaction(inputs.transaction))
+assert.deepEqual(inputs.accountInfo.accountType, {
+  Program: PROGRAM_ADDRESS.toLowerCase(),
+})
+assert.equal(inputs.accountInfo.ownerAddress, SENDER_ADDRESS.toLowerCase())
+assert.deepEqual(inputs.accountInfo.programs, {})
+
+const send = await createComputeInputs({
+  op: 'send',
+  programAddress: PROGRAM_ADDRESS,
+  privateKey: PRIVATE_KEY,
+  programId: '0x' + 'BB'.repeat(20),
+  value: '0x2a',
+  nonce: 7,
+})
+assert.equal(send.transaction.programId, '0x' + 'bb'.repeat(20))
+assert.equal(send.transaction.value, formatBigIntToHex(BigInt(42)))
+assert.deepEqual(send.transaction.transactionType, {
+  send: formatBigIntToHex(BigInt(7)),
+})
+assert.ok(verifyTransaction(send.transaction))
+
+console.log()
+console.log('accounts')
+const emulator = new LasrEmulator()
+emulator.execute(new Program(), {
+  op: 'create',
+  from: SENDER_ADDRESS,
+  to: PROGRAM_ADDRESS,
+  transactionInputs: {
+    symbol: 'FIX',
+    name: 'Fixture',
+    totalSupply: '100',
+    initializedSupply: '100',
+    imgUrl: 'https://example.com/fix.png',
+    paymentProgramAddress: ETH_PROGRAM_ADDRESS,
+    conversionRate: '1',
+    recipientAddress: PROGRAM_ADDRESS,
+  },
+})
+const state = emulator.getAccounts()
+const fromState = await createComputeInputs({
+  op: 'mint',
+  programAddress: PROGRAM_ADDRESS,
+  privateKey: PRIVATE_KEY,
+  state,
+})
+assert.equal(fromState.transaction.nonce, formatBigIntToHex(BigInt(2)))
+assert.equal(
+  fromState.transaction.nonce,
+  emulator.createComputeInputs({
+    op: 'mint',
+    from: SENDER_ADDRESS,
+    to: PROGRAM_ADDRESS,
+  }).transaction.nonce
+)
+assert.deepEqual(fromState.accountInfo, emulator.getAccount(PROGRAM_ADDRESS))
+assert.equal(fromState.accountInfo.ownerAddress, SENDER_ADDRESS.toLowerCase())
+assert.equal(
+  fromState.accountInfo.programs[PROGRAM_ADDRESS.toLowerCase()].balance,
+  formatAmountToHex('100')
+)
+const template = {
+  ...fromState.accountInfo,
+  programAccountData: { minted: '1' },
+}
+const fromTemplate = await createComputeInputs({
+  op: 'mint',
+  programAddress: PROGRAM_ADDRESS,
+  privateKey: PRIVATE_KEY,
+  accountInfo: template,
+  state,
+})
+assert.deepEqual(fromTemplate.accountInfo, template)
+assert.notEqual(fromTemplate.accountInfo, template)
+
+console.log()
+console.log('errors')
+const options = {
+  op: 'mint',
+  programAddress: PROGRAM_ADDRESS,
+  privateKey: PRIVATE_KEY,
+}
+await createComputeInputs({ ...options, from: SENDER_ADDRESS.toLowerCase() })
+await assert.rejects(
+  () => createComputeInputs({ ...options, from: PROGRAM_ADDRESS }),
+  (error: unknown) =>
+    error instanceof ValidationError && error.fields[0].field === 'from'
+)
+await assert.rejects(
+  () => createComputeInputs({ ...options, value: '1.5 LASR' }),
+  (error: unknown) =>
+    error instanceof ValidationError && error.fields[0].field === 'value'
+)
+await assert.rejects(
+  () => createComputeInputs({ ...options, nonce: -1 }),
+  (error: unknown) =>
+    error instanceof ValidationError && error.fields[0].field === 'nonce'
+)
+await assert.rejects(
+  () => createComputeInputs({ ...options, privateKey: '0x1234' }),
+  SigningError
+)
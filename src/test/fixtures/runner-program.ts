@@ -0,0 +1,27 @@
+import { ComputeInputs } from '@/lib/types'
+import { Program } from '@/lib/programs/Program'
+import { Outputs } from '@/lib/programs/Outputs'
+import { runProgram } from '@/lib/programs/program-runner'
+import { buildLogInstruction } from '@/lib/programs/instruction-builders/builder-helpers'
+
+// A program entrypoint spawned by the program-runner test.
+class GreetingProgram extends Program {
+  constructor() {
+    super()
+    this.defineMethods({
+      greet: { handler: this.greet, inputs: { name: 'string' } },
+    })
+  }
+
+  greet(computeInputs: ComputeInputs) {
+    const { name } = JSON.parse(computeInputs.transaction.transactionInputs)
+    return new Outputs(computeInputs, [
+      buildLogInstruction({
+        event: 'Greeted',
+        fields: [{ key: 'name', type: 'string', value: name }],
+      }),
+    ]).toJson()
+  }
+}
+
+runProgram(GreetingProgram)
@@ -0,0 +1,92 @@
+import assert from 'assert'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { Wallet, encryptKeystoreJson } from 'ethers'
+import {
+  Keystore,
+  KeystoreV3,
+  SigningError,
+  ValidationError,
+  decryptKeystore,
+  encryptPrivateKey,
+} from '@/index'
+
+const PRIVATE_KEY = '0x' + '11'.repeat(32)
+const ADDRESS = new Wallet(PRIVATE_KEY).address.toLowerCase()
+// A low scrypt cost keeps the test fast; real keystores use the default.
+const options = { scryptN: 1024 }
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'lasr-keystore-'))
+const keystorePath = path.join(dir, 'wallet', 'keystore.json')
+
+try {
+  console.log('KEYSTORE')
+  console.log()
+  console.log('encrypt and decrypt')
+  const encrypted = await encryptPrivateKey(PRIVATE_KEY.slice(2), 'pw', options)
+  console.log(encrypted)
+  assert.equal(encrypted.version, 3)
+  assert.equal(encrypted.crypto.cipher, 'aes-256-gcm')
+  assert.equal(`0x${encrypted.address}`, ADDRESS)
+  assert.ok(!JSON.stringify(encrypted).includes(PRIVATE_KEY.slice(2)))
+  assert.equal(await decryptKeystore(encrypted, 'pw'), PRIVATE_KEY)
+  await assert.rejects(() => decryptKeystore(encrypted, 'wrong'), SigningError)
+
+  console.log()
+  console.log('ethereum keystores')
+  const ethereumKeystore: KeystoreV3 = JSON.parse(
+    await encryptKeystoreJson(
+      { address: ADDRESS, privateKey: PRIVATE_KEY },
+      'pw',
+      { scrypt: { N: 1024 } }
+    )
+  )
+  assert.equal(await decryptKeystore(ethereumKeystore, 'pw'), PRIVATE_KEY)
+
+  console.log()
+  console.log('missing keystores are not created')
+  const keystore = new Keystore(keystorePath, options)
+  assert.equal(await keystore.exists(), false)
+  await assert.rejects(
+    () => keystore.getPrivateKey(undefined, 'pw'),
+    ValidationError
+  )
+  assert.equal(fs.existsSync(keystorePath), false)
+
+  console.log()
+  console.log('named accounts')
+  const imported = await keystore.importAccount('deployer', PRIVATE_KEY, 'pw')
+  const created = await keystore.createAccount('player', 'other')
+  console.log(await keystore.listAccounts())
+  assert.deepEqual(imported, {
+    name: 'deployer',
+    address: ADDRESS,
+    isDefault: true,
+  })
+  assert.equal(created.isDefault, false)
+  assert.equal(await keystore.getPrivateKey(undefined, 'pw'), PRIVATE_KEY)
+  assert.equal(
+    new Wallet(
+      await keystore.getPrivateKey('player', 'other')
+    ).address.toLowerCase(),
+    created.address
+  )
+  await assert.rejects(
+    () => keystore.createAccount('player', 'pw'),
+    ValidationError
+  )
+  await assert.rejects(() => keystore.getAccount('nobody'), ValidationError)
+  await assert.rejects(
+    () => keystore.getPrivateKey('deployer', 'wrong'),
+    SigningError
+  )
+
+  console.log()
+  console.log('default account')
+  await keystore.setDefaultAccount('player')
+  assert.equal((await keystore.getAccount()).name, 'player')
+  assert.equal((fs.statSync(keystorePath).mode & 0o777).toString(8), '600')
+} finally {
+  fs.rmSync(dir, { recursive: true, force: true })
+}
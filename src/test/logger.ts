@@ -0,0 +1,52 @@
+import assert from 'assert'
+import {
+  Logger,
+  createConsoleLogger,
+  formatHexToAmount,
+  getLogger,
+  setLogger,
+  silentLogger,
+} from '@/index'
+import { getRPCForNetwork } from '@/lib/utils'
+
+// A logger that records every message instead of printing it.
+const messages: [string, string][] = []
+const recorder: Logger = {
+  debug: (message) => messages.push(['debug', message]),
+  info: (message) => messages.push(['info', message]),
+  warn: (message) => messages.push(['warn', message]),
+  error: (message) => messages.push(['error', message]),
+}
+const defaultLogger = getLogger()
+
+console.log('LOGGER')
+console.log()
+console.log('inject a logger')
+setLogger(recorder)
+const rpcUrl = getRPCForNetwork('test')
+formatHexToAmount('not hex')
+console.log(messages)
+assert.deepEqual(messages, [
+  ['debug', `Using RPC URL ${rpcUrl}`],
+  ['warn', 'Error formatting hex to amount'],
+])
+
+console.log()
+console.log('console logger levels')
+const written: unknown[][] = []
+const consoleError = console.error
+console.error = (...args: unknown[]) => written.push(args)
+try {
+  const logger = createConsoleLogger('warn')
+  logger.debug('hidden')
+  logger.info('hidden')
+  logger.warn('shown', 1)
+  logger.error('shown')
+  silentLogger.error('hidden')
+} finally {
+  console.error = consoleError
+}
+console.log(written)
+assert.deepEqual(written, [['[warn] shown', 1], ['[error] shown']])
+
+setLogger(defaultLogger)
@@ -0,0 +1,77 @@
+import assert from 'assert'
+import {
+  LASR_RPC_URL_UNSTABLE,
+  ValidationError,
+  getNetworkNames,
+  getNetworkProfile,
+  registerNetworks,
+  resetNetworks,
+} from '@/index'
+import { getIPFSForNetwork, getRPCForNetwork } from '@/lib/utils'
+
+try {
+  console.log('NETWORKS')
+  console.log()
+  console.log('built-in profiles')
+  assert.deepEqual(getNetworkNames(), ['stable', 'test', 'unstable', 'local'])
+  assert.equal(getRPCForNetwork('test'), LASR_RPC_URL_UNSTABLE)
+  assert.equal(getRPCForNetwork('local'), 'http://127.0.0.1:9292')
+  assert.equal(getIPFSForNetwork('local'), '127.0.0.1:5001')
+  assert.equal(getNetworkProfile('local').faucetUrl, undefined)
+
+  console.log()
+  console.log('unknown networks')
+  assert.throws(
+    () => getRPCForNetwork('devnet'),
+    (error: unknown) =>
+      error instanceof ValidationError &&
+      /Available networks: stable, test, unstable, local/.test(error.message)
+  )
+
+  console.log()
+  console.log('registered profiles')
+  registerNetworks({
+    devnet: {
+      rpcUrl: 'http://10.0.0.2:9292',
+      vipfsAddress: '10.0.0.2:5001',
+    },
+    local: { rpcUrl: 'http://127.0.0.1:9393' },
+  })
+  assert.deepEqual(getNetworkNames(), [
+    'stable',
+    'test',
+    'unstable',
+    'local',
+    'devnet',
+  ])
+  const devnet = getNetworkProfile('devnet')
+  console.log(devnet)
+  assert.equal(devnet.rpcUrl, 'http://10.0.0.2:9292')
+  assert.equal(
+    devnet.verseProgramAddress,
+    getNetworkProfile('stable').verseProgramAddress
+  )
+  assert.equal(getRPCForNetwork('local'), 'http://127.0.0.1:9393')
+  assert.equal(getIPFSForNetwork('local'), '127.0.0.1:5001')
+
+  console.log()
+  console.log('environment overrides')
+  process.env.LASR_RPC_URL = 'http://127.0.0.1:1'
+  assert.equal(getRPCForNetwork('devnet'), 'http://127.0.0.1:1')
+  delete process.env.LASR_RPC_URL
+
+  console.log()
+  console.log('incomplete profiles')
+  assert.throws(
+    () => registerNetworks({ broken: { rpcUrl: 'http://10.0.0.3:9292' } }),
+    (error: unknown) =>
+      error instanceof ValidationError &&
+      error.fields[0].field === 'networks.broken.vipfsAddress'
+  )
+
+  resetNetworks()
+  assert.throws(() => getNetworkProfile('devnet'), ValidationError)
+  assert.equal(getRPCForNetwork('local'), 'http://127.0.0.1:9292')
+} finally {
+  resetNetworks()
+}
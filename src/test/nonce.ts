@@ -0,0 +1,163 @@
+import assert from 'assert'
+import http from 'http'
+import { AddressInfo } from 'net'
+import { Wallet } from 'ethers'
+import {
+  LasrClient,
+  NonceManager,
+  RpcError,
+  broadcast,
+  formatAmountToHex,
+  getNewNonce,
+  getNonceManager,
+  isNonceError,
+} from '@/index'
+import { JsonRpcRequest, Transaction } from '@/lib/types'
+
+const PRIVATE_KEY = '0x' + '11'.repeat(32)
+const SENDER_ADDRESS = new Wallet(PRIVATE_KEY).address.toLowerCase()
+const PROGRAM_ADDRESS = '0x' + 'aa'.repeat(20)
+
+// A stand-in node holding a single account. Calls are accepted unless `rejectNextCall`
+// is set, which simulates another client using the nonce first.
+let accountNonce = formatAmountToHex('0')
+let rejectNextCall = false
+let timeOutNextCall = false
+const lookups: string[] = []
+const submitted: Transaction[] = []
+const server = http.createServer((req, res) => {
+  let body = ''
+  req.on('data', (chunk) => (body += chunk))
+  req.on('end', () => {
+    const request: JsonRpcRequest = JSON.parse(body)
+    const reply = (payload: object) =>
+      res.end(JSON.stringify({ jsonrpc: '2.0', id: request.id, ...payload }))
+
+    if (request.method === 'lasr_getAccount') {
+      const [address] = request.params as string[]
+      lookups.push(address)
+      if (address !== SENDER_ADDRESS) {
+        return reply({ error: { code: -32000, message: 'Account not found' } })
+      }
+      return reply({
+        result: JSON.stringify({ ownerAddress: address, nonce: accountNonce }),
+      })
+    }
+
+    const [transaction] = request.params as Transaction[]
+    if (rejectNextCall) {
+      rejectNextCall = false
+      accountNonce = transaction.nonce as string
+      return reply({ error: { code: -32000, message: 'Invalid nonce' } })
+    }
+    submitted.push(transaction)
+    if (timeOutNextCall) {
+      // The node applies the call, but answers only after the client gave up.
+      timeOutNextCall = false
+      return setTimeout(
+        () => reply({ result: `accepted ${transaction.nonce}` }),
+        300
+      )
+    }
+    reply({ result: `accepted ${transaction.nonce}` })
+  })
+})
+await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+const { port } = server.address() as AddressInfo
+process.env.LASR_RPC_URL = `http://127.0.0.1:${port}`
+
+const callTx = {
+  op: 'transfer',
+  from: SENDER_ADDRESS,
+  to: PROGRAM_ADDRESS,
+  programId: PROGRAM_ADDRESS,
+  transactionInputs: '{}',
+  value: formatAmountToHex('0'),
+}
+
+try {
+  console.log('NONCE')
+  console.log()
+  console.log('sequential nonces')
+  const nonces = new NonceManager(new LasrClient(process.env.LASR_RPC_URL))
+  const reserved = await Promise.all([
+    nonces.next(SENDER_ADDRESS),
+    nonces.next(new Wallet(PRIVATE_KEY).address),
+    nonces.next(SENDER_ADDRESS),
+  ])
+  console.log(reserved)
+  const first = getNewNonce(accountNonce)
+  assert.deepEqual(reserved, [
+    first,
+    getNewNonce(first),
+    getNewNonce(getNewNonce(first)),
+  ])
+  assert.deepEqual(lookups, [SENDER_ADDRESS])
+
+  console.log()
+  console.log('resync')
+  nonces.resync(SENDER_ADDRESS)
+  assert.equal(await nonces.next(SENDER_ADDRESS), first)
+  assert.equal(lookups.length, 2)
+
+  console.log()
+  console.log('failed lookups are not cached')
+  const stranger = '0x' + 'cc'.repeat(20)
+  await assert.rejects(() => nonces.next(stranger))
+  await assert.rejects(() => nonces.next(stranger))
+  assert.deepEqual(lookups.slice(2), [stranger, stranger])
+
+  console.log()
+  console.log('concurrent broadcasts')
+  const results = await Promise.all(
+    [1, 2, 3].map(() => broadcast(callTx, PRIVATE_KEY, 'test'))
+  )
+  console.log(results)
+  assert.deepEqual(
+    submitted.map(({ nonce }) => nonce).sort(),
+    [...reserved].sort()
+  )
+  assert.equal(new Set(results).size, 3)
+
+  console.log()
+  console.log('resync on nonce errors')
+  submitted.length = 0
+  rejectNextCall = true
+  const result = await broadcast(callTx, PRIVATE_KEY, 'test')
+  console.log(result)
+  assert.equal(submitted.length, 1)
+  assert.equal(submitted[0].nonce, getNewNonce(accountNonce))
+  assert.equal(
+    await getNonceManager('test').next(SENDER_ADDRESS),
+    getNewNonce(submitted[0].nonce)
+  )
+
+  console.log()
+  console.log('never resend or resync after a timeout')
+  submitted.length = 0
+  timeOutNextCall = true
+  const lookupsBeforeTimeout = lookups.length
+  await assert.rejects(
+    () =>
+      broadcast(callTx, PRIVATE_KEY, 'test', {
+        timeoutMs: 100,
+        initialDelayMs: 1,
+      }),
+    (e: unknown) => {
+      console.log((e as Error).message)
+      return e instanceof RpcError && /timed out/.test(e.message)
+    }
+  )
+  assert.equal(submitted.length, 1)
+  // The node may have applied the call, so its nonce stays used.
+  assert.equal(
+    await getNonceManager('test').next(SENDER_ADDRESS),
+    getNewNonce(submitted[0].nonce)
+  )
+  assert.equal(lookups.length, lookupsBeforeTimeout)
+  assert.ok(!isNonceError(new RpcError('nonce timed out')))
+  assert.ok(isNonceError(new RpcError('Invalid nonce', { code: -32000 })))
+} finally {
+  delete process.env.LASR_RPC_URL
+  server.close()
+}
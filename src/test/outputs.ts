@@ -0,0 +1,253 @@
+import assert from 'assert'
+import {
+  Address,
+  AddressOrNamespace,
+  BurnInstruction,
+  Instruction,
+  LogInstruction,
+  Outputs,
+  ProgramUpdate,
+  TokenFieldValue,
+  TokenIdRemove,
+  TokenMetadataRemove,
+  TokenOrProgramUpdate,
+  TokenUpdate,
+  TransferInstruction,
+  UpdateInstruction,
+  ValidationError,
+  buildBurnInstruction,
+  buildLogInstruction,
+  buildProgramUpdateField,
+  buildTokenUpdateField,
+  buildTransferInstruction,
+  buildUpdateInstruction,
+  formatAmountToHex,
+  formatBigIntToHex,
+  THIS,
+} from '@/index'
+
+const PROGRAM_ADDRESS = '0x' + 'aa'.repeat(20)
+const USER_ADDRESS = '0x' + 'bb'.repeat(20)
+const SPENDER_ADDRESS = '0x' + 'cc'.repeat(20)
+
+const tokenUpdate = buildUpdateInstruction({
+  update: new TokenOrProgramUpdate(
+    'tokenUpdate',
+    new TokenUpdate(
+      new AddressOrNamespace(new Address(USER_ADDRESS)),
+      new AddressOrNamespace(THIS),
+      [
+        buildTokenUpdateField({
+          field: 'metadata',
+          value: JSON.stringify({ symbol: 'OUT' }),
+          action: 'extend',
+        }),
+        buildTokenUpdateField({
+          field: 'approvals',
+          value: [[new Address(SPENDER_ADDRESS), ['0x01']]],
+          action: 'extend',
+        }),
+        buildTokenUpdateField({
+          field: 'status',
+          value: 'locked',
+          action: 'insert',
+        }),
+      ]
+    )
+  ),
+})
+
+const programUpdate = buildUpdateInstruction({
+  update: new TokenOrProgramUpdate(
+    'programUpdate',
+    new ProgramUpdate(new AddressOrNamespace(THIS), [
+      buildProgramUpdateField({
+        field: 'data',
+        value: JSON.stringify({ foo: 'bar' }),
+        action: 'extend',
+      }),
+      buildProgramUpdateField({
+        field: 'linkedPrograms',
+        value: PROGRAM_ADDRESS,
+        action: 'insert',
+      }),
+    ])
+  ),
+})
+
+const outputsJson = JSON.parse(
+  JSON.stringify(
+    new Outputs(null, [
+      tokenUpdate,
+      programUpdate,
+      buildTransferInstruction({
+        from: USER_ADDRESS,
+        to: SPENDER_ADDRESS,
+        tokenAddress: PROGRAM_ADDRESS,
+        amount: BigInt(formatAmountToHex('1')),
+      }),
+      buildBurnInstruction({
+        from: USER_ADDRESS,
+        caller: USER_ADDRESS,
+        programId: THIS,
+        tokenAddress: PROGRAM_ADDRESS,
+        amount: formatAmountToHex('1'),
+      }),
+      buildLogInstruction({
+        event: 'Burn',
+        fields: [
+          { key: 'from', type: 'address', value: USER_ADDRESS },
+          { key: 'amount', type: 'uint256', value: BigInt(1) },
+          { key: 'final', type: 'bool', value: true },
+        ],
+      }),
+    ]).toJson()
+  )
+)
+
+console.log('OUTPUTS')
+console.log()
+console.log('parse outputs')
+const outputs = Outputs.fromJson(outputsJson)
+const instructions = outputs.getInstructions()
+console.log(instructions.map((instruction) => instruction.getKind()))
+assert.deepEqual(
+  instructions.map((instruction) => instruction.getKind()),
+  ['update', 'update', 'transfer', 'burn', 'log']
+)
+assert.ok(instructions[0].getValue() instanceof UpdateInstruction)
+assert.ok(instructions[2].getValue() instanceof TransferInstruction)
+assert.ok(instructions[3].getValue() instanceof BurnInstruction)
+const log = instructions[4].getValue() as LogInstruction
+assert.equal(log.getEvent(), 'Burn')
+assert.deepEqual(
+  log.getFields().map(({ value }) => value),
+  [USER_ADDRESS, formatBigIntToHex(BigInt(1)), 'true']
+)
+
+console.log()
+console.log('round trip')
+assert.deepEqual(JSON.parse(JSON.stringify(outputs.toJson())), outputsJson)
+
+console.log()
+console.log('reject malformed shapes')
+const rejects = (json: unknown) => {
+  assert.throws(
+    () => Instruction.fromJson(json),
+    (e: unknown) => {
+      console.log((e as Error).message)
+      return e instanceof ValidationError && e.fields.length === 1
+    }
+  )
+}
+rejects({ mint: {} })
+rejects({
+  log: { event: 'Burn', fields: [{ key: 'a', type: 'int', value: '1' }] },
+})
+assert.throws(
+  () =>
+    buildLogInstruction({
+      event: 'Burn',
+      fields: [{ key: 'from', type: 'address', value: 'nobody' }],
+    }),
+  (e: unknown) => e instanceof ValidationError && e.fields[0].field === 'from'
+)
+rejects({ transfer: {}, burn: {} })
+rejects({ transfer: { token: PROGRAM_ADDRESS, ids: 'not an array' } })
+rejects({
+  update: {
+    updates: [
+      {
+        tokenUpdate: {
+          account: 'this',
+          token: 'this',
+          updates: [
+            { field: 'metadata', value: { data: { extend: { a: 'b' } } } },
+          ],
+        },
+      },
+    ],
+  },
+})
+rejects({
+  update: {
+    updates: [
+      {
+        programUpdate: {
+          account: { address: PROGRAM_ADDRESS },
+          updates: [{ field: 'data', value: { data: { append: {} } } }],
+        },
+      },
+    ],
+  },
+})
+
+console.log()
+console.log('reject mismatched field updates')
+const statusExtend = {
+  field: 'status',
+  value: 'locked',
+  action: 'extend',
+} as const
+// @ts-expect-error status can only be inserted
+assert.throws(() => buildTokenUpdateField(statusExtend), ValidationError)
+const tokenIdsRemove = {
+  field: 'tokenIds',
+  value: '1',
+  action: 'remove',
+} as const
+// @ts-expect-error the builder does not update token ids
+assert.throws(() => buildTokenUpdateField(tokenIdsRemove))
+const programStatusRemove = {
+  field: 'status',
+  value: 'locked',
+  action: 'remove',
+} as const
+// @ts-expect-error status can only be inserted
+assert.throws(() => buildProgramUpdateField(programStatusRemove))
+const allowanceInsertMany = {
+  field: 'allowance',
+  value: [
+    [new Address(SPENDER_ADDRESS), '0x01'],
+    [new Address(USER_ADDRESS), '0x02'],
+  ],
+  action: 'insert',
+} as const
+// @ts-expect-error insert changes a single spender
+assert.throws(() => buildTokenUpdateField(allowanceInsertMany), ValidationError)
+assert.throws(
+  () =>
+    buildTokenUpdateField({
+      field: 'approvals',
+      value: [] as unknown as [[Address, string[]]],
+      action: 'remove',
+    }),
+  ValidationError
+)
+assert.deepEqual(
+  buildTokenUpdateField({
+    field: 'allowance',
+    value: [[new Address(SPENDER_ADDRESS), '0x01']],
+    action: 'remove',
+  }).toJson(),
+  {
+    field: 'allowance',
+    value: {
+      allowance: { remove: [SPENDER_ADDRESS, ['0x01']] },
+    },
+  }
+)
+// @ts-expect-error approvals only accept approvals actions
+new TokenFieldValue('approvals', new TokenMetadataRemove('name'))
+// @ts-expect-error a field value is keyed by its field, not by the action
+new TokenFieldValue('remove', new TokenIdRemove(BigInt(1)))
+// Removing a token id is a valid tokenIds action, and round trips like the others.
+const tokenIdRemove = new TokenFieldValue(
+  'tokenIds',
+  new TokenIdRemove(BigInt(1))
+)
+assert.deepEqual(tokenIdRemove.toJson(), { tokenIds: { remove: '1' } })
+assert.deepEqual(
+  TokenFieldValue.fromJson(tokenIdRemove.toJson()).toJson(),
+  tokenIdRemove.toJson()
+)
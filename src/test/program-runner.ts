@@ -0,0 +1,79 @@
+import assert from 'assert'
+import path from 'path'
+import { runBundle } from '@/lasrctrl/bundle'
+import { createComputeInputs } from '@/lib/fixtures'
+
+const PROGRAM_ADDRESS = '0x' + 'aa'.repeat(20)
+const PRIVATE_KEY = '0x' + '11'.repeat(32)
+
+// Compiled from src/test/fixtures/runner-program.ts, which calls runProgram.
+const programPath = path.resolve(
+  process.cwd(),
+  'dist',
+  'test',
+  'fixtures',
+  'runner-program.js'
+)
+
+const computeInputsFor = async (op: string, transactionInputs: string) =>
+  JSON.stringify(
+    await createComputeInputs({
+      op,
+      programAddress: PROGRAM_ADDRESS,
+      privateKey: PRIVATE_KEY,
+      transactionInputs,
+    })
+  )
+
+console.log('PROGRAM RUNNER')
+console.log()
+console.log('valid inputs')
+const inputs = await computeInputsFor('greet', JSON.stringify({ name: 'LASR' }))
+const success = await runBundle(programPath, inputs)
+console.log(success.stdout)
+assert.equal(success.exitCode, 0)
+assert.equal(success.stderr, '')
+const outputs = JSON.parse(success.stdout)
+assert.deepEqual(outputs.computeInputs, JSON.parse(inputs))
+assert.deepEqual(outputs.instructions, [
+  {
+    log: {
+      event: 'Greeted',
+      fields: [{ key: 'name', type: 'string', value: 'LASR' }],
+    },
+  },
+])
+
+console.log()
+console.log('invalid inputs')
+const invalid = await runBundle(
+  programPath,
+  await computeInputsFor('greet', JSON.stringify({ name: 7 }))
+)
+console.log(invalid.stdout)
+assert.equal(invalid.exitCode, 1)
+assert.deepEqual(JSON.parse(invalid.stdout), {
+  error: {
+    name: 'InputValidationError',
+    message: 'Invalid transactionInputs: name must be a string',
+    fields: [{ field: 'name', message: 'must be a string' }],
+  },
+})
+
+console.log()
+console.log('unknown operations')
+const unknown = await runBundle(
+  programPath,
+  await computeInputsFor('wave', '{}')
+)
+console.log(unknown.stdout)
+assert.equal(unknown.exitCode, 1)
+assert.equal(JSON.parse(unknown.stdout).error.name, 'ProgramExecutionError')
+assert.equal(JSON.parse(unknown.stdout).error.fields, undefined)
+
+console.log()
+console.log('malformed compute inputs')
+const malformed = await runBundle(programPath, '{not json')
+console.log(malformed.stdout)
+assert.equal(malformed.exitCode, 1)
+assert.equal(JSON.parse(malformed.stdout).error.name, 'SyntaxError')
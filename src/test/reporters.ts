@@ -0,0 +1,126 @@
+import assert from 'assert'
+import { formatReport, getFailureReason } from '@/lasrctrl/reporters'
+import { InputTestResult } from '@/lasrctrl/test-runner'
+
+const passed: InputTestResult = {
+  input: 'inputs/transfer.json',
+  passed: true,
+  durationMs: 12,
+  stdout: '{"instructions":[]}',
+  stderr: '',
+  mismatches: [],
+}
+const failed: InputTestResult = {
+  input: 'inputs/burn <fail>.json',
+  passed: false,
+  durationMs: 1500,
+  stdout: '{"error":{"message":"Insufficient"}}',
+  stderr: '\x1b[0;31mthrew "Insufficient" & exited\x1b[0m\n',
+  mismatches: [
+    {
+      path: 'error',
+      message: 'expected the program to succeed, but it failed',
+      actual: 'Insufficient',
+    },
+  ],
+}
+const broken: InputTestResult = {
+  input: 'inputs/broken.json',
+  passed: false,
+  durationMs: 3,
+  stdout: '',
+  stderr: '',
+  mismatches: [],
+  error: 'inputs/broken.json is not valid JSON',
+}
+const report = {
+  program: 'example-program',
+  results: [passed, failed, broken],
+  durationMs: 1600,
+}
+
+console.log('REPORTERS')
+console.log()
+console.log('failure reasons')
+assert.equal(getFailureReason(passed), undefined)
+assert.equal(
+  getFailureReason(failed),
+  'error: expected the program to succeed, but it failed\n  actual:   "Insufficient"'
+)
+assert.equal(getFailureReason(broken), 'inputs/broken.json is not valid JSON')
+
+console.log()
+console.log('pretty')
+const pretty = formatReport('pretty', report)
+console.log(pretty)
+assert.match(pretty, /PASS\x1b\[0m transfer\.json \(12ms\)/)
+assert.match(pretty, /FAIL\x1b\[0m burn <fail>\.json \(1500ms\)/)
+assert.match(pretty, /threw "Insufficient" & exited/)
+assert.match(pretty, /1 passed, 2 failed in 1600ms/)
+assert.doesNotMatch(pretty, /Output:/)
+assert.match(
+  formatReport(
+    'pretty',
+    { ...report, results: [passed] },
+    { showOutput: true }
+  ),
+  /Output:[\s\S]*\{"instructions":\[\]\}/
+)
+
+console.log()
+console.log('json')
+const json = JSON.parse(formatReport('json', report))
+assert.equal(json.program, 'example-program')
+assert.equal(json.passed, 1)
+assert.equal(json.failed, 2)
+assert.equal(json.results[0].failure, undefined)
+assert.equal(json.results[1].input, 'inputs/burn <fail>.json')
+assert.equal(json.results[1].durationMs, 1500)
+assert.equal(json.results[1].stderr, failed.stderr)
+assert.equal(json.results[2].failure, broken.error)
+
+console.log()
+console.log('junit')
+const junit = formatReport('junit', report)
+console.log(junit)
+assert.match(
+  junit,
+  /<testsuite name="example-program" tests="3" failures="1" errors="1" time="1\.600">/
+)
+assert.match(
+  junit,
+  /<testcase name="inputs\/transfer\.json" classname="example-program" time="0\.012">\n {6}<system-out>\{&quot;instructions&quot;:\[\]\}<\/system-out>\n {4}<\/testcase>/
+)
+assert.match(junit, /name="inputs\/burn &lt;fail&gt;\.json"/)
+assert.match(
+  junit,
+  /<failure message="error: expected the program to succeed, but it failed">/
+)
+assert.match(junit, /<error message="inputs\/broken\.json is not valid JSON">/)
+assert.match(
+  junit,
+  /<system-err>threw &quot;Insufficient&quot; &amp; exited\n<\/system-err>/
+)
+assert.doesNotMatch(junit, /\x1b/)
+
+console.log()
+console.log('tap')
+const tap = formatReport('tap', report)
+console.log(tap)
+const lines = tap.split('\n')
+assert.deepEqual(lines.slice(0, 3), [
+  'TAP version 13',
+  '1..3',
+  'ok 1 - inputs/transfer.json # time=12ms',
+])
+assert.ok(lines.includes('not ok 2 - inputs/burn <fail>.json # time=1500ms'))
+assert.ok(lines.includes('not ok 3 - inputs/broken.json # time=3ms'))
+assert.match(
+  tap,
+  / {2}---\n {2}durationMs: 1500\n {2}message: \|-\n {4}error: expected the program to succeed, but it failed\n {4} {2}actual: {3}"Insufficient"\n/
+)
+assert.match(
+  tap,
+  / {2}stderr: \|-\n {4}threw "Insufficient" & exited\n {2}\.\.\.\n/
+)
+assert.match(tap, /# pass 1\n# fail 2\n$/)
@@ -0,0 +1,129 @@
+import assert from 'assert'
+import {
+  InputValidationError,
+  Outputs,
+  Program,
+  THIS,
+  ValidationError,
+  buildTransferInstruction,
+  createComputeInputs,
+  formatAmountToHex,
+  toProgramErrorOutput,
+  validateInputs,
+} from '@/index'
+import { ComputeInputs } from '@/lib/types'
+
+const PROGRAM_ADDRESS = '0x' + 'aa'.repeat(20)
+const PRIVATE_KEY = '0x' + '11'.repeat(32)
+const USER_ADDRESS = '0x' + 'bb'.repeat(20)
+
+class SchemaProgram extends Program {
+  constructor() {
+    super()
+    this.defineMethods({
+      transfer: {
+        handler: this.transfer,
+        inputs: {
+          to: 'address',
+          amount: 'amount',
+          memo: { type: 'string', optional: true },
+        },
+      },
+    })
+  }
+
+  transfer(computeInputs: ComputeInputs) {
+    const { transaction } = computeInputs
+    const { to, amount } = JSON.parse(transaction.transactionInputs)
+    return new Outputs(computeInputs, [
+      buildTransferInstruction({
+        from: transaction.from,
+        to,
+        tokenAddress: THIS,
+        amount: BigInt(formatAmountToHex(amount)),
+      }),
+    ]).toJson()
+  }
+}
+
+const computeInputsFor = (op: string, transactionInputs: string) =>
+  createComputeInputs({
+    op,
+    programAddress: PROGRAM_ADDRESS,
+    privateKey: PRIVATE_KEY,
+    transactionInputs,
+  })
+
+const program = new SchemaProgram()
+
+console.log('SCHEMA')
+console.log()
+console.log('valid inputs')
+const outputs = program.start(
+  await computeInputsFor(
+    'transfer',
+    JSON.stringify({ to: USER_ADDRESS, amount: '1.5' })
+  )
+)
+console.log(outputs)
+assert.ok(outputs)
+
+console.log()
+console.log('every failing field is reported')
+const invalidInputs = await computeInputsFor(
+  'transfer',
+  JSON.stringify({ to: '0x1234', amount: 'lots', memo: 7 })
+)
+assert.throws(
+  () => program.start(invalidInputs),
+  (e: unknown) => {
+    console.log(toProgramErrorOutput(e))
+    assert.ok(e instanceof InputValidationError)
+    assert.ok(e instanceof ValidationError)
+    assert.deepEqual(
+      e.fields.map(({ field }) => field),
+      ['to', 'amount', 'memo']
+    )
+    return true
+  }
+)
+
+console.log()
+console.log('missing fields and malformed JSON')
+assert.throws(
+  () => validateInputs({ to: 'address', amount: 'amount' }, '{}'),
+  (e: unknown) =>
+    e instanceof InputValidationError &&
+    e.fields.every(({ message }) => message === 'is required')
+)
+assert.throws(
+  () => validateInputs({ to: 'address' }, '{not json'),
+  InputValidationError
+)
+assert.deepEqual(
+  validateInputs({ memo: { type: 'string', optional: true } }, ''),
+  {}
+)
+
+console.log()
+console.log('schemas follow the registered handlers')
+assert.deepEqual(Object.keys(program.getInputSchemas()), [
+  'create',
+  'update',
+  'transfer',
+])
+program.defineMethod('create', program.transfer)
+assert.equal(program.getInputSchemas().create, undefined)
+
+console.log()
+console.log('overriding create drops the base schema')
+class CustomCreateProgram extends Program {
+  create(computeInputs: ComputeInputs) {
+    return new Outputs(computeInputs, []).toJson()
+  }
+}
+const custom = new CustomCreateProgram()
+assert.deepEqual(Object.keys(custom.getInputSchemas()), ['update'])
+const createInputs = await computeInputsFor('create', JSON.stringify({}))
+assert.ok(custom.start(createInputs))
+assert.throws(() => new Program().start(createInputs), InputValidationError)
@@ -0,0 +1,107 @@
+import assert from 'assert'
+import fs from 'fs'
+import path from 'path'
+import * as secp256k1 from '@noble/secp256k1'
+import { Wallet, keccak256, toUtf8Bytes } from 'ethers'
+import {
+  SigningError,
+  buildTransaction,
+  formatAmountToHex,
+  getNewNonce,
+  hashTransaction,
+  recoverSender,
+  signTransaction,
+  verifyTransaction,
+} from '@/index'
+import { ComputeInputs, InitTransaction } from '@/lib/types'
+
+const PRIVATE_KEY = '0x' + '11'.repeat(32)
+const PROGRAM_ADDRESS = '0x' + 'AA'.repeat(20)
+const SENDER_ADDRESS = new Wallet(PRIVATE_KEY).address
+
+const callTx: InitTransaction = {
+  op: 'transfer',
+  value: formatAmountToHex('1'),
+  transactionInputs: JSON.stringify({ to: PROGRAM_ADDRESS, amount: '1' }),
+  programId: PROGRAM_ADDRESS,
+  to: PROGRAM_ADDRESS,
+  from: SENDER_ADDRESS,
+}
+const nonce = getNewNonce(formatAmountToHex('0'))
+
+console.log('TRANSACTION')
+console.log()
+console.log('build')
+const transaction = buildTransaction(callTx, nonce)
+console.log(transaction)
+assert.deepEqual(Object.keys(transaction), [
+  'transactionType',
+  'from',
+  'to',
+  'programId',
+  'op',
+  'transactionInputs',
+  'value',
+  'nonce',
+])
+assert.deepEqual(transaction.transactionType, { call: nonce })
+assert.equal(transaction.from, SENDER_ADDRESS.toLowerCase())
+assert.equal(transaction.to, PROGRAM_ADDRESS.toLowerCase())
+assert.equal(callTx.nonce, undefined)
+assert.deepEqual(
+  buildTransaction({ ...callTx, op: 'send' }, nonce).transactionType,
+  { send: nonce }
+)
+
+console.log()
+console.log('hash')
+const hash = hashTransaction(transaction)
+console.log(hash)
+assert.equal(hash, keccak256(toUtf8Bytes(JSON.stringify(transaction))))
+
+console.log()
+console.log('sign')
+const signed = await signTransaction(transaction, PRIVATE_KEY)
+console.log(signed)
+assert.equal(hashTransaction(signed), hash)
+assert.ok([0, 1].includes(signed.v))
+const signature = new secp256k1.Signature(
+  BigInt(signed.r),
+  BigInt(signed.s)
+).addRecoveryBit(signed.v)
+assert.ok(
+  secp256k1.verify(
+    signature,
+    hash.replace('0x', ''),
+    secp256k1.getPublicKey(PRIVATE_KEY.replace('0x', ''))
+  )
+)
+assert.deepEqual(await signTransaction(signed, PRIVATE_KEY), signed)
+await assert.rejects(() => signTransaction(transaction, '0x1234'), SigningError)
+
+console.log()
+console.log('verify')
+console.log(recoverSender(signed))
+assert.equal(recoverSender(signed), SENDER_ADDRESS.toLowerCase())
+assert.ok(verifyTransaction(signed))
+assert.ok(!verifyTransaction({ ...signed, from: PROGRAM_ADDRESS }))
+assert.ok(!verifyTransaction({ ...signed, value: formatAmountToHex('2') }))
+assert.ok(!verifyTransaction({ ...signed, v: 1 - signed.v }))
+
+console.log()
+console.log('reject placeholder signatures')
+const { transaction: placeholder }: ComputeInputs = JSON.parse(
+  fs.readFileSync(
+    path.resolve(
+      process.cwd(),
+      'examples',
+      'fungible',
+      'inputs',
+      'fungible-create.json'
+    ),
+    'utf8'
+  )
+)
+console.log(placeholder.r)
+assert.ok(!verifyTransaction(placeholder))
+assert.throws(() => recoverSender(placeholder), SigningError)
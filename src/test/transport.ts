@@ -0,0 +1,197 @@
+import assert from 'assert'
+import http from 'http'
+import { AddressInfo } from 'net'
+import {
+  DEFAULT_RETRY_POLICY,
+  LasrClient,
+  LasrError,
+  RpcError,
+  getRetryDelay,
+  isRetryableError,
+  isUnprocessedError,
+  withRetry,
+} from '@/index'
+import { JsonRpcRequest, Transaction } from '@/lib/types'
+
+const USER_ADDRESS = '0x' + 'bb'.repeat(20)
+const FAST_RETRIES = { retries: 3, initialDelayMs: 1, maxDelayMs: 5 }
+
+// A stand-in node whose answer to each attempt is scripted per address.
+const attempts: { [address: string]: number } = {}
+let calls = 0
+const server = http.createServer((req, res) => {
+  let body = ''
+  req.on('data', (chunk) => (body += chunk))
+  req.on('end', () => {
+    const request: JsonRpcRequest = JSON.parse(body)
+    if (request.method === 'lasr_call') {
+      // The call is applied, but the answer only comes after the client gave up.
+      calls++
+      setTimeout(() => {
+        res.statusCode = 504
+        res.end('Gateway Timeout')
+      }, 200)
+      return
+    }
+    const [address] = request.params as string[]
+    const attempt = (attempts[address] = (attempts[address] ?? 0) + 1)
+    const reply = (payload: object) =>
+      res.end(JSON.stringify({ jsonrpc: '2.0', id: request.id, ...payload }))
+
+    switch (address) {
+      case 'flaky':
+        if (attempt < 3) {
+          res.statusCode = 503
+          res.end('Service Unavailable')
+        } else {
+          reply({ result: JSON.stringify({ ownerAddress: USER_ADDRESS }) })
+        }
+        break
+      case 'busy':
+        reply({ error: { code: -32603, message: 'Internal error' } })
+        break
+      case 'missing':
+        reply({
+          error: { code: -32000, message: 'Account not found', data: address },
+        })
+        break
+      case 'garbled':
+        res.end('<html>Bad Gateway</html>')
+        break
+      case 'slow':
+        setTimeout(() => reply({ result: '{}' }), 200)
+        break
+    }
+  })
+})
+await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+const { port } = server.address() as AddressInfo
+const client = new LasrClient(`http://127.0.0.1:${port}`, FAST_RETRIES)
+
+try {
+  console.log('TRANSPORT')
+  console.log()
+  console.log('backoff')
+  const policy = { ...DEFAULT_RETRY_POLICY, initialDelayMs: 100, jitter: 0.5 }
+  console.log([1, 2, 3, 8].map((attempt) => getRetryDelay(attempt, policy)))
+  const delays = [1, 2, 3, 20].map((attempt) =>
+    getRetryDelay(attempt, policy, () => 0)
+  )
+  assert.deepEqual(delays, [100, 200, 400, policy.maxDelayMs])
+  // Jitter shortens the delay by up to half.
+  const jittered = getRetryDelay(3, policy, () => 0.5)
+  assert.equal(jittered, 300)
+
+  console.log()
+  console.log('classification')
+  assert.ok(isRetryableError(new RpcError('timed out')))
+  assert.ok(isRetryableError(new RpcError('busy', { status: 503 })))
+  assert.ok(isRetryableError(new RpcError('busy', { code: -32603 })))
+  assert.ok(isRetryableError(new TypeError('fetch failed')))
+  assert.ok(!isRetryableError(new RpcError('rejected', { code: -32602 })))
+  assert.ok(!isRetryableError(new RpcError('missing', { status: 404 })))
+  assert.ok(!isRetryableError(new Error('program failed')))
+  const refused = Object.assign(new TypeError('fetch failed'), {
+    cause: { code: 'ECONNREFUSED' },
+  })
+  assert.ok(isUnprocessedError(refused))
+  assert.ok(isUnprocessedError(new RpcError('slow down', { status: 429 })))
+  assert.ok(!isUnprocessedError(new RpcError('timed out')))
+  assert.ok(!isUnprocessedError(new RpcError('busy', { status: 502 })))
+  assert.ok(!isUnprocessedError(new RpcError('busy', { code: -32603 })))
+  assert.ok(!isUnprocessedError(new TypeError('fetch failed')))
+
+  console.log()
+  console.log('retry transient failures')
+  const account = await client.getAccount('flaky')
+  assert.equal(account.ownerAddress, USER_ADDRESS)
+  assert.equal(attempts.flaky, 3)
+
+  console.log()
+  console.log('give up after the last retry')
+  await assert.rejects(
+    () => client.getAccount('busy'),
+    (e: unknown) => e instanceof RpcError && e.code === -32603
+  )
+  assert.equal(attempts.busy, FAST_RETRIES.retries + 1)
+
+  console.log()
+  console.log('fail fast on rejected requests')
+  await assert.rejects(
+    () => client.getAccount('missing'),
+    (e: unknown) => {
+      console.log((e as Error).message)
+      return (
+        e instanceof LasrError &&
+        e instanceof RpcError &&
+        e.code === -32000 &&
+        e.data === 'missing'
+      )
+    }
+  )
+  assert.equal(attempts.missing, 1)
+
+  console.log()
+  console.log('reject responses that are not JSON')
+  await assert.rejects(
+    () => client.getAccount('garbled'),
+    (e: unknown) => {
+      console.log((e as Error).message)
+      return e instanceof RpcError && e.status === 200
+    }
+  )
+  assert.equal(attempts.garbled, 1)
+
+  console.log()
+  console.log('time out slow requests')
+  await assert.rejects(
+    () =>
+      new LasrClient(`http://127.0.0.1:${port}`, {
+        ...FAST_RETRIES,
+        retries: 1,
+        timeoutMs: 50,
+      }).getAccount('slow'),
+    (e: unknown) => {
+      console.log((e as Error).message)
+      return e instanceof RpcError && /timed out after 50ms/.test(e.message)
+    }
+  )
+  assert.equal(attempts.slow, 2)
+
+  console.log()
+  console.log('never resend calls the node may have applied')
+  await assert.rejects(
+    () =>
+      new LasrClient(`http://127.0.0.1:${port}`, {
+        ...FAST_RETRIES,
+        timeoutMs: 50,
+      }).call({} as Transaction),
+    (e: unknown) => e instanceof RpcError && /timed out/.test(e.message)
+  )
+  await assert.rejects(
+    () => client.call({} as Transaction),
+    (e: unknown) => e instanceof RpcError && e.status === 504
+  )
+  assert.equal(calls, 2)
+
+  console.log()
+  console.log('retry any operation')
+  const retried: number[] = []
+  const result = await withRetry(
+    async (attempt) => {
+      if (attempt < 2) {
+        throw new Error(`attempt ${attempt} failed`)
+      }
+      return attempt
+    },
+    {
+      policy: FAST_RETRIES,
+      isRetryable: () => true,
+      onRetry: (error, attempt) => retried.push(attempt),
+    }
+  )
+  assert.equal(result, 2)
+  assert.deepEqual(retried, [1, 2])
+} finally {
+  server.close()
+}